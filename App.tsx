@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { MessageCircle, Mic, Image as ImageIcon, Eye, Zap, Menu, X, FileCode, Video, Key, ChevronLeft, ChevronRight, Settings, Command } from 'lucide-react';
-import { AppMode } from './constants';
+import { MessageCircle, Mic, Image as ImageIcon, Eye, Zap, Menu, X, FileCode, Video, Key, ChevronLeft, ChevronRight, Settings, Command, Search, BarChart3, UserRound } from 'lucide-react';
+import { MODE_LABELS } from './constants';
+import { AppMode, ChatThread, FocusTarget, Handoff, UserProfile } from './types';
 import { ChatInterface } from './components/ChatInterface';
 import { LiveSession } from './components/LiveSession';
 import { ImageGenInterface } from './components/ImageGenInterface';
@@ -9,14 +10,44 @@ import { FastLab } from './components/FastLab';
 import { CodeWorkspace } from './components/CodeWorkspace';
 import { VideoGenInterface } from './components/VideoGenInterface';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { SettingsPanel } from './components/SettingsPanel';
+import { GlobalSearch } from './components/GlobalSearch';
+import { CommandPalette } from './components/CommandPalette';
+import { ShortcutSheet } from './components/ShortcutSheet';
+import { UsageDashboard, UsageTab } from './components/UsageDashboard';
+import { BudgetBanner } from './components/BudgetBanner';
+import { LoginPage } from './components/LoginPage';
 import { Logo } from './components/Logo';
+import { clearProfile, isAdmin, loadProfile, profileId, saveProfile } from './utils/profile';
+import { currentRoute, hasRouteItem, pushRoute, routeItem } from './utils/routes';
+import { loadFromHistory } from './utils/history';
+import { THREADS_KEY, sortThreads } from './utils/threads';
+import { Command as PaletteCommand, findShortcutCommand, getSelectionText, useCommands } from './utils/commands';
+import { ShortcutId, comboFromEvent, formatCombo, hasModifier, loadShortcutBindings } from './utils/shortcuts';
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 export default function App() {
-  const [activeMode, setActiveMode] = useState(AppMode.CHAT);
+  const [activeMode, setActiveMode] = useState<AppMode>(() => currentRoute()?.mode || AppMode.CHAT);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isMobile, setIsMobile] = useState(false);
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
-  const [codePrompt, setCodePrompt] = useState('');
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [handoff, setHandoff] = useState<Handoff | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [usageTab, setUsageTab] = useState<UsageTab>('usage');
+  const [profile, setProfile] = useState<UserProfile | null>(() => loadProfile());
+  const admin = isAdmin(profileId(profile));
+  const [isLoginOpen, setIsLoginOpen] = useState(false);
+  // A deep link to an item is opened like a search hit.
+  const [focusTarget, setFocusTarget] = useState<FocusTarget | null>(() => {
+    const route = currentRoute();
+    return route && hasRouteItem(route) ? route : null;
+  });
 
   useEffect(() => {
     const handleResize = () => {
@@ -29,17 +60,113 @@ export default function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const handleCodeRedirect = (prompt) => {
-    setCodePrompt(prompt);
-    setActiveMode(AppMode.CODING);
+  // Shortcuts run whichever registered command is bound to them. Bare keys are left to text fields.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      if (!combo || (!hasModifier(combo) && isEditable(e.target))) return;
+      const bindings = loadShortcutBindings();
+      const id = (Object.keys(bindings) as ShortcutId[]).find(k => bindings[k] === combo);
+      const command = id && findShortcutCommand(id);
+      if (!command) return;
+      e.preventDefault();
+      command.run({ selection: getSelectionText() });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Back/forward and hand-edited URLs. The mode keeps the URL in step with its selection from there.
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = currentRoute();
+      if (!route) return;
+      setActiveMode(route.mode);
+      setFocusTarget(hasRouteItem(route) ? route : null);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = (mode: AppMode) => {
+    if (mode === activeMode) return;
+    setActiveMode(mode);
+    pushRoute(mode);
+  };
+
+  const handleSearchSelect = (target: FocusTarget) => {
+    setFocusTarget(target);
+    setActiveMode(target.mode);
+    pushRoute(target.mode, routeItem(target));
+    if (isMobile) setIsSidebarOpen(false);
   };
 
-  const NavItem = ({ mode, icon: Icon, label }) => {
+  const openUsage = (tab: UsageTab = 'usage') => {
+    setUsageTab(tab);
+    setIsUsageOpen(true);
+  };
+
+  const handleLogin = (next?: UserProfile) => {
+    if (next) {
+      saveProfile(next);
+      setProfile(next);
+    }
+    setIsLoginOpen(false);
+  };
+
+  const handleProfileClick = () => {
+    if (!profile) return setIsLoginOpen(true);
+    if (!confirm(`Sign out ${profile.email}`)) return;
+    clearProfile();
+    setProfile(null);
+  };
+
+  // The target mode picks the hand-off up once it is showing, like a focus target.
+  const handleHandoff = (next: Handoff) => {
+    setHandoff(next);
+    navigate(next.mode);
+    if (isMobile) setIsSidebarOpen(false);
+  };
+
+  useCommands([
+    { id: 'app.palette', title: 'Command palette', group: 'General', shortcut: 'palette', run: () => setIsPaletteOpen(true) },
+    { id: 'app.search', title: 'Search history', group: 'General', shortcut: 'search', run: () => setIsSearchOpen(true) },
+    { id: 'app.shortcuts', title: 'Keyboard shortcuts', group: 'General', shortcut: 'shortcuts', keywords: 'keys bindings remap', run: () => setIsShortcutsOpen(true) },
+    { id: 'app.settings', title: 'Open settings', group: 'General', shortcut: 'settings', keywords: 'provider model preferences', run: () => setIsSettingsOpen(true) },
+    { id: 'app.usage', title: 'Usage', group: 'General', shortcut: 'usage', keywords: 'tokens cost', run: () => openUsage() },
+    { id: 'app.budgets', title: 'Budgets', group: 'General', keywords: 'limits', disabled: !admin, run: () => openUsage('budgets') },
+    ...Object.values(AppMode).map((mode): PaletteCommand => ({
+      id: `app.mode.${mode}`,
+      title: `Go to ${MODE_LABELS[mode]}`,
+      group: 'Modes',
+      shortcut: `mode.${mode}` as const,
+      disabled: mode === activeMode,
+      run: () => navigate(mode)
+    })),
+    { id: 'app.fast.summarize', title: 'Summarize selection', group: MODE_LABELS[AppMode.FAST], needsSelection: true, run: ({ selection }) => handleHandoff({ mode: AppMode.FAST, task: 'summarize', text: selection }) },
+    { id: 'app.fast.grammar', title: 'Refine selection', group: MODE_LABELS[AppMode.FAST], keywords: 'grammar', needsSelection: true, run: ({ selection }) => handleHandoff({ mode: AppMode.FAST, task: 'grammar', text: selection }) }
+  ]);
+
+  // Read from storage whenever the palette lists commands, so threads made since the last render show up.
+  useCommands(() => {
+    const threads: ChatThread[] = loadFromHistory(THREADS_KEY, []);
+    return sortThreads(threads).map(thread => ({
+      id: `app.thread.${thread.id}`,
+      title: thread.title,
+      group: 'Threads',
+      keywords: 'open chat',
+      run: () => handleSearchSelect({ mode: AppMode.CHAT, threadId: thread.id })
+    }));
+  });
+
+  const bindings = loadShortcutBindings();
+
+  const NavItem = ({ mode, icon: Icon, label }: { mode: AppMode; icon: React.ElementType; label: string }) => {
     const isActive = activeMode === mode;
     return (
       <button
         onClick={() => {
-          setActiveMode(mode);
+          navigate(mode);
           if (isMobile) setIsSidebarOpen(false);
         }}
         className={`w-full flex items-center gap-4 px-4 py-3 rounded-2xl transition-all duration-300 group ${
@@ -61,15 +188,22 @@ export default function App() {
   };
 
   const renderContent = () => {
+    const focus = focusTarget?.mode === activeMode ? focusTarget : null;
+    const onFocusHandled = () => setFocusTarget(null);
+    const handoffProps = {
+      handoff: handoff?.mode === activeMode ? handoff : null,
+      onHandoff: handleHandoff,
+      onHandoffHandled: () => setHandoff(null)
+    };
     switch (activeMode) {
-      case AppMode.CHAT: return <ChatInterface onCodeRequest={handleCodeRedirect} />;
-      case AppMode.LIVE: return <LiveSession />;
-      case AppMode.IMAGES: return <ImageGenInterface />;
-      case AppMode.VIDEO: return <VideoGenInterface />;
-      case AppMode.VISION: return <VisionInterface />;
-      case AppMode.FAST: return <FastLab />;
-      case AppMode.CODING: return <CodeWorkspace initialPrompt={codePrompt} onClearInitialPrompt={() => setCodePrompt('')} />;
-      default: return <ChatInterface onCodeRequest={handleCodeRedirect} />;
+      case AppMode.CHAT: return <ChatInterface {...handoffProps} focus={focus} onFocusHandled={onFocusHandled} />;
+      case AppMode.LIVE: return <LiveSession focus={focus} onFocusHandled={onFocusHandled} onHandoff={handleHandoff} />;
+      case AppMode.IMAGES: return <ImageGenInterface {...handoffProps} focus={focus} onFocusHandled={onFocusHandled} />;
+      case AppMode.VIDEO: return <VideoGenInterface {...handoffProps} focus={focus} onFocusHandled={onFocusHandled} />;
+      case AppMode.VISION: return <VisionInterface {...handoffProps} focus={focus} onFocusHandled={onFocusHandled} />;
+      case AppMode.FAST: return <FastLab {...handoffProps} focus={focus} onFocusHandled={onFocusHandled} />;
+      case AppMode.CODING: return <CodeWorkspace {...handoffProps} focus={focus} onFocusHandled={onFocusHandled} />;
+      default: return <ChatInterface onHandoff={handleHandoff} />;
     }
   };
 
@@ -81,13 +215,17 @@ export default function App() {
              <Logo size={20} />
            </div>
            <div className="flex flex-col gap-4">
-             <button onClick={() => setActiveMode(AppMode.CHAT)} className={`p-2.5 rounded-xl ${activeMode === AppMode.CHAT ? 'text-white bg-white/5' : 'text-slate-700 hover:text-slate-400'}`}><MessageCircle size={20} /></button>
-             <button onClick={() => setActiveMode(AppMode.CODING)} className={`p-2.5 rounded-xl ${activeMode === AppMode.CODING ? 'text-white bg-white/5' : 'text-slate-700 hover:text-slate-400'}`}><FileCode size={20} /></button>
-             <button onClick={() => setActiveMode(AppMode.IMAGES)} className={`p-2.5 rounded-xl ${activeMode === AppMode.IMAGES ? 'text-white bg-white/5' : 'text-slate-700 hover:text-slate-400'}`}><ImageIcon size={20} /></button>
+             <button onClick={() => navigate(AppMode.CHAT)} className={`p-2.5 rounded-xl ${activeMode === AppMode.CHAT ? 'text-white bg-white/5' : 'text-slate-700 hover:text-slate-400'}`}><MessageCircle size={20} /></button>
+             <button onClick={() => navigate(AppMode.CODING)} className={`p-2.5 rounded-xl ${activeMode === AppMode.CODING ? 'text-white bg-white/5' : 'text-slate-700 hover:text-slate-400'}`}><FileCode size={20} /></button>
+             <button onClick={() => navigate(AppMode.IMAGES)} className={`p-2.5 rounded-xl ${activeMode === AppMode.IMAGES ? 'text-white bg-white/5' : 'text-slate-700 hover:text-slate-400'}`}><ImageIcon size={20} /></button>
            </div>
            <div className="mt-auto flex flex-col gap-4">
+             <button onClick={handleProfileClick} title={profile ? `Signed in as ${profile.email}` : 'Sign in'} className="p-2.5 rounded-xl text-slate-700 hover:text-white">
+               {profile?.picture ? <img src={profile.picture} alt="" className="w-5 h-5 rounded-full" /> : <UserRound size={20} className={profile ? 'text-indigo-400' : ''} />}
+             </button>
              <button onClick={() => setIsKeyModalOpen(true)} className="p-2.5 rounded-xl text-slate-700 hover:text-indigo-400"><Key size={20} /></button>
-             <button className="p-2.5 rounded-xl text-slate-700 hover:text-white"><Settings size={20} /></button>
+             <button onClick={() => openUsage()} title="Usage" className="p-2.5 rounded-xl text-slate-700 hover:text-white"><BarChart3 size={20} /></button>
+             <button onClick={() => setIsSettingsOpen(true)} className="p-2.5 rounded-xl text-slate-700 hover:text-white"><Settings size={20} /></button>
            </div>
         </aside>
       )}
@@ -99,7 +237,10 @@ export default function App() {
                <span className="text-lg font-normal tracking-tight text-white italic">TextGpt ai</span>
                <span className="text-[9px] font-black text-indigo-500 uppercase tracking-widest mt-0.5">Vanilla Engine v4</span>
              </div>
-             {isMobile && <button onClick={() => setIsSidebarOpen(false)} className="text-slate-500 p-2"><X size={20} /></button>}
+             <div className="flex items-center">
+               <button onClick={() => setIsSearchOpen(true)} title="Search history" className="text-slate-500 hover:text-white p-2"><Search size={16} /></button>
+               {isMobile && <button onClick={() => setIsSidebarOpen(false)} className="text-slate-500 p-2"><X size={20} /></button>}
+             </div>
           </div>
           <nav className="flex-1 space-y-8 overflow-y-auto no-scrollbar">
             <div>
@@ -131,16 +272,36 @@ export default function App() {
                </button>
                <span className="text-[10px] font-black text-slate-500 uppercase tracking-[0.4em]">{activeMode.replace('_', ' ')} MODULE</span>
              </div>
-             <div className="flex items-center gap-2 px-3 py-1 bg-white/5 border border-white/5 rounded-full">
-                <Command size={10} className="text-slate-700" />
-                <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">K Neural Processing</span>
+             <div className="flex items-center gap-3">
+               <button onClick={() => setIsSearchOpen(true)} className="flex items-center gap-2 px-3 py-1 bg-white/5 border border-white/5 rounded-full text-slate-600 hover:text-white transition-colors">
+                  <Search size={10} />
+                  <span className="text-[9px] font-bold uppercase tracking-widest">Search</span>
+                  <span className="text-[9px] font-bold text-slate-700 uppercase tracking-widest">{formatCombo(bindings.search)}</span>
+               </button>
+               <button onClick={() => setIsPaletteOpen(true)} className="flex items-center gap-2 px-3 py-1 bg-white/5 border border-white/5 rounded-full text-slate-600 hover:text-white transition-colors">
+                  <Command size={10} />
+                  <span className="text-[9px] font-bold uppercase tracking-widest">Commands</span>
+                  <span className="text-[9px] font-bold text-slate-700 uppercase tracking-widest">{formatCombo(bindings.palette)}</span>
+               </button>
              </div>
           </header>
         )}
+        <BudgetBanner user={profileId(profile)} mode={activeMode} onManage={admin ? () => openUsage('budgets') : undefined} />
         <div className="flex-1 relative overflow-hidden">{renderContent()}</div>
       </main>
 
       <ApiKeyModal isOpen={isKeyModalOpen} onClose={() => setIsKeyModalOpen(false)} onSuccess={() => setIsKeyModalOpen(false)} />
+      <SettingsPanel isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <UsageDashboard isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} currentUser={profileId(profile)} initialTab={usageTab} />
+      {isLoginOpen && (
+        <div className="fixed inset-0 z-[100] overflow-y-auto">
+          <LoginPage onLoginSuccess={handleLogin} />
+          <button onClick={() => setIsLoginOpen(false)} className="fixed top-6 left-6 z-[110] p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-colors"><X size={20} /></button>
+        </div>
+      )}
+      <GlobalSearch isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} onSelect={handleSearchSelect} />
+      <CommandPalette isOpen={isPaletteOpen} onClose={() => setIsPaletteOpen(false)} />
+      <ShortcutSheet isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
     </div>
   );
 }
\ No newline at end of file
@@ -64,14 +64,14 @@ const App: React.FC = () => {
 
   const renderContent = () => {
     switch (activeMode) {
-      case AppMode.CHAT: return <ChatInterface onCodeRequest={handleCodeRedirect} />;
+      case AppMode.CHAT: return <ChatInterface onHandoff={h => h.mode === AppMode.CODING && handleCodeRedirect(h.prompt || '')} />;
       case AppMode.LIVE: return <LiveSession />;
       case AppMode.IMAGES: return <ImageGenInterface />;
       case AppMode.VIDEO: return <VideoGenInterface />;
       case AppMode.VISION: return <VisionInterface />;
       case AppMode.FAST: return <FastLab />;
-      case AppMode.CODING: return <CodeWorkspace initialPrompt={codePrompt} onClearInitialPrompt={() => setCodePrompt('')} />;
-      default: return <ChatInterface onCodeRequest={handleCodeRedirect} />;
+      case AppMode.CODING: return <CodeWorkspace handoff={codePrompt ? { mode: AppMode.CODING, prompt: codePrompt } : null} onHandoffHandled={() => setCodePrompt('')} />;
+      default: return <ChatInterface onHandoff={h => h.mode === AppMode.CODING && handleCodeRedirect(h.prompt || '')} />;
     }
   };
 
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { X, FileText, FileAudio, FileVideo, File as FileIcon, Image as ImageIcon, Loader2, CloudUpload } from 'lucide-react';
+import { ChatAttachment } from '../types';
+import { attachmentBase64, attachmentKind, decodeBase64Text, formatBytes } from '../utils/attachments';
+import { resolveBlobUrls } from '../utils/history';
+
+const KIND_ICONS = { image: ImageIcon, pdf: FileText, audio: FileAudio, video: FileVideo, text: FileText, file: FileIcon };
+
+const TEXT_PREVIEW_CHARS = 4000;
+
+interface AttachmentChipProps {
+  attachment: ChatAttachment;
+  // Object URL for files still in the composer; uploaded files keep no stored preview.
+  previewUrl?: string;
+  uploading?: boolean;
+  onRemove?: () => void;
+}
+
+export const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, previewUrl, uploading, onRemove }) => {
+  const kind = attachmentKind(attachment.mimeType);
+  const Icon = KIND_ICONS[kind];
+  const thumb = kind === 'image' ? previewUrl || attachment.url : undefined;
+  return (
+    <div className="flex items-center gap-3 pl-2 pr-3 py-2 bg-[#0a0a0a] border border-white/5 rounded-2xl max-w-[220px]">
+      {thumb
+        ? <img src={thumb} className="w-9 h-9 rounded-xl object-cover shrink-0" />
+        : <div className="w-9 h-9 rounded-xl bg-white/5 flex items-center justify-center text-slate-500 shrink-0"><Icon size={16} /></div>}
+      <div className="min-w-0">
+        <p className="text-[11px] text-slate-300 truncate">{attachment.name}</p>
+        <p className="text-[9px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-1">
+          {uploading ? <><Loader2 size={9} className="animate-spin" /> Uploading</> : formatBytes(attachment.size)}
+          {attachment.fileUri && <CloudUpload size={9} className="text-indigo-400" />}
+        </p>
+      </div>
+      {onRemove && <button onClick={onRemove} title="Remove" className="p-1 text-slate-600 hover:text-red-400 shrink-0"><X size={12} /></button>}
+    </div>
+  );
+};
+
+// Saved text is read back from storage, so it appears once its bytes are loaded.
+const TextPreview: React.FC<{ attachment: ChatAttachment }> = ({ attachment }) => {
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    let active = true;
+    resolveBlobUrls(attachment).then(a => { if (active) setText(decodeBase64Text(attachmentBase64(a))); });
+    return () => { active = false; };
+  }, [attachment.url, attachment.data]);
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-[#0a0a0a] overflow-hidden">
+      <div className="px-4 py-2 border-b border-white/5 text-[9px] font-black uppercase tracking-widest text-slate-600">{attachment.name}</div>
+      <pre className="p-4 max-h-60 overflow-auto text-[12px] leading-5 font-mono text-slate-400 whitespace-pre-wrap">
+        {text.length > TEXT_PREVIEW_CHARS ? `${text.slice(0, TEXT_PREVIEW_CHARS)}…` : text}
+      </pre>
+    </div>
+  );
+};
+
+// Full preview inside a sent message. Without inline data we can only show the chip.
+export const AttachmentPreview: React.FC<{ attachment: ChatAttachment }> = ({ attachment }) => {
+  const kind = attachmentKind(attachment.mimeType);
+  if (!attachment.url) return <AttachmentChip attachment={attachment} />;
+
+  switch (kind) {
+    case 'image':
+      return <img src={attachment.url} alt={attachment.name} className="max-h-[400px] rounded-2xl" />;
+    case 'pdf':
+      return (
+        <object data={attachment.url} type="application/pdf" className="w-full min-w-[320px] h-[420px] rounded-2xl bg-white/5">
+          <AttachmentChip attachment={attachment} />
+        </object>
+      );
+    case 'audio':
+      return <audio controls src={attachment.url} className="w-full min-w-[280px]" />;
+    case 'video':
+      return <video controls src={attachment.url} className="max-h-[400px] rounded-2xl" />;
+    case 'text':
+      return <TextPreview attachment={attachment} />;
+    default:
+      return <AttachmentChip attachment={attachment} />;
+  }
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface BranchSwitcherProps {
+  index: number;
+  total: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ index, total, onSelect, disabled }) => {
+  if (total < 2) return null;
+  return (
+    <div className="flex items-center gap-1 text-[10px] font-bold text-slate-600 tabular-nums">
+      <button onClick={() => onSelect(index - 1)} disabled={disabled || index === 0} className="p-1 rounded-lg hover:text-white hover:bg-white/5 disabled:opacity-20 transition-all"><ChevronLeft size={12} /></button>
+      <span>{index + 1} / {total}</span>
+      <button onClick={() => onSelect(index + 1)} disabled={disabled || index === total - 1} className="p-1 rounded-lg hover:text-white hover:bg-white/5 disabled:opacity-20 transition-all"><ChevronRight size={12} /></button>
+    </div>
+  );
+};
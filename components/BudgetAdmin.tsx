@@ -0,0 +1,150 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { MODE_LABELS } from '../constants';
+import { AppMode } from '../types';
+import { PriceTable, UsageRecord, usageUser } from '../utils/usage';
+import { LOCAL_USER } from '../utils/profile';
+import {
+  ANY, BUDGET_METRICS, BUDGET_PERIODS, BUDGET_WARNING_RATIO, Budget, BudgetMetric, BudgetPeriod, budgetStatus, createBudgetId,
+  formatBudgetAmount, loadBudgets, saveBudgets
+} from '../utils/budgets';
+
+interface BudgetAdminProps {
+  records: UsageRecord[];
+  prices: PriceTable;
+  currentUser: string;
+}
+
+const LEVEL_COLORS = { ok: 'bg-emerald-500', warning: 'bg-amber-500', exceeded: 'bg-red-500' };
+
+const selectClass = 'bg-[#0a0a0a] border border-white/5 rounded-lg px-2 py-1.5 text-[11px] text-slate-200 outline-none focus:border-indigo-500/40';
+
+const userLabel = (user: string) => user === ANY ? 'Everyone' : user === LOCAL_USER ? 'Not signed in' : user;
+
+// Budgets tab of the usage dashboard: limits per user and mode, with reset and raise.
+export const BudgetAdmin: React.FC<BudgetAdminProps> = ({ records, prices, currentUser }) => {
+  const [budgets, setBudgets] = useState<Budget[]>(() => loadBudgets());
+  const [draft, setDraft] = useState<Omit<Budget, 'id' | 'limit'>>({ user: ANY, mode: ANY, metric: 'cost', period: 'day' });
+  const [draftLimit, setDraftLimit] = useState('5');
+  const newLimit = parseFloat(draftLimit);
+  const isValidLimit = Number.isFinite(newLimit) && newLimit >= 0;
+
+  const statuses = useMemo(() => budgets.map(b => budgetStatus(b, records, prices)), [budgets, records, prices]);
+  const users = useMemo(() => [...new Set([currentUser, ...records.map(usageUser), ...budgets.map(b => b.user)])].filter(u => u !== ANY).sort(), [records, budgets, currentUser]);
+
+  const update = (next: Budget[]) => {
+    saveBudgets(next);
+    setBudgets(next);
+  };
+
+  const setLimit = (id: string, value: string) => {
+    const limit = parseFloat(value);
+    if (Number.isFinite(limit) && limit >= 0) update(budgets.map(b => b.id === id ? { ...b, limit } : b));
+  };
+
+  const handleReset = (id: string) => {
+    if (!confirm("Reset budget")) return;
+    update(budgets.map(b => b.id === id ? { ...b, resetAt: Date.now() } : b));
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Delete budget")) return;
+    update(budgets.filter(b => b.id !== id));
+  };
+
+  const handleAdd = () => {
+    if (!isValidLimit) return;
+    update([...budgets, { ...draft, limit: newLimit, id: createBudgetId() }]);
+  };
+
+  return (
+    <div className="space-y-10">
+      <section className="space-y-3">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Budgets</h3>
+        {statuses.length === 0 ? (
+          <p className="py-10 text-center text-[10px] font-black uppercase tracking-widest text-slate-700">No budgets set</p>
+        ) : (
+          <div className="border border-white/5 rounded-2xl overflow-x-auto">
+            <table className="w-full text-[11px]">
+              <thead className="bg-[#050505] text-[9px] font-black uppercase tracking-widest text-slate-600">
+                <tr>
+                  <th className="text-left px-4 py-2">User</th>
+                  <th className="text-left px-4 py-2">Mode</th>
+                  <th className="text-left px-4 py-2">Budget</th>
+                  <th className="text-left px-4 py-2 w-[30%]">Used</th>
+                  <th className="text-right px-4 py-2">Limit</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map(({ budget, used, ratio, level }) => (
+                  <tr key={budget.id} className="border-t border-white/5 text-slate-400">
+                    <td className="px-4 py-2 text-white truncate max-w-[180px]">{userLabel(budget.user)}</td>
+                    <td className="px-4 py-2">{budget.mode === ANY ? 'All modes' : MODE_LABELS[budget.mode] || budget.mode}</td>
+                    <td className="px-4 py-2">{BUDGET_PERIODS.find(p => p.id === budget.period)?.label} {BUDGET_METRICS.find(m => m.id === budget.metric)?.label.toLowerCase()}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-3">
+                        <div className="flex-1 h-2 bg-white/5 rounded-full overflow-hidden">
+                          <div className={LEVEL_COLORS[level]} style={{ width: `${Math.min(1, ratio) * 100}%`, height: '100%' }} />
+                        </div>
+                        <span className={`shrink-0 font-bold ${level === 'exceeded' ? 'text-red-400' : level === 'warning' ? 'text-amber-400' : 'text-slate-400'}`}>{formatBudgetAmount(budget.metric, used)}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-1.5">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        defaultValue={budget.limit}
+                        onChange={e => setLimit(budget.id, e.target.value)}
+                        className="w-24 ml-auto block bg-[#0a0a0a] border border-white/5 rounded-lg px-2 py-1 text-right text-slate-200 outline-none focus:border-indigo-500/40"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-1">
+                        <button onClick={() => handleReset(budget.id)} title="Reset usage for this period" className="p-1.5 rounded-lg text-slate-600 hover:text-white hover:bg-white/5 transition-all"><RotateCcw size={12} /></button>
+                        <button onClick={() => handleDelete(budget.id)} title="Delete" className="p-1.5 rounded-lg text-slate-600 hover:text-red-400 hover:bg-white/5 transition-all"><Trash2 size={12} /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">New Budget</h3>
+        <div className="flex flex-wrap items-center gap-2 bg-[#050505] border border-white/5 rounded-2xl p-4">
+          <select value={draft.user} onChange={e => setDraft({ ...draft, user: e.target.value })} className={selectClass}>
+            <option value={ANY}>Everyone</option>
+            {users.map(u => <option key={u} value={u}>{userLabel(u)}</option>)}
+          </select>
+          <select value={draft.mode} onChange={e => setDraft({ ...draft, mode: e.target.value as AppMode | typeof ANY })} className={selectClass}>
+            <option value={ANY}>All modes</option>
+            {Object.entries(MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>{label}</option>)}
+          </select>
+          <select value={draft.period} onChange={e => setDraft({ ...draft, period: e.target.value as BudgetPeriod })} className={selectClass}>
+            {BUDGET_PERIODS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <select value={draft.metric} onChange={e => setDraft({ ...draft, metric: e.target.value as BudgetMetric })} className={selectClass}>
+            {BUDGET_METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={draftLimit}
+            onChange={e => setDraftLimit(e.target.value)}
+            className="w-24 bg-[#0a0a0a] border border-white/5 rounded-lg px-2 py-1.5 text-right text-[11px] text-slate-200 outline-none focus:border-indigo-500/40"
+          />
+          <button onClick={handleAdd} disabled={!isValidLimit} className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-indigo-600 text-[9px] font-black uppercase tracking-widest text-white hover:bg-indigo-500 transition-all disabled:opacity-30">
+            <Plus size={12} /> Add
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-600 font-bold ml-1">Requests are blocked once a budget is used up and warned about from {Math.round(BUDGET_WARNING_RATIO * 100)}%.</p>
+      </section>
+    </div>
+  );
+};
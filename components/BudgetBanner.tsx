@@ -0,0 +1,28 @@
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import { AppMode } from '../types';
+import { budgetMessage, useBudgetAlerts } from '../utils/budgets';
+
+interface BudgetBannerProps {
+  user: string;
+  mode: string;
+  // Left out for users who cannot manage budgets.
+  onManage?: () => void;
+}
+
+// Shows the most used budget for the active mode once it nears or passes its limit.
+export const BudgetBanner: React.FC<BudgetBannerProps> = ({ user, mode, onManage }) => {
+  const alerts = useBudgetAlerts(user, mode as AppMode);
+  const top = alerts[0];
+  if (!top) return null;
+  const exceeded = top.level === 'exceeded';
+
+  return (
+    <div className={`flex items-center gap-3 px-6 py-2.5 border-b text-[11px] shrink-0 ${exceeded ? 'bg-red-500/10 border-red-500/20 text-red-300' : 'bg-amber-500/10 border-amber-500/20 text-amber-300'}`}>
+      <Wallet size={14} className="shrink-0" />
+      <span className="flex-1 min-w-0 truncate font-bold">{budgetMessage(top)}</span>
+      {alerts.length > 1 && <span className="shrink-0 text-[9px] font-black uppercase tracking-widest opacity-70">+{alerts.length - 1} more</span>}
+      {onManage && <button onClick={onManage} className="shrink-0 text-[9px] font-black uppercase tracking-widest hover:text-white transition-colors">Budgets</button>}
+    </div>
+  );
+};
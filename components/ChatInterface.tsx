@@ -1,119 +1,521 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { Send, Globe, Paperclip, X, MessageCircle } from 'lucide-react';
+import { Send, Globe, Paperclip, X, MessageCircle, Square, Loader2, Plus, Pin, PinOff, Pencil, Trash2, PanelLeft, Check, RefreshCw } from 'lucide-react';
+import { AppMode, ChatAttachment, ChatMessage, ChatThread, FocusTarget, Handoff, MessageError } from '../types';
+import { MODE_LABELS } from '../constants';
+import { saveToHistory, loadFromHistory, resolveBlobUrls } from '../utils/history';
+import { THREADS_KEY, DEFAULT_THREAD_TITLE, createThread, deriveThreadTitle, sortThreads, toContentHistory, toMessageParts } from '../utils/threads';
+import { chatRequest } from '../utils/modeRequests';
+import { ATTACHMENT_ACCEPT, INLINE_MAX_BYTES, MAX_ATTACHMENTS, createAttachmentId, migrateAttachment, readFileAsDataUrl, resolveMimeType, validateAttachment } from '../utils/attachments';
+import { parseGrounding } from '../utils/citations';
+import { ConversationExport, createExport } from '../utils/conversationExport';
+import { createNodeId, ensureIds, getActivePath, getSiblings, revealNode, selectBranch } from '../utils/branches';
+import { useSearchHighlight } from '../utils/search';
+import { useRouteItem } from '../utils/routes';
+import { useCommands } from '../utils/commands';
+import { textHandoffs } from '../utils/handoff';
+import { getProvider, classifyError } from '../providers';
 import { Logo } from './Logo';
+import { MessageRenderer } from './MessageRenderer';
+import { PersonaPicker } from './PersonaPicker';
+import { BranchSwitcher } from './BranchSwitcher';
+import { AttachmentChip, AttachmentPreview } from './AttachmentPreview';
+import { SourcesPanel } from './SourcesPanel';
+import { ConversationMenu } from './ConversationMenu';
+import { SendToMenu } from './SendToMenu';
+import { ErrorNotice } from './ErrorNotice';
 
-const SYSTEM_LITERALS = "YOU MUST RESPOND USING ONLY ALPHABETIC CHARACTERS AND SPACES. DO NOT USE PUNCTUATION LIKE COLONS HYPHENS SLASHES PARENTHESES OR QUOTES. THE ONLY EXCEPTION IS DURING MATH CALCULATIONS WHERE YOU MAY USE PLUS MINUS MULTIPLY DIVIDE AND EQUALS SYMBOLS. OTHERWISE USE ONLY LETTERS.";
+// Composer-only state; stripped before the attachment is stored on a message.
+interface PendingAttachment extends ChatAttachment {
+  previewUrl?: string;
+  uploading?: boolean;
+}
 
-export const ChatInterface = ({ onCodeRequest }) => {
-  const [messages, setMessages] = useState([]);
+interface ChatInterfaceProps {
+  handoff?: Handoff | null;
+  onHandoff?: (handoff: Handoff) => void;
+  onHandoffHandled?: () => void;
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
+}
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ handoff, onHandoff, onHandoffHandled, focus, onFocusHandled }) => {
+  const [threads, setThreads] = useState<ChatThread[]>(() => {
+    const saved: ChatThread[] = loadFromHistory(THREADS_KEY, []);
+    return saved.length ? saved : [createThread()];
+  });
+  const [activeThreadId, setActiveThreadId] = useState<string>(() => sortThreads(threads)[0].id);
+  const [showThreads, setShowThreads] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [useSearch, setUseSearch] = useState(true);
-  const [attachment, setAttachment] = useState(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef(null);
   const scrollRef = useRef(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const activeThread = threads.find(t => t.id === activeThreadId) || threads[0];
+  const messages = getActivePath(activeThread.messages, activeThread.branches);
+
+  useEffect(() => { saveToHistory(THREADS_KEY, threads); }, [threads]);
 
   useEffect(() => {
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-  }, [messages, isLoading]);
-
-  const handleFileSelect = (e) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result;
-        // Fix: result is string | ArrayBuffer. Only strings have the split method.
-        if (typeof result === 'string') {
-          setAttachment({ data: result.split(',')[1], mimeType: file.type, url: result });
+  }, [messages.length, messages[messages.length - 1]?.text, isLoading]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const [highlightId, setHighlightId] = useSearchHighlight();
+
+  // A search hit may sit on a branch that is not selected, so reveal it first.
+  useEffect(() => {
+    if (!focus) return;
+    const thread = threads.find(t => t.id === focus.threadId);
+    if (thread && !isLoading) {
+      setActiveThreadId(thread.id);
+      clearAttachments();
+      if (focus.messageId) {
+        updateThread(thread.id, t => ({ ...t, branches: revealNode(t.messages, t.branches || {}, focus.messageId!) }));
+        setHighlightId(`msg-${focus.messageId}`);
+      }
+    }
+    onFocusHandled?.();
+  }, [focus]);
+
+  useRouteItem(AppMode.CHAT, activeThreadId, !!focus);
+
+  const updateThread = (id: string, fn: (t: ChatThread) => ChatThread) => {
+    setThreads(p => p.map(t => t.id === id ? fn(t) : t));
+  };
+
+  const patchMessage = (threadId: string, messageId: string, patch: Partial<ChatMessage>) => {
+    updateThread(threadId, t => ({ ...t, messages: t.messages.map(m => m.id === messageId ? { ...m, ...patch } : m) }));
+  };
+
+  // Adds a node to the tree and makes it the selected branch under its parent.
+  const addMessage = (threadId: string, message: ChatMessage) => {
+    updateThread(threadId, t => ({
+      ...t,
+      messages: [...t.messages, message],
+      branches: selectBranch(t.branches || {}, message),
+      updatedAt: Date.now()
+    }));
+  };
+
+  const getExport = () => messages.length
+    ? createExport(AppMode.CHAT, activeThread.title, activeThread.messages, { branches: activeThread.branches, personaId: activeThread.personaId })
+    : null;
+
+  // Imports always land in a new thread so nothing local is overwritten.
+  const handleImport = (conv: ConversationExport) => {
+    const thread: ChatThread = {
+      ...createThread(),
+      title: conv.title,
+      personaId: conv.personaId,
+      branches: conv.branches,
+      messages: ensureIds(conv.messages.map(m => ({ ...m, timestamp: m.timestamp || conv.exportedAt }))).map(migrateAttachment)
+    };
+    setThreads(p => [thread, ...p]);
+    setActiveThreadId(thread.id);
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleNewThread = () => {
+    if (isLoading) return;
+    // Reuse the current thread instead of piling up empty ones.
+    if (messages.length === 0) return;
+    const thread = createThread();
+    setThreads(p => [thread, ...p]);
+    setActiveThreadId(thread.id);
+  };
+
+  const handleSwitchThread = (id: string) => {
+    if (isLoading) return;
+    setActiveThreadId(id);
+    clearAttachments();
+  };
+
+  const handleDeleteThread = (id: string) => {
+    if (isLoading || !confirm("Delete thread")) return;
+    const remaining = threads.filter(t => t.id !== id);
+    const next = remaining.length ? remaining : [createThread()];
+    setThreads(next);
+    if (id === activeThreadId) setActiveThreadId(sortThreads(next)[0].id);
+  };
+
+  const handleTogglePin = (id: string) => updateThread(id, t => ({ ...t, pinned: !t.pinned }));
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setRenameValue(thread.title);
+  };
+
+  const commitRename = () => {
+    if (!renamingId) return;
+    const title = renameValue.trim();
+    if (title) updateThread(renamingId, t => ({ ...t, title }));
+    setRenamingId(null);
+  };
+
+  const patchAttachment = (id: string, patch: Partial<PendingAttachment>) => {
+    setAttachments(p => p.map(a => a.id === id ? { ...a, ...patch } : a));
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach(a => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+    setAttachments([]);
+    setAttachmentError(null);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(p => {
+      const removed = p.find(a => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return p.filter(a => a.id !== id);
+    });
+  };
+
+  // Small files are sent inline; larger ones go through the provider's Files API right away
+  // so the upload overlaps with typing.
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setAttachmentError(null);
+    const provider = getProvider(AppMode.CHAT);
+    const canUpload = provider.capabilities.includes('files');
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) setAttachmentError(`Up to ${MAX_ATTACHMENTS} attachments per message`);
+
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      const mimeType = resolveMimeType(file);
+      const error = validateAttachment(file, mimeType, canUpload);
+      if (error) { setAttachmentError(error); continue; }
+      const base: PendingAttachment = { id: createAttachmentId(), name: file.name, mimeType, size: file.size };
+
+      if (file.size <= INLINE_MAX_BYTES) {
+        try {
+          const url = await readFileAsDataUrl(file);
+          setAttachments(p => [...p, { ...base, url }]);
+        } catch (e) {
+          setAttachmentError(`Could not read ${file.name}`);
         }
-      };
-      reader.readAsDataURL(file);
+        continue;
+      }
+
+      setAttachments(p => [...p, { ...base, previewUrl: URL.createObjectURL(file), uploading: true }]);
+      provider.uploadFile(file)
+        .then(uploaded => patchAttachment(base.id, { fileUri: uploaded.uri, fileExpiresAt: uploaded.expiresAt, mimeType: uploaded.mimeType, uploading: false }))
+        .catch(() => {
+          removeAttachment(base.id);
+          setAttachmentError(`Upload failed for ${file.name}`);
+        });
     }
   };
 
-  const handleSend = async () => {
-    if ((!input.trim() && !attachment) || isLoading) return;
-    
-    const userMsg = { role: 'user', text: input, attachment: attachment ? { ...attachment } : null };
-    setMessages(p => [...p, userMsg]);
-    setInput('');
-    setAttachment(null);
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Streams a model reply to `userMsg` as a new branch; `context` is the active path before it.
+  const generateReply = async (thread: ChatThread, userMsg: ChatMessage, context: ChatMessage[]) => {
+    const threadId = thread.id;
+    const reply: ChatMessage = { id: createNodeId(), parentId: userMsg.id, role: 'model', text: '', timestamp: Date.now() };
+    addMessage(threadId, reply);
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let text = '';
+    let grounding = null;
+    let error: MessageError | undefined;
+
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const model = useSearch ? 'gemini-3-flash-preview' : 'gemini-3-pro-preview';
-      // Fix: config is inferred to only have systemInstruction. Explicit typing allows optional tools property.
-      const config: { systemInstruction: string; tools?: any[] } = { systemInstruction: `You are TextGpt ai. ${SYSTEM_LITERALS}` };
-      if (useSearch) config.tools = [{ googleSearch: {} }];
-
-      const chat = ai.chats.create({ model, config });
-      const response = userMsg.attachment 
-        ? await chat.sendMessage({ message: [{ text: userMsg.text }, { inlineData: { mimeType: userMsg.attachment.mimeType, data: userMsg.attachment.data } }] })
-        : await chat.sendMessage({ message: userMsg.text });
-      
-      const sources = [];
-      response.candidates?.[0]?.groundingMetadata?.groundingChunks?.forEach(c => { if (c.web) sources.push({ title: c.web.title, uri: c.web.uri }); });
-
-      setMessages(p => [...p, { role: 'model', text: response.text, sources }]);
-    } catch (error) {
-      setMessages(p => [...p, { role: 'model', text: "NEURAL_LINK_TIMEOUT" }]);
+      const provider = getProvider(AppMode.CHAT);
+      const search = useSearch && provider.capabilities.includes('search');
+      // Saved attachments are object URLs until they are sent.
+      const message = toMessageParts(await resolveBlobUrls(userMsg));
+
+      const stream = provider.streamText({
+        ...chatRequest(provider.models, { message, history: toContentHistory(await resolveBlobUrls(context)), useSearch: search, personaId: thread.personaId }),
+        signal: controller.signal
+      });
+
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        // Grounding metadata usually arrives on the final chunk only.
+        grounding = chunk.groundingMetadata || grounding;
+        patchMessage(threadId, reply.id, { text });
+      }
+    } catch (e) {
+      // A user-initiated stop keeps whatever text already arrived; a failure keeps it too, with the error below.
+      if (!controller.signal.aborted) error = classifyError(e).toMessageError();
     } finally {
+      const failed = !!error && !text;
+      if (failed) text = error.message;
+      const { sources, grounding: details } = failed ? { sources: [], grounding: undefined } : parseGrounding(text, grounding);
+      patchMessage(threadId, reply.id, { text, sources, grounding: details, timestamp: Date.now(), isError: failed || undefined, error });
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleSend = async () => {
+    if ((!input.trim() && attachments.length === 0) || isLoading || attachments.some(a => a.uploading)) return;
+
+    const thread = activeThread;
+    const userMsg: ChatMessage = {
+      id: createNodeId(),
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: 'user',
+      text: input,
+      attachments: attachments.length ? attachments.map(({ previewUrl, uploading, ...a }) => a) : undefined,
+      timestamp: Date.now()
+    };
+    if (thread.title === DEFAULT_THREAD_TITLE && messages.length === 0) {
+      updateThread(thread.id, t => ({ ...t, title: deriveThreadTitle(userMsg.text || attachments[0]?.name || '') }));
+    }
+    addMessage(thread.id, userMsg);
+    setInput('');
+    clearAttachments();
+    await generateReply(thread, userMsg, messages);
+  };
+
+  // Editing never overwrites: the edited turn becomes a sibling branch.
+  const handleEditSubmit = async (original: ChatMessage, text: string) => {
+    setEditingId(null);
+    if (isLoading || !text.trim() || text === original.text) return;
+    const index = messages.findIndex(m => m.id === original.id);
+    const userMsg: ChatMessage = { ...original, id: createNodeId(), text, timestamp: Date.now() };
+    addMessage(activeThread.id, userMsg);
+    await generateReply(activeThread, userMsg, messages.slice(0, index));
+  };
+
+  const handleRegenerate = async (reply: ChatMessage) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === reply.id);
+    const userMsg = messages[index - 1];
+    if (!userMsg) return;
+    await generateReply(activeThread, userMsg, messages.slice(0, index - 1));
+  };
+
+  // A failed reply is replaced instead of being kept as a sibling branch,
+  // unless the conversation already continued from it.
+  const handleRetry = async (reply: ChatMessage) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === reply.id);
+    const userMsg = messages[index - 1];
+    if (!userMsg) return;
+    const thread = activeThread;
+    if (!thread.messages.some(m => m.parentId === reply.id)) {
+      updateThread(thread.id, t => ({ ...t, messages: t.messages.filter(m => m.id !== reply.id) }));
+    }
+    await generateReply(thread, userMsg, messages.slice(0, index - 1));
+  };
+
+  const handleSelectSibling = (message: ChatMessage, index: number) => {
+    const sibling = getSiblings(activeThread.messages, message)[index];
+    if (sibling) updateThread(activeThread.id, t => ({ ...t, branches: selectBranch(t.branches || {}, sibling) }));
+  };
+
+  // Content handed over from another mode is loaded into the composer of a fresh thread.
+  // One that arrives mid-reply waits for the reply to finish.
+  useEffect(() => {
+    if (handoff?.mode !== AppMode.CHAT || isLoading) return;
+    handleNewThread();
+    if (handoff.text) setInput(handoff.text);
+    if (handoff.files) addFiles(handoff.files);
+    onHandoffHandled?.();
+  }, [handoff, isLoading]);
+
+  const group = MODE_LABELS[AppMode.CHAT];
+  useCommands([
+    { id: 'chat.send', title: 'Send message', group, shortcut: 'send', disabled: isLoading || !input.trim() && attachments.length === 0, run: handleSend },
+    { id: 'chat.stop', title: 'Stop generating', group, shortcut: 'stop', disabled: !isLoading, run: handleStop },
+    { id: 'chat.grounding', title: useSearch ? 'Switch to Core Node' : 'Switch to Web Grounded', group, shortcut: 'toggleGrounding', keywords: 'web grounding search toggle', run: () => setUseSearch(v => !v) },
+    { id: 'chat.new', title: 'New thread', group, disabled: isLoading || messages.length === 0, run: handleNewThread }
+  ]);
+
   return (
-    <div className="flex flex-col h-full bg-[#020202] relative">
-      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex bg-[#080808] border border-white/5 p-1 rounded-full obsidian-shadow">
-         <button onClick={() => setUseSearch(true)} className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${useSearch ? 'bg-indigo-600 text-white shadow-xl' : 'text-slate-600 hover:text-white'}`}>Web Grounded</button>
-         <button onClick={() => setUseSearch(false)} className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${!useSearch ? 'bg-indigo-600 text-white shadow-xl' : 'text-slate-600 hover:text-white'}`}>Core Node</button>
-      </div>
+    <div className="flex h-full bg-[#020202]">
+      {showThreads && (
+        <aside className="w-64 shrink-0 border-r border-white/5 bg-[#050505] flex flex-col">
+          <div className="h-14 px-4 flex items-center justify-between border-b border-white/5">
+            <span className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">Threads</span>
+            <button onClick={handleNewThread} disabled={isLoading} title="New thread" className="p-2 rounded-xl text-slate-600 hover:text-white hover:bg-white/5 transition-all disabled:opacity-20"><Plus size={16} /></button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2 space-y-1 no-scrollbar">
+            {sortThreads(threads).map(t => (
+              <div
+                key={t.id}
+                onClick={() => handleSwitchThread(t.id)}
+                className={`group flex items-center gap-2 px-3 py-2.5 rounded-xl cursor-pointer transition-all ${t.id === activeThread.id ? 'bg-white/5 text-white' : 'text-slate-500 hover:text-slate-300 hover:bg-white/[0.02]'}`}
+              >
+                {t.pinned && <Pin size={10} className="text-indigo-400 shrink-0" />}
+                {renamingId === t.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                    className="flex-1 min-w-0 bg-[#020202] border border-white/10 rounded-lg px-2 py-1 text-[12px] text-white outline-none focus:border-indigo-500/50"
+                  />
+                ) : (
+                  <span className="flex-1 min-w-0 truncate text-[12px] font-medium">{t.title}</span>
+                )}
+                <div className="hidden group-hover:flex items-center gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+                  {renamingId === t.id
+                    ? <button onClick={commitRename} className="p-1 text-slate-600 hover:text-white"><Check size={12} /></button>
+                    : <button onClick={() => startRename(t)} title="Rename" className="p-1 text-slate-600 hover:text-white"><Pencil size={12} /></button>}
+                  <button onClick={() => handleTogglePin(t.id)} title={t.pinned ? 'Unpin' : 'Pin'} className="p-1 text-slate-600 hover:text-indigo-400">{t.pinned ? <PinOff size={12} /> : <Pin size={12} />}</button>
+                  <button onClick={() => handleDeleteThread(t.id)} title="Delete" className="p-1 text-slate-600 hover:text-red-500"><Trash2 size={12} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </aside>
+      )}
 
-      <div className="flex-1 overflow-y-auto px-6 md:px-24 py-20 space-y-12 no-scrollbar" ref={scrollRef}>
-        {messages.length === 0 && (
-          <div className="h-full flex flex-col items-center justify-center text-center max-w-xl mx-auto space-y-12 animate-float">
-            <div className="w-20 h-20 bg-white/5 rounded-3xl flex items-center justify-center border border-white/5 obsidian-shadow">
-              <Logo size={40} />
-            </div>
-            <div className="space-y-4">
-              <h3 className="text-4xl font-normal tracking-tighter text-white uppercase italic">Nexus Hub JS</h3>
-              <p className="text-xs text-slate-500 leading-relaxed font-medium uppercase tracking-[0.2em]">High performance vanilla linguistic node</p>
-            </div>
+      <div
+        className="flex-1 min-w-0 flex flex-col h-full bg-[#020202] relative"
+        onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDragging(true); } }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+        onDrop={handleDrop}
+      >
+        {isDragging && (
+          <div className="absolute inset-4 z-40 rounded-[40px] border-2 border-dashed border-indigo-500/50 bg-indigo-600/5 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+            <p className="text-[11px] font-black uppercase tracking-[0.3em] text-indigo-400">Drop files to attach</p>
           </div>
         )}
-        {messages.map((msg, idx) => (
-          <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`p-6 md:p-8 rounded-[32px] text-[15px] border border-white/5 ${msg.role === 'user' ? 'bg-[#080808] text-white border-white/10' : 'bg-[#050505] text-slate-300'}`}>
-              {msg.attachment && <img src={msg.attachment.url} className="mb-4 max-h-[400px] rounded-2xl" />}
-              <div className="whitespace-pre-wrap">{msg.text}</div>
-              {msg.sources?.length > 0 && (
-                <div className="mt-6 pt-4 border-t border-white/5 flex flex-wrap gap-2">
-                  {msg.sources.map((s, i) => (
-                    <a key={i} href={s.uri} target="_blank" className="text-[10px] bg-white/5 px-3 py-1 rounded-full text-indigo-400 hover:text-white transition-colors">{s.title || 'Source'}</a>
-                  ))}
+        <button onClick={() => setShowThreads(!showThreads)} title="Toggle threads" className="absolute top-4 left-4 z-20 p-2 rounded-xl text-slate-600 hover:text-white hover:bg-white/5 transition-all"><PanelLeft size={16} /></button>
+        <div className="absolute top-4 right-4 z-30 flex items-center gap-2">
+          <ConversationMenu mode={AppMode.CHAT} getExport={getExport} onImport={handleImport} disabled={isLoading} />
+          <PersonaPicker
+            mode={AppMode.CHAT}
+            value={activeThread.personaId}
+            onChange={(id) => updateThread(activeThread.id, t => ({ ...t, personaId: id }))}
+            disabled={isLoading}
+          />
+        </div>
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex bg-[#080808] border border-white/5 p-1 rounded-full obsidian-shadow">
+           <button onClick={() => setUseSearch(true)} className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${useSearch ? 'bg-indigo-600 text-white shadow-xl' : 'text-slate-600 hover:text-white'}`}>Web Grounded</button>
+           <button onClick={() => setUseSearch(false)} className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${!useSearch ? 'bg-indigo-600 text-white shadow-xl' : 'text-slate-600 hover:text-white'}`}>Core Node</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 md:px-24 py-20 space-y-12 no-scrollbar" ref={scrollRef}>
+          {messages.length === 0 && (
+            <div className="h-full flex flex-col items-center justify-center text-center max-w-xl mx-auto space-y-12 animate-float">
+              <div className="w-20 h-20 bg-white/5 rounded-3xl flex items-center justify-center border border-white/5 obsidian-shadow">
+                <Logo size={40} />
+              </div>
+              <div className="space-y-4">
+                <h3 className="text-4xl font-normal tracking-tighter text-white uppercase italic">Nexus Hub JS</h3>
+                <p className="text-xs text-slate-500 leading-relaxed font-medium uppercase tracking-[0.2em]">High performance vanilla linguistic node</p>
+              </div>
+            </div>
+          )}
+          {messages.map((msg, idx) => {
+            const siblings = getSiblings(activeThread.messages, msg);
+            const isStreaming = isLoading && idx === messages.length - 1;
+            return (
+              <div key={msg.id} id={`msg-${msg.id}`} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <div className={`min-w-0 max-w-full p-6 md:p-8 rounded-[32px] text-[15px] border border-white/5 transition-shadow ${msg.role === 'user' ? 'bg-[#080808] text-white border-white/10' : 'bg-[#050505] text-slate-300'} ${highlightId === `msg-${msg.id}` ? 'ring-1 ring-indigo-500/60' : ''}`}>
+                  {msg.attachments?.length > 0 && (
+                    <div className="mb-4 flex flex-wrap gap-3">
+                      {msg.attachments.map(a => <AttachmentPreview key={a.id} attachment={a} />)}
+                    </div>
+                  )}
+                  {editingId === msg.id ? (
+                    <div className="space-y-3 min-w-[280px]">
+                      <textarea
+                        autoFocus
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditSubmit(msg, editValue); }
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full bg-transparent border border-white/10 rounded-2xl p-3 text-[15px] text-white outline-none focus:ring-1 focus:ring-indigo-500 resize-none"
+                        rows={Math.min(8, editValue.split('\n').length + 1)}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditingId(null)} className="px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all">Cancel</button>
+                        <button onClick={() => handleEditSubmit(msg, editValue)} className="px-3 py-1.5 rounded-xl bg-indigo-600 text-[9px] font-black uppercase tracking-widest text-white hover:bg-indigo-500 transition-all">Send</button>
+                      </div>
+                    </div>
+                  ) : msg.role === 'model' && !msg.text && isStreaming
+                    ? <Loader2 size={18} className="animate-spin text-indigo-400" />
+                    : msg.isError && msg.error
+                      ? <ErrorNotice error={msg.error} onRetry={() => handleRetry(msg)} disabled={isLoading} />
+                    : msg.role === 'model'
+                      ? <MessageRenderer text={msg.text} sources={msg.sources} grounding={msg.grounding} className="text-slate-300 text-[15px]" onOpenInWorkspace={onHandoff ? (file) => onHandoff({ mode: AppMode.CODING, file }) : undefined} />
+                      : <div className="whitespace-pre-wrap">{msg.text}</div>}
+                  {msg.role === 'model' && !isStreaming && !msg.isError && <SourcesPanel text={msg.text} sources={msg.sources || []} grounding={msg.grounding} />}
+                  {msg.error && !msg.isError && !isStreaming && (
+                    <div className="mt-6 pt-4 border-t border-white/5"><ErrorNotice error={msg.error} onRetry={() => handleRetry(msg)} disabled={isLoading} /></div>
+                  )}
                 </div>
-              )}
+                {editingId !== msg.id && !isStreaming && (
+                  <div className="flex items-center gap-1 mt-2 px-3 text-slate-600">
+                    <BranchSwitcher index={siblings.findIndex(s => s.id === msg.id)} total={siblings.length} onSelect={(i) => handleSelectSibling(msg, i)} disabled={isLoading} />
+                    {msg.role === 'user' ? (
+                      <button onClick={() => { setEditingId(msg.id); setEditValue(msg.text); }} disabled={isLoading} title="Edit" className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/5 transition-all disabled:opacity-0"><Pencil size={12} /></button>
+                    ) : (
+                      <button onClick={() => handleRegenerate(msg)} disabled={isLoading} title="Regenerate" className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/5 transition-all disabled:opacity-0"><RefreshCw size={12} /></button>
+                    )}
+                    {msg.role === 'model' && !msg.isError && onHandoff && <SendToMenu options={textHandoffs(msg.text, AppMode.CHAT)} onHandoff={onHandoff} />}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-12 shrink-0 bg-gradient-to-t from-[#020202] to-transparent">
+          {(attachments.length > 0 || attachmentError) && (
+            <div className="max-w-4xl mx-auto mb-3 space-y-2">
+              {attachmentError && <p className="text-[10px] font-bold text-red-400 ml-4">{attachmentError}</p>}
+              <div className="flex flex-wrap gap-2">
+                {attachments.map(a => <AttachmentChip key={a.id} attachment={a} previewUrl={a.previewUrl} uploading={a.uploading} onRemove={() => removeAttachment(a.id)} />)}
+              </div>
             </div>
+          )}
+          <div className="max-w-4xl mx-auto relative bg-[#080808] border border-white/5 rounded-[40px] p-4 flex items-end gap-4 obsidian-shadow">
+            <input type="file" ref={fileInputRef} className="hidden" multiple accept={ATTACHMENT_ACCEPT} onChange={handleFileSelect} />
+            <button onClick={() => fileInputRef.current?.click()} className="p-4 text-slate-600 hover:text-indigo-400"><Paperclip size={20} /></button>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+              onPaste={handlePaste}
+              placeholder="Enter neural command..."
+              className="flex-1 bg-transparent border-none text-[#f8fafc] py-4 focus:outline-none resize-none max-h-56 text-[15px] placeholder:text-slate-800"
+              rows={1}
+            />
+            {isLoading
+              ? <button onClick={handleStop} title="Stop generating" className="bg-white/10 p-4 rounded-full text-white shadow-2xl hover:bg-red-500 transition-all"><Square size={20} fill="currentColor" /></button>
+              : <button onClick={handleSend} disabled={attachments.some(a => a.uploading)} className="disabled:opacity-30 bg-indigo-600 p-4 rounded-full text-white shadow-2xl hover:bg-indigo-500 transition-all"><Send size={20} /></button>}
           </div>
-        ))}
-      </div>
-
-      <div className="p-12 shrink-0 bg-gradient-to-t from-[#020202] to-transparent">
-        <div className="max-w-4xl mx-auto relative bg-[#080808] border border-white/5 rounded-[40px] p-4 flex items-end gap-4 obsidian-shadow">
-          <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileSelect} />
-          <button onClick={() => fileInputRef.current?.click()} className="p-4 text-slate-600 hover:text-indigo-400"><Paperclip size={20} /></button>
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
-            placeholder="Enter neural command..."
-            className="flex-1 bg-transparent border-none text-[#f8fafc] py-4 focus:outline-none resize-none max-h-56 text-[15px] placeholder:text-slate-800"
-            rows={1}
-          />
-          <button onClick={handleSend} disabled={isLoading} className="bg-indigo-600 p-4 rounded-full text-white shadow-2xl hover:bg-indigo-500 transition-all"><Send size={20} /></button>
         </div>
       </div>
     </div>
@@ -1,6 +1,5 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { GoogleGenAI, Schema, Type } from '@google/genai';
 import { 
   Play, Code, Loader2, Send, Terminal, FolderPlus, Trash2, 
   MessageSquare, ChevronRight, FileJson, FileCode, FileText, 
@@ -9,17 +8,35 @@ import {
   // Added MessageCircle to imports
   MessageCircle
 } from 'lucide-react';
-import { CodeFile } from '../types';
+import { AppMode, CodeFile, FocusTarget, Handoff } from '../types';
+import { MODE_LABELS } from '../constants';
 import { saveToHistory, loadFromHistory, clearHistory } from '../utils/history';
+import { CODE_FILES_KEY as FILES_KEY, CODE_CHAT_KEY as CHAT_KEY } from '../utils/modeHistory';
+import { codeRequest } from '../utils/modeRequests';
+import { deriveThreadTitle } from '../utils/threads';
+import { useSearchHighlight } from '../utils/search';
+import { useRouteItem } from '../utils/routes';
+import { useCommands } from '../utils/commands';
+import { fileHandoffs } from '../utils/handoff';
+import { ConversationExport, createExport } from '../utils/conversationExport';
+import { getProvider, classifyError } from '../providers';
+import { PersonaPicker } from './PersonaPicker';
+import { ConversationMenu } from './ConversationMenu';
+import { SendToMenu } from './SendToMenu';
 
-const FILES_KEY = 'textgpt_code_files_v4_pro';
-const CHAT_KEY = 'textgpt_code_chat_v4_pro';
-const SYSTEM_LITERALS = "YOUR EXPLANATION MUST USE ONLY ALPHABETIC CHARACTERS AND SPACES DO NOT USE PUNCTUATION LIKE COLONS HYPHENS SLASHES PARENTHESES OR QUOTES THE CODE ITSELF MUST REMAIN FUNCTIONAL BUT THE TEXT EXPLANATION FIELD MUST BE STRICTLY LETTERS";
-
+// The persona only shapes the explanation; generated files must stay valid code.
 type ViewMode = 'code' | 'preview';
 type SidebarTab = 'chat' | 'explorer' | 'search';
 
-export const CodeWorkspace: React.FC<{ initialPrompt?: string; onClearInitialPrompt?: () => void; }> = ({ initialPrompt, onClearInitialPrompt }) => {
+interface CodeWorkspaceProps {
+  handoff?: Handoff | null;
+  onHandoff?: (handoff: Handoff) => void;
+  onHandoffHandled?: () => void;
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
+}
+
+export const CodeWorkspace: React.FC<CodeWorkspaceProps> = ({ handoff, onHandoff, onHandoffHandled, focus, onFocusHandled }) => {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationStep, setGenerationStep] = useState<string>('');
@@ -83,40 +100,70 @@ export const CodeWorkspace: React.FC<{ initialPrompt?: string; onClearInitialPro
     const text = overridePrompt || prompt;
     if (!text.trim() || isGenerating) return;
     setIsGenerating(true); setPrompt(''); setGenerationStep('Compiling Architecture');
-    setChatHistory(prev => [...prev, { role: 'user', text }]);
+    setChatHistory(prev => [...prev, { role: 'user', text, timestamp: Date.now() }]);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const schema: Schema = { 
-        type: Type.OBJECT, 
-        properties: { 
-          explanation: { type: Type.STRING }, 
-          files: { 
-            type: Type.ARRAY, 
-            items: { 
-              type: Type.OBJECT, 
-              properties: { filename: { type: Type.STRING }, content: { type: Type.STRING }, language: { type: Type.STRING } }, 
-              required: ["filename", "content", "language"] 
-            } 
-          } 
-        }, 
-        required: ["files", "explanation"] 
-      };
-      const response = await ai.models.generateContent({ 
-        model: 'gemini-3-pro-preview', 
-        contents: [{ role: 'user', parts: [{ text: `Generate project for ${text}` }] }], 
-        config: { systemInstruction: SYSTEM_LITERALS, responseMimeType: 'application/json', responseSchema: schema } 
-      });
+      const provider = getProvider(AppMode.CODING);
+      const response = await provider.generateText(codeRequest(provider.models, text));
       const result = JSON.parse(response.text);
-      setChatHistory(prev => [...prev, { role: 'model', text: result.explanation }]);
+      setChatHistory(prev => [...prev, { role: 'model', text: result.explanation, timestamp: Date.now() }]);
       if (result.files) await ingestFilesLive(result.files);
-    } catch (e: any) { setTerminalOutput(p => [...p, `CORE ERROR: ${e.message}`]); }
-    finally { setIsGenerating(false); setGenerationStep(''); if (onClearInitialPrompt) onClearInitialPrompt(); }
+    } catch (e) { setTerminalOutput(p => [...p, `CORE ERROR: ${classifyError(e).message}`]); }
+    finally { setIsGenerating(false); setGenerationStep(''); }
   };
 
-  useEffect(() => { if (initialPrompt) handleGenerate(initialPrompt); }, [initialPrompt]);
+  // A handed-over file opens in the editor; a prompt waits in the instruction box.
+  // Both wait while a generation is still writing files.
+  useEffect(() => {
+    if (handoff?.mode !== AppMode.CODING || isGenerating) return;
+    const { file, prompt: text } = handoff;
+    if (file) {
+      setFiles(prev => [...prev.filter(f => f.filename !== file.filename), file]);
+      setActiveFile(file.filename);
+      setActiveView('code');
+      setSidebarTab('explorer');
+    }
+    if (text) {
+      setPrompt(text);
+      setSidebarTab('chat');
+    }
+    onHandoffHandled?.();
+  }, [handoff, isGenerating]);
+
+  const [highlightId, setHighlightId] = useSearchHighlight();
+
+  useEffect(() => {
+    if (!focus) return;
+    if (focus.filename && files.some(f => f.filename === focus.filename)) {
+      setActiveFile(focus.filename);
+      setActiveView('code');
+      setSidebarTab('explorer');
+    } else if (focus.messageIndex !== undefined && chatHistory[focus.messageIndex]) {
+      setSidebarTab('chat');
+      setHighlightId(`code-msg-${focus.messageIndex}`);
+    }
+    onFocusHandled?.();
+  }, [focus]);
+
+  useRouteItem(AppMode.CODING, activeFile, !!focus);
 
   const activeFileContent = files.find(f => f.filename === activeFile);
 
+  const getExport = () => chatHistory.length || files.length
+    ? createExport(AppMode.CODING, deriveThreadTitle(chatHistory[0]?.text || files[0]?.filename || ''), chatHistory, { files })
+    : null;
+
+  const handleImport = (conv: ConversationExport) => {
+    if ((chatHistory.length || files.length) && !confirm("Replace workspace")) return;
+    // Messages come back exactly as exported, timestamps and error details included.
+    setChatHistory(conv.messages);
+    setFiles(conv.files || []);
+    setActiveFile(conv.files?.[0]?.filename || null);
+  };
+
+  useCommands([
+    { id: 'code.generate', title: 'Send to workspace', group: MODE_LABELS[AppMode.CODING], shortcut: 'send', disabled: isGenerating || !prompt.trim(), run: () => handleGenerate() }
+  ]);
+
   return (
     <div className="flex h-full bg-[#020202] text-[#f8fafc] overflow-hidden select-none font-sans">
       
@@ -129,8 +176,14 @@ export const CodeWorkspace: React.FC<{ initialPrompt?: string; onClearInitialPro
 
       {/* Side Panel Content */}
       <div className="w-72 border-r border-white/5 flex flex-col bg-[#050505] shrink-0">
-        <div className="h-12 flex items-center px-5 border-b border-white/5 bg-[#080808]">
+        <div className="h-12 flex items-center justify-between px-5 border-b border-white/5 bg-[#080808]">
            <span className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">{sidebarTab}</span>
+           {sidebarTab === 'chat' && (
+             <div className="flex items-center gap-1">
+               <ConversationMenu mode={AppMode.CODING} getExport={getExport} onImport={handleImport} disabled={isGenerating} />
+               <PersonaPicker mode={AppMode.CODING} disabled={isGenerating} />
+             </div>
+           )}
         </div>
 
         <div className="flex-1 overflow-hidden">
@@ -138,7 +191,7 @@ export const CodeWorkspace: React.FC<{ initialPrompt?: string; onClearInitialPro
             <div className="flex-1 flex flex-col h-full">
               <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar text-[13px]" ref={scrollRef}>
                 {chatHistory.map((msg, i) => (
-                  <div key={i} className={`p-4 rounded-2xl border ${msg.role === 'user' ? 'bg-[#080808] border-white/10' : 'bg-white/5 border-white/5 text-slate-400'}`}>
+                  <div key={i} id={`code-msg-${i}`} className={`p-4 rounded-2xl border ${msg.role === 'user' ? 'bg-[#080808] border-white/10' : 'bg-white/5 border-white/5 text-slate-400'} ${highlightId === `code-msg-${i}` ? 'ring-1 ring-indigo-500/60' : ''}`}>
                     <div className="text-[9px] font-black uppercase tracking-widest text-slate-700 mb-2">{msg.role}</div>
                     {msg.text}
                   </div>
@@ -185,6 +238,7 @@ export const CodeWorkspace: React.FC<{ initialPrompt?: string; onClearInitialPro
               ))}
            </div>
            <div className="flex gap-2">
+              {activeFileContent && onHandoff && <SendToMenu options={fileHandoffs(activeFileContent)} onHandoff={onHandoff} placement="toolbar" />}
               <button onClick={() => setActiveView(activeView === 'preview' ? 'code' : 'preview')} className={`px-4 py-1.5 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest ${activeView === 'preview' ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}>Preview</button>
               <button className="bg-emerald-600 text-white px-5 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wider flex items-center gap-2 shadow-xl shadow-emerald-600/10"><Zap size={12} fill="currentColor" /> Compile</button>
            </div>
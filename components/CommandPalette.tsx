@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Command as CommandIcon, X, CornerDownLeft } from 'lucide-react';
+import { Command, getCommands, getSelectionText } from '../utils/commands';
+import { formatCombo, loadShortcutBindings } from '../utils/shortcuts';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const matches = (command: Command, tokens: string[]) => {
+  const haystack = `${command.title} ${command.group} ${command.keywords || ''}`.toLowerCase();
+  return tokens.every(t => haystack.includes(t));
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Read while rendering the opening frame, before the input takes focus and clears the selection.
+  const selection = useMemo(() => isOpen ? getSelectionText() : '', [isOpen]);
+  const commands = useMemo(() => isOpen ? getCommands().filter(c => !c.disabled && (!c.needsSelection || selection)) : [], [isOpen, selection]);
+  const bindings = useMemo(() => loadShortcutBindings(), [isOpen]);
+  const results = useMemo(() => {
+    const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter(c => matches(c, tokens));
+  }, [commands, query]);
+
+  useEffect(() => { setActiveIndex(0); }, [query]);
+  useEffect(() => { if (!isOpen) setQuery(''); }, [isOpen]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const run = (command: Command) => {
+    onClose();
+    command.run({ selection });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+    else if (e.key === 'ArrowDown') { e.preventDefault(); setActiveIndex(i => Math.min(i + 1, results.length - 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActiveIndex(i => Math.max(i - 1, 0)); }
+    else if (e.key === 'Enter' && results[activeIndex]) { e.preventDefault(); run(results[activeIndex]); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-start justify-center p-4 pt-[12vh]" onMouseDown={onClose}>
+      <div onMouseDown={e => e.stopPropagation()} onKeyDown={handleKeyDown} className="bg-[#080808] border border-white/10 w-full max-w-xl rounded-[32px] obsidian-shadow overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[70vh]">
+        <div className="px-6 py-5 border-b border-white/5 flex items-center gap-4">
+          <CommandIcon size={18} className="text-indigo-400 shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Type a command"
+            className="flex-1 bg-transparent text-sm text-white outline-none placeholder:text-slate-700"
+          />
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+        {selection && (
+          <div className="px-6 py-2.5 border-b border-white/5 text-[10px] text-slate-600 truncate">
+            <span className="font-black uppercase tracking-widest mr-2">Selection</span>{selection}
+          </div>
+        )}
+
+        <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {results.length === 0 && (
+            <p className="py-10 text-center text-[10px] font-black uppercase tracking-widest text-slate-700">No matching commands</p>
+          )}
+          {results.map((c, i) => (
+            <button
+              key={c.id}
+              data-index={i}
+              onClick={() => run(c)}
+              onMouseMove={() => setActiveIndex(i)}
+              className={`w-full text-left px-4 py-2.5 rounded-2xl transition-all flex items-center gap-3 ${i === activeIndex ? 'bg-white/5' : ''}`}
+            >
+              <span className="w-24 shrink-0 text-[9px] font-black uppercase tracking-widest text-indigo-400 truncate">{c.group}</span>
+              <span className="flex-1 min-w-0 text-[12px] font-semibold text-white truncate">{c.title}</span>
+              {c.shortcut && bindings[c.shortcut] && (
+                <kbd className="shrink-0 px-2 py-0.5 rounded-lg bg-white/5 border border-white/10 text-[10px] font-bold text-slate-500">{formatCombo(bindings[c.shortcut])}</kbd>
+              )}
+              {i === activeIndex && <CornerDownLeft size={12} className="text-slate-600 shrink-0" />}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
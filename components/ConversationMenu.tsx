@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Share2, FileText, FileCode, FileJson, Upload } from 'lucide-react';
+import { AppMode } from '../types';
+import { ConversationExport, ExportFormat, downloadExport, parseImport } from '../utils/conversationExport';
+import { resolveBlobUrls } from '../utils/history';
+
+interface ConversationMenuProps {
+  mode: AppMode;
+  // Returns null when there is nothing to export yet.
+  getExport: () => ConversationExport | null;
+  onImport: (conv: ConversationExport) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const FORMATS: Array<{ id: ExportFormat; label: string; icon: React.ElementType }> = [
+  { id: 'markdown', label: 'Markdown', icon: FileText },
+  { id: 'html', label: 'HTML', icon: FileCode },
+  { id: 'json', label: 'JSON', icon: FileJson }
+];
+
+export const ConversationMenu: React.FC<ConversationMenuProps> = ({ mode, getExport, onImport, disabled, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => { if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false); };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const conv = isOpen ? getExport() : null;
+
+  // Saved media is held as object URLs, which mean nothing outside this tab.
+  const handleExport = async (format: ExportFormat) => {
+    if (!conv) return;
+    setIsOpen(false);
+    downloadExport(await resolveBlobUrls(conv), format);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseImport(await file.text(), mode));
+      setIsOpen(false);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => { setIsOpen(!isOpen); setError(null); }}
+        disabled={disabled}
+        title="Export or import"
+        className="p-2 rounded-xl text-slate-600 hover:text-white hover:bg-white/5 transition-all disabled:opacity-30"
+      >
+        <Share2 size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 z-50 bg-[#080808] border border-white/10 rounded-2xl p-1.5 obsidian-shadow animate-in fade-in zoom-in duration-150">
+          <p className="px-3 pt-2 pb-1 text-[9px] font-black uppercase tracking-widest text-slate-600">Export</p>
+          {FORMATS.map(f => (
+            <button key={f.id} onClick={() => handleExport(f.id)} disabled={!conv} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-[12px] text-left text-slate-400 hover:bg-white/5 hover:text-white transition-all disabled:opacity-30 disabled:hover:bg-transparent">
+              <f.icon size={12} /> {f.label}
+            </button>
+          ))}
+          <div className="border-t border-white/5 mt-1.5 pt-1.5">
+            <input type="file" ref={fileInputRef} accept="application/json,.json" onChange={handleFile} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-white/5 hover:text-indigo-400 transition-all">
+              <Upload size={12} /> Import JSON
+            </button>
+            {error && <p className="px-3 py-2 text-[10px] font-bold text-red-400">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { KeyRound, Gauge, ShieldAlert, WifiOff, SearchX, Braces, ServerCrash, Wallet, AlertTriangle, RotateCw } from 'lucide-react';
+import { ErrorKind, MessageError } from '../types';
+
+interface ErrorNoticeProps {
+  error: MessageError;
+  onRetry?: () => void;
+  disabled?: boolean;
+}
+
+const KINDS: Record<ErrorKind, { icon: React.ElementType; title: string }> = {
+  auth: { icon: KeyRound, title: 'Invalid API key' },
+  quota: { icon: Gauge, title: 'Rate limited' },
+  safety: { icon: ShieldAlert, title: 'Blocked by safety filters' },
+  network: { icon: WifiOff, title: 'Network error' },
+  model_not_found: { icon: SearchX, title: 'Model not found' },
+  malformed_json: { icon: Braces, title: 'Malformed response' },
+  server: { icon: ServerCrash, title: 'Service unavailable' },
+  budget: { icon: Wallet, title: 'Budget reached' },
+  unknown: { icon: AlertTriangle, title: 'Request failed' }
+};
+
+// Shown in place of a model reply that failed.
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, disabled }) => {
+  const { icon: Icon, title } = KINDS[error.kind] || KINDS.unknown;
+  return (
+    <div className="space-y-3 min-w-0">
+      <div className="flex items-center gap-2 text-red-400">
+        <Icon size={14} />
+        <span className="text-[10px] font-black uppercase tracking-widest">{title}</span>
+      </div>
+      <p className="text-[13px] text-slate-400 leading-relaxed">{error.message}</p>
+      {error.categories?.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {error.categories.map(c => (
+            <span key={c} className="px-2 py-0.5 rounded-full bg-red-500/10 border border-red-500/20 text-[9px] font-black uppercase tracking-widest text-red-300">{c}</span>
+          ))}
+        </div>
+      )}
+      {error.detail && error.detail !== error.message && (
+        <p className="text-[10px] font-mono text-slate-700 break-all line-clamp-3">{error.detail}</p>
+      )}
+      {onRetry && (
+        <button onClick={onRetry} disabled={disabled} className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black uppercase tracking-widest text-slate-300 hover:text-white hover:bg-white/10 transition-all disabled:opacity-30">
+          <RotateCw size={12} /> Retry
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,28 +1,78 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { Zap, FileText, CheckCheck, Loader2, Command, Sparkles, Clipboard, RefreshCw, Layers, Plus, Send, X, MessageSquare, Bot } from 'lucide-react';
+import { Zap, FileText, CheckCheck, Loader2, Command, Sparkles, Clipboard, RefreshCw, Layers, Plus, Send, X, MessageSquare, Bot, Pencil } from 'lucide-react';
 import { saveToHistory, loadFromHistory } from '../utils/history';
-
-const HISTORY_KEY = 'textgpt_fastlab_chat_v3';
-const SYSTEM_LITERALS = "YOU MUST RESPOND USING ONLY ALPHABETIC CHARACTERS AND SPACES. DO NOT USE PUNCTUATION LIKE COLONS HYPHENS SLASHES PARENTHESES OR QUOTES. THE ONLY EXCEPTION IS DURING MATH CALCULATIONS WHERE YOU MAY USE PLUS MINUS MULTIPLY DIVIDE AND EQUALS SYMBOLS. OTHERWISE USE ONLY LETTERS.";
+import { FASTLAB_HISTORY_KEY as HISTORY_KEY, FASTLAB_BRANCHES_KEY as BRANCHES_KEY } from '../utils/modeHistory';
+import { fastPrompt, fastRequest } from '../utils/modeRequests';
+import { BranchSelection, createNodeId, ensureIds, getActivePath, getSiblings, revealNode, selectBranch } from '../utils/branches';
+import { useSearchHighlight } from '../utils/search';
+import { useCommands } from '../utils/commands';
+import { textHandoffs } from '../utils/handoff';
+import { deriveThreadTitle } from '../utils/threads';
+import { ConversationExport, createExport } from '../utils/conversationExport';
+import { getProvider, classifyError } from '../providers';
+import { AppMode, FastLabTask, FocusTarget, Handoff, MessageError } from '../types';
+import { MODE_LABELS } from '../constants';
+import { MessageRenderer } from './MessageRenderer';
+import { PersonaPicker } from './PersonaPicker';
+import { BranchSwitcher } from './BranchSwitcher';
+import { ConversationMenu } from './ConversationMenu';
+import { SendToMenu } from './SendToMenu';
+import { ErrorNotice } from './ErrorNotice';
 
 interface ChatMessage {
+  id?: string;
+  parentId?: string | null;
   role: 'user' | 'model';
   text: string;
+  // The full instruction sent for a user turn, so regenerating reuses the original mode.
+  prompt?: string;
+  timestamp?: number;
+  isError?: boolean;
+  error?: MessageError;
+}
+
+interface FastLabProps {
+  handoff?: Handoff | null;
+  onHandoff?: (handoff: Handoff) => void;
+  onHandoffHandled?: () => void;
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
 }
 
-export const FastLab: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>(() => loadFromHistory(HISTORY_KEY, []));
+export const FastLab: React.FC<FastLabProps> = ({ handoff, onHandoff, onHandoffHandled, focus, onFocusHandled }) => {
+  const [nodes, setNodes] = useState<ChatMessage[]>(() => loadFromHistory(HISTORY_KEY, []));
+  const [branches, setBranches] = useState<BranchSelection>(() => loadFromHistory(BRANCHES_KEY, {}));
   const [input, setInput] = useState('');
-  const [mode, setMode] = useState<'summarize' | 'grammar'>('summarize');
+  const [mode, setMode] = useState<FastLabTask>('summarize');
   const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const messages = getActivePath(nodes, branches);
+
   useEffect(() => {
-    saveToHistory(HISTORY_KEY, messages);
+    saveToHistory(HISTORY_KEY, nodes);
+    saveToHistory(BRANCHES_KEY, branches);
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-  }, [messages]);
+  }, [nodes, branches]);
+
+  const [highlightId, setHighlightId] = useSearchHighlight();
+
+  useEffect(() => {
+    if (!focus) return;
+    if (focus.messageId && nodes.some(n => n.id === focus.messageId)) {
+      setBranches(prev => revealNode(nodes, prev, focus.messageId!));
+      setHighlightId(`msg-${focus.messageId}`);
+    }
+    onFocusHandled?.();
+  }, [focus]);
+
+  const addNode = (node: ChatMessage) => {
+    setNodes(prev => [...prev, node]);
+    setBranches(prev => selectBranch(prev, node));
+  };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -35,45 +85,96 @@ export const FastLab: React.FC = () => {
     reader.readAsText(file);
   };
 
-  const processText = async (customPrompt?: string) => {
-    const textToProcess = customPrompt || input;
-    if (!textToProcess.trim() || loading) return;
-
-    const userMsg: ChatMessage = { role: 'user', text: textToProcess };
-    setMessages(prev => [...prev, userMsg]);
-    if (!customPrompt) setInput('');
+  // Answers `userMsg` with a new model node, which becomes a sibling of any earlier replies.
+  const generateReply = async (userMsg: ChatMessage) => {
     setLoading(true);
-
+    let text: string;
+    let error: MessageError | undefined;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      let prompt = textToProcess;
-      
-      if (!customPrompt) {
-          prompt = mode === 'summarize' 
-            ? `Synthesize this into a high density executive summary ${textToProcess}` 
-            : `Refine this for professional clarity and flawless grammar ${textToProcess}`;
-      }
-
-      const chat = ai.chats.create({
-        model: 'gemini-3-flash-preview',
-        config: {
-          systemInstruction: `You are an elite linguistic processor. ${SYSTEM_LITERALS}`
-        }
-      });
-
-      const response = await chat.sendMessage({ message: prompt });
-      setMessages(prev => [...prev, { role: 'model', text: response.text || "Stream empty" }]);
+      const provider = getProvider(AppMode.FAST);
+      const response = await provider.generateText(fastRequest(provider.models, userMsg.prompt || userMsg.text));
+      text = response.text || "Stream empty";
     } catch (e) {
-      setMessages(prev => [...prev, { role: 'model', text: "Neural link failure Action cancelled" }]);
+      error = classifyError(e).toMessageError();
+      text = error.message;
     } finally {
       setLoading(false);
     }
+    addNode({ id: createNodeId(), parentId: userMsg.id, role: 'model', text, timestamp: Date.now(), isError: error ? true : undefined, error });
+  };
+
+  const processText = async (text = input, task = mode) => {
+    if (!text.trim() || loading) return;
+
+    const userMsg: ChatMessage = {
+      id: createNodeId(),
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: 'user',
+      text,
+      prompt: fastPrompt(text, task),
+      timestamp: Date.now()
+    };
+    addNode(userMsg);
+    if (text === input) setInput('');
+    await generateReply(userMsg);
+  };
+
+  // Text handed over from another mode is processed with the requested utility as soon
+  // as the processor is free.
+  useEffect(() => {
+    if (handoff?.mode !== AppMode.FAST || loading) return;
+    setMode(handoff.task);
+    processText(handoff.text, handoff.task);
+    onHandoffHandled?.();
+  }, [handoff, loading]);
+
+  useCommands([
+    { id: 'fast.send', title: 'Process input', group: MODE_LABELS[AppMode.FAST], shortcut: 'send', disabled: loading || !input.trim(), run: () => processText() },
+    { id: 'fast.summarize', title: 'Summarize mode', group: MODE_LABELS[AppMode.FAST], disabled: mode === 'summarize', run: () => setMode('summarize') },
+    { id: 'fast.grammar', title: 'Refine mode', group: MODE_LABELS[AppMode.FAST], keywords: 'grammar', disabled: mode === 'grammar', run: () => setMode('grammar') }
+  ]);
+
+  // An edit is sent as a sibling branch using the currently selected mode.
+  const handleEditSubmit = async (original: ChatMessage, text: string) => {
+    setEditingId(null);
+    if (loading || !text.trim() || text === original.text) return;
+    const userMsg: ChatMessage = { id: createNodeId(), parentId: original.parentId, role: 'user', text, prompt: fastPrompt(text, mode), timestamp: Date.now() };
+    addNode(userMsg);
+    await generateReply(userMsg);
+  };
+
+  const handleRegenerate = async (reply: ChatMessage) => {
+    const userMsg = nodes.find(n => n.id === reply.parentId);
+    if (userMsg && !loading) await generateReply(userMsg);
+  };
+
+  // Replaces a failed reply unless the conversation already continued from it.
+  const handleRetry = async (reply: ChatMessage) => {
+    const userMsg = nodes.find(n => n.id === reply.parentId);
+    if (!userMsg || loading) return;
+    if (!nodes.some(n => n.parentId === reply.id)) setNodes(prev => prev.filter(n => n.id !== reply.id));
+    await generateReply(userMsg);
+  };
+
+  const handleSelectSibling = (msg: ChatMessage, index: number) => {
+    const sibling = getSiblings(nodes, msg)[index];
+    if (sibling) setBranches(prev => selectBranch(prev, sibling));
+  };
+
+  const getExport = () => messages.length
+    ? createExport(AppMode.FAST, deriveThreadTitle(messages[0].text), nodes, { branches })
+    : null;
+
+  const handleImport = (conv: ConversationExport) => {
+    if (nodes.length && !confirm("Replace processor history")) return;
+    setNodes(ensureIds(conv.messages));
+    setBranches(conv.branches || {});
   };
 
   const clearHistory = () => {
     if (confirm("Reset processor")) {
-      setMessages([]);
-      saveToHistory(HISTORY_KEY, []);
+      setNodes([]);
+      setBranches({});
     }
   };
 
@@ -92,6 +193,8 @@ export const FastLab: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-4">
+          <ConversationMenu mode={AppMode.FAST} getExport={getExport} onImport={handleImport} disabled={loading} />
+          <PersonaPicker mode={AppMode.FAST} disabled={loading} />
           <div className="flex bg-black p-1 rounded-xl border border-white/5">
             <button 
               onClick={() => setMode('summarize')} 
@@ -123,17 +226,53 @@ export const FastLab: React.FC = () => {
           </div>
         )}
         
-        {messages.map((msg, i) => (
-          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-4 duration-300`}>
-             <div className={`max-w-[85%] md:max-w-[70%] p-6 rounded-[24px] text-[14px] leading-relaxed ${
-               msg.role === 'user' 
-                ? 'bg-indigo-600 text-white rounded-br-none shadow-xl shadow-indigo-600/10' 
-                : 'bg-[#080808] text-slate-200 border border-white/5 rounded-bl-none obsidian-shadow'
-             }`}>
-               <div className="whitespace-pre-wrap">{msg.text}</div>
-             </div>
-          </div>
-        ))}
+        {messages.map((msg) => {
+          const siblings = getSiblings(nodes, msg);
+          return (
+            <div key={msg.id} id={`msg-${msg.id}`} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-4 duration-300`}>
+               <div className={`max-w-[85%] md:max-w-[70%] p-6 rounded-[24px] text-[14px] leading-relaxed ${highlightId === `msg-${msg.id}` ? 'ring-1 ring-indigo-400/70 ' : ''}${
+                 msg.role === 'user' 
+                  ? 'bg-indigo-600 text-white rounded-br-none shadow-xl shadow-indigo-600/10' 
+                  : 'bg-[#080808] text-slate-200 border border-white/5 rounded-bl-none obsidian-shadow'
+               }`}>
+                 {editingId === msg.id ? (
+                   <div className="space-y-3 min-w-[260px]">
+                     <textarea
+                       autoFocus
+                       value={editValue}
+                       onChange={(e) => setEditValue(e.target.value)}
+                       onKeyDown={(e) => {
+                         if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditSubmit(msg, editValue); }
+                         if (e.key === 'Escape') setEditingId(null);
+                       }}
+                       className="w-full bg-black/20 border border-white/20 rounded-2xl p-3 text-[14px] text-white outline-none resize-none"
+                       rows={Math.min(8, editValue.split('\n').length + 1)}
+                     />
+                     <div className="flex justify-end gap-2">
+                       <button onClick={() => setEditingId(null)} className="px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest text-white/60 hover:text-white transition-all">Cancel</button>
+                       <button onClick={() => handleEditSubmit(msg, editValue)} className="px-3 py-1.5 rounded-xl bg-white text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:bg-white/90 transition-all">Send</button>
+                     </div>
+                   </div>
+                 ) : msg.isError && msg.error
+                   ? <ErrorNotice error={msg.error} onRetry={() => handleRetry(msg)} disabled={loading} />
+                 : msg.role === 'model'
+                   ? <MessageRenderer text={msg.text} className="text-slate-200 text-[14px]" onOpenInWorkspace={onHandoff ? (file) => onHandoff({ mode: AppMode.CODING, file }) : undefined} />
+                   : <div className="whitespace-pre-wrap">{msg.text}</div>}
+               </div>
+               {editingId !== msg.id && (
+                 <div className="flex items-center gap-1 mt-2 px-2 text-slate-600">
+                   <BranchSwitcher index={siblings.findIndex(s => s.id === msg.id)} total={siblings.length} onSelect={(i) => handleSelectSibling(msg, i)} disabled={loading} />
+                   {msg.role === 'user' ? (
+                     <button onClick={() => { setEditingId(msg.id); setEditValue(msg.text); }} disabled={loading} title="Edit" className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/5 transition-all disabled:opacity-0"><Pencil size={12} /></button>
+                   ) : (
+                     <button onClick={() => handleRegenerate(msg)} disabled={loading} title="Regenerate" className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/5 transition-all disabled:opacity-0"><RefreshCw size={12} /></button>
+                   )}
+                   {msg.role === 'model' && !msg.isError && onHandoff && <SendToMenu options={textHandoffs(msg.text, AppMode.FAST)} onHandoff={onHandoff} />}
+                 </div>
+               )}
+            </div>
+          );
+        })}
 
         {loading && (
           <div className="flex justify-start">
@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, X, CornerDownLeft } from 'lucide-react';
+import { AppMode, FocusTarget } from '../types';
+import { MODE_LABELS } from '../constants';
+import { DATE_RANGES, DateRange, SEARCHABLE_MODES, buildSearchIndex, searchIndex, tokenize } from '../utils/search';
+
+interface GlobalSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (target: FocusTarget) => void;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const Highlighted: React.FC<{ text: string; tokens: string[] }> = ({ text, tokens }) => {
+  if (tokens.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${tokens.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) => i % 2
+        ? <mark key={i} className="bg-indigo-500/30 text-white rounded px-0.5">{part}</mark>
+        : <React.Fragment key={i}>{part}</React.Fragment>)}
+    </>
+  );
+};
+
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({ isOpen, onClose, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [modes, setModes] = useState<AppMode[]>([]);
+  const [range, setRange] = useState<DateRange>('any');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Rebuilt on every open so results include whatever was saved since.
+  const index = useMemo(() => isOpen ? buildSearchIndex() : [], [isOpen]);
+  const results = useMemo(() => searchIndex(index, query, { modes, range }), [index, query, modes, range]);
+  const tokens = tokenize(query);
+
+  useEffect(() => { setActiveIndex(0); }, [query, modes, range]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const toggleMode = (mode: AppMode) => {
+    setModes(prev => prev.includes(mode) ? prev.filter(m => m !== mode) : [...prev, mode]);
+  };
+
+  const choose = (target: FocusTarget) => {
+    onSelect(target);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+    else if (e.key === 'ArrowDown') { e.preventDefault(); setActiveIndex(i => Math.min(i + 1, results.length - 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActiveIndex(i => Math.max(i - 1, 0)); }
+    else if (e.key === 'Enter' && results[activeIndex]) { e.preventDefault(); choose(results[activeIndex].doc.target); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-start justify-center p-4 pt-[12vh] select-text" onMouseDown={onClose}>
+      <div onMouseDown={e => e.stopPropagation()} onKeyDown={handleKeyDown} className="bg-[#080808] border border-white/10 w-full max-w-2xl rounded-[32px] obsidian-shadow overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[75vh]">
+        <div className="px-6 py-5 border-b border-white/5 flex items-center gap-4">
+          <Search size={18} className="text-indigo-400 shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search every mode's history"
+            className="flex-1 bg-transparent text-sm text-white outline-none placeholder:text-slate-700"
+          />
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors"><X size={18} /></button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-white/5 flex flex-wrap items-center gap-2">
+          {SEARCHABLE_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => toggleMode(mode)}
+              className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all ${modes.includes(mode) ? 'bg-indigo-600/20 border-indigo-500/30 text-indigo-300' : 'border-white/5 text-slate-600 hover:text-slate-300'}`}
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+          <select
+            value={range}
+            onChange={e => setRange(e.target.value as DateRange)}
+            className="ml-auto bg-[#0a0a0a] border border-white/5 rounded-xl px-3 py-1 text-[10px] font-bold text-slate-400 outline-none"
+          >
+            {DATE_RANGES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {tokens.length > 0 && results.length === 0 && (
+            <p className="py-10 text-center text-[10px] font-black uppercase tracking-widest text-slate-700">No matches</p>
+          )}
+          {tokens.length === 0 && (
+            <p className="py-10 text-center text-[10px] font-black uppercase tracking-widest text-slate-700">{index.length} records indexed</p>
+          )}
+          {results.map((r, i) => (
+            <button
+              key={r.doc.id}
+              data-index={i}
+              onClick={() => choose(r.doc.target)}
+              onMouseMove={() => setActiveIndex(i)}
+              className={`w-full text-left px-4 py-3 rounded-2xl transition-all flex items-start gap-3 ${i === activeIndex ? 'bg-white/5' : ''}`}
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-indigo-400 shrink-0">{MODE_LABELS[r.doc.mode]}</span>
+                  <span className="text-[12px] font-semibold text-white truncate"><Highlighted text={r.doc.title} tokens={tokens} /></span>
+                  {r.doc.timestamp && <span className="ml-auto text-[9px] font-bold text-slate-700 shrink-0">{new Date(r.doc.timestamp).toLocaleDateString()}</span>}
+                </div>
+                <p className="text-[12px] text-slate-500 leading-relaxed line-clamp-2"><Highlighted text={r.snippet} tokens={tokens} /></p>
+              </div>
+              {i === activeIndex && <CornerDownLeft size={12} className="text-slate-600 mt-1 shrink-0" />}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
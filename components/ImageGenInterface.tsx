@@ -1,15 +1,27 @@
 
 import React, { useState, useEffect } from 'react';
-import { GoogleGenAI } from '@google/genai';
 // Added X to imports to fix "Cannot find name 'X'" error
-import { Image as ImageIcon, Download, Zap, Key, Clock, Trash2, Maximize2, Layers, Sparkles, ChevronRight, Share2, X } from 'lucide-react';
-import { ImageResolution } from '../types';
+import { Image as ImageIcon, Download, Zap, Key, Clock, Trash2, Maximize2, Layers, Sparkles, ChevronRight, X } from 'lucide-react';
+import { AppMode, FocusTarget, Handoff, ImageResolution } from '../types';
+import { MODE_LABELS } from '../constants';
 import { saveToHistory, loadFromHistory, clearHistory } from '../utils/history';
-
-interface HistoryItem { id: number; prompt: string; image: string; timestamp: number; }
-const HISTORY_KEY = 'textgpt_image_history_v3';
-
-export const ImageGenInterface: React.FC = () => {
+import { IMAGE_HISTORY_KEY as HISTORY_KEY, ImageHistoryItem as HistoryItem } from '../utils/modeHistory';
+import { useRouteItem } from '../utils/routes';
+import { useCommands } from '../utils/commands';
+import { imageHandoffs } from '../utils/handoff';
+import { imageRequest } from '../utils/modeRequests';
+import { getProvider, classifyError } from '../providers';
+import { SendToMenu } from './SendToMenu';
+
+interface ImageGenInterfaceProps {
+  handoff?: Handoff | null;
+  onHandoff?: (handoff: Handoff) => void;
+  onHandoffHandled?: () => void;
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
+}
+
+export const ImageGenInterface: React.FC<ImageGenInterfaceProps> = ({ handoff, onHandoff, onHandoffHandled, focus, onFocusHandled }) => {
   const [prompt, setPrompt] = useState('');
   const [resolution, setResolution] = useState<ImageResolution>(ImageResolution.RES_1K);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
@@ -19,16 +31,34 @@ export const ImageGenInterface: React.FC = () => {
 
   useEffect(() => { saveToHistory(HISTORY_KEY, history); }, [history]);
 
+  useEffect(() => {
+    if (!focus) return;
+    const item = history.find(h => h.id === focus.itemId);
+    if (item && !isLoading) {
+      setPrompt(item.prompt);
+      setGeneratedImage(item.image);
+      setError(null);
+    }
+    onFocusHandled?.();
+  }, [focus]);
+
+  useEffect(() => {
+    if (handoff?.mode !== AppMode.IMAGES) return;
+    if (!isLoading) setPrompt(handoff.prompt);
+    onHandoffHandled?.();
+  }, [handoff]);
+
+  useRouteItem(AppMode.IMAGES, generatedImage ? history.find(h => h.image === generatedImage)?.id : null, !!focus);
+
   const handleGenerate = async () => {
     if (!prompt) return;
     setIsLoading(true); setError(null); setGeneratedImage(null);
 
     try {
-      let model = 'gemini-2.5-flash-image';
-      let imageConfig: any = { aspectRatio: '1:1' };
+      const provider = getProvider(AppMode.IMAGES);
 
       // Mandatory API key selection for Pro model as per guidelines
-      if (resolution !== ImageResolution.RES_1K) {
+      if (provider.id === 'gemini' && resolution !== ImageResolution.RES_1K) {
         const win = window as any;
         if (win.aistudio) {
           const hasKey = await win.aistudio.hasSelectedApiKey();
@@ -37,25 +67,9 @@ export const ImageGenInterface: React.FC = () => {
             // Proceed immediately as per race condition guidelines
           }
         }
-        model = 'gemini-3-pro-image-preview';
-        imageConfig.imageSize = resolution;
       }
 
-      // Create a fresh instance to ensure the latest API key is used
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [{ text: prompt }] },
-        config: { imageConfig }
-      });
-
-      let dataUrl = '';
-      // Iterating through all parts to find the image part as per guidelines
-      if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) { dataUrl = `data:image/png;base64,${part.inlineData.data}`; break; }
-        }
-      }
+      const { dataUrl } = await provider.generateImage(imageRequest(prompt, resolution));
 
       if (dataUrl) {
         setGeneratedImage(dataUrl);
@@ -63,16 +77,21 @@ export const ImageGenInterface: React.FC = () => {
       } else {
         setError('Synthesis engine returned null data.');
       }
-    } catch (err: any) {
-      if (err.message?.includes("Requested entity was not found")) {
+    } catch (e) {
+      const err = classifyError(e);
+      if (err.kind === 'model_not_found' || err.kind === 'auth') {
         // Reset key selection if required as per guidelines
         const win = window as any;
         if (win.aistudio) await win.aistudio.openSelectKey();
       }
-      setError("Forge Interruption: Check system link and credentials.");
+      setError(err.message);
     } finally { setIsLoading(false); }
   };
 
+  useCommands([
+    { id: 'images.generate', title: 'Generate image', group: MODE_LABELS[AppMode.IMAGES], shortcut: 'send', disabled: isLoading || !prompt, run: handleGenerate }
+  ]);
+
   return (
     <div className="h-full bg-[#020202] flex flex-col overflow-hidden font-sans">
       <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
@@ -192,7 +211,7 @@ export const ImageGenInterface: React.FC = () => {
                         <p className="text-[9px] text-slate-400 uppercase tracking-widest">{resolution} Synthesis Grade</p>
                      </div>
                      <div className="flex gap-4">
-                        <button className="p-3 bg-white/5 hover:bg-white/10 rounded-full text-white transition-all"><Share2 size={20}/></button>
+                        {onHandoff && <SendToMenu options={imageHandoffs(generatedImage, 'forge-image.png', AppMode.IMAGES, prompt)} onHandoff={onHandoff} placement="overlay" />}
                         <a 
                           href={generatedImage} 
                           download={`textgpt-${Date.now()}.png`}
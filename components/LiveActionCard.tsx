@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, FileCode, ExternalLink, Globe, Smartphone, Youtube, MessageSquare, Phone, Instagram, Facebook, Image as ImageIcon, Search, Timer } from 'lucide-react';
+import { AppMode, Handoff } from '../types';
+import { ActionCard, ActionCardType } from '../utils/liveTools';
+import { imageHandoffs, textHandoffs } from '../utils/handoff';
+import { MessageRenderer } from './MessageRenderer';
+import { SourcesPanel } from './SourcesPanel';
+import { SendToMenu } from './SendToMenu';
+
+interface LiveActionCardProps {
+  card: ActionCard;
+  onDismiss: () => void;
+  onHandoff?: (handoff: Handoff) => void;
+}
+
+const CARD_LABELS: Record<ActionCardType, string> = {
+  link: 'Link', youtube: 'YouTube', whatsapp: 'WhatsApp', social: 'Social', call: 'Call',
+  image: 'Image', code: 'Code', search: 'Look up', timer: 'Timer'
+};
+
+const cardIcon = (card: ActionCard) => {
+  switch (card.type) {
+    case 'youtube': return Youtube;
+    case 'whatsapp': return MessageSquare;
+    case 'call': return Phone;
+    case 'social': return /instagram\.com/i.test(card.url || '') ? Instagram : /facebook\.com/i.test(card.url || '') ? Facebook : Smartphone;
+    case 'image': return ImageIcon;
+    case 'code': return FileCode;
+    case 'search': return Search;
+    case 'timer': return Timer;
+    default: return Globe;
+  }
+};
+
+const formatRemaining = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const Countdown: React.FC<{ endsAt: number }> = ({ endsAt }) => {
+  const [now, setNow] = useState(Date.now());
+  const remaining = Math.max(0, endsAt - now);
+
+  useEffect(() => {
+    if (remaining === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [remaining === 0]);
+
+  return remaining > 0
+    ? <p className="text-4xl font-black text-white tabular-nums tracking-tight">{formatRemaining(remaining)}</p>
+    : <p className="text-2xl font-black text-emerald-400 uppercase tracking-widest animate-pulse">Time's up</p>;
+};
+
+// Result of a Live tool call, shown beside the orb until dismissed.
+export const LiveActionCard: React.FC<LiveActionCardProps> = ({ card, onDismiss, onHandoff }) => {
+  const Icon = cardIcon(card);
+  const isLink = !!card.url;
+
+  return (
+    <div className="w-full text-left rounded-[24px] border border-white/10 bg-white/[0.03] obsidian-shadow p-5 space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center gap-3">
+        <div className="bg-indigo-600/10 p-2 rounded-xl border border-indigo-500/20 shrink-0"><Icon size={16} className="text-indigo-400" /></div>
+        <div className="flex-1 min-w-0">
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-600">{CARD_LABELS[card.type]}</p>
+          <p className="text-[13px] text-slate-200 truncate" title={card.title}>{card.title}</p>
+        </div>
+        {onHandoff && card.type === 'image' && card.content && (
+          <SendToMenu options={imageHandoffs(card.content, 'live-image.png', AppMode.LIVE, card.title)} onHandoff={onHandoff} placement="toolbar" />
+        )}
+        {onHandoff && card.type === 'search' && card.content && (
+          <SendToMenu options={textHandoffs(card.content, AppMode.LIVE)} onHandoff={onHandoff} placement="toolbar" />
+        )}
+        <button onClick={onDismiss} title="Dismiss" className="p-2 rounded-xl text-slate-600 hover:text-white hover:bg-white/5 transition-all"><X size={16} /></button>
+      </div>
+
+      {isLink && (
+        <a href={card.url} target="_blank" rel="noopener noreferrer" className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white transition-all">
+          <span className="text-[12px] truncate">{card.url!.replace(/^(https?:\/\/|tel:)/i, '')}</span>
+          <span className="flex items-center gap-1.5 shrink-0 text-[9px] font-black uppercase tracking-widest">
+            {card.type === 'call' ? 'Call' : 'Open'} <ExternalLink size={12} />
+          </span>
+        </a>
+      )}
+
+      {card.type === 'image' && card.content && (
+        <div className="relative group">
+          <img src={card.content} alt={card.title} className="w-full rounded-2xl border border-white/5" />
+          <a href={card.content} download="live-image.png" title="Download" className="absolute top-3 right-3 p-2 bg-black/60 hover:bg-black/80 rounded-full text-white opacity-0 group-hover:opacity-100 transition-all">
+            <Download size={14} />
+          </a>
+        </div>
+      )}
+
+      {card.type === 'code' && card.content !== undefined && (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar">
+          <MessageRenderer
+            text={`\`\`\`${card.language || ''}\n${card.content}\n\`\`\``}
+            onOpenInWorkspace={onHandoff ? (file) => onHandoff({ mode: AppMode.CODING, file }) : undefined}
+          />
+        </div>
+      )}
+
+      {card.type === 'search' && card.content && (
+        <div>
+          <MessageRenderer text={card.content} sources={card.sources} grounding={card.grounding} className="text-slate-300 text-[13px]" />
+          <SourcesPanel text={card.content} sources={card.sources || []} grounding={card.grounding} />
+        </div>
+      )}
+
+      {card.type === 'timer' && card.endsAt && <Countdown endsAt={card.endsAt} />}
+    </div>
+  );
+};
@@ -1,102 +1,291 @@
 
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration, Schema } from '@google/genai';
-import { Mic, MicOff, Activity, Image as ImageIcon, X, Download, Loader2, FileCode, ExternalLink, Globe, Smartphone, Sparkles, Youtube, MessageSquare, Phone, Instagram, Facebook } from 'lucide-react';
-import { decodeAudioData, createPcmBlob, base64ToUint8Array } from '../utils/audioUtils';
+import { FunctionCall, LiveServerMessage } from '@google/genai';
+import { Activity, Loader2, Trash2 } from 'lucide-react';
+import { decodeAudioData, createAudioContext, createPcmBlob, base64ToUint8Array } from '../utils/audioUtils';
+import { LIVE_INPUT_RATE, startMicrophoneCapture } from '../utils/audioCapture';
 import { saveToHistory, loadFromHistory } from '../utils/history';
+import { liveRequest } from '../utils/modeRequests';
+import { LIVE_SESSIONS_KEY, LIVE_SESSION_LIMIT, LiveSessionRecord, LiveTranscriptEntry, liveSessionTitle } from '../utils/modeHistory';
+import { ConversationExport, createExport } from '../utils/conversationExport';
+import { useSearchHighlight } from '../utils/search';
+import { useRouteItem } from '../utils/routes';
+import { ActionCard, findLiveTool } from '../utils/liveTools';
+import { loadLiveConfig } from '../utils/liveConfig';
+import { AppMode, FocusTarget, Handoff, MessageError } from '../types';
+import { classifyError, getProvider, LiveConnection, LiveToolResponse, ProviderError } from '../providers';
+import { ConversationMenu } from './ConversationMenu';
+import { ErrorNotice } from './ErrorNotice';
+import { LiveActionCard } from './LiveActionCard';
+import { LiveSetupPanel } from './LiveSetupPanel';
 
-interface ActionCard {
-  type: 'link' | 'image' | 'code' | 'youtube' | 'whatsapp' | 'social' | 'call';
-  title: string;
-  url?: string;
-  content?: string;
-  icon?: any;
+interface LiveSessionProps {
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
+  onHandoff?: (handoff: Handoff) => void;
 }
 
-const SYSTEM_LITERALS = "YOU MUST RESPOND USING ONLY ALPHABETIC CHARACTERS AND SPACES. DO NOT USE PUNCTUATION LIKE COLONS HYPHENS SLASHES PARENTHESES OR QUOTES. THE ONLY EXCEPTION IS DURING MATH CALCULATIONS WHERE YOU MAY USE PLUS MINUS MULTIPLY DIVIDE AND EQUALS SYMBOLS. OTHERWISE USE ONLY LETTERS.";
+const MAX_CARDS = 6;
 
-export const LiveSession: React.FC = () => {
+const createLiveId = () => `live_${Date.now().toString(36)}`;
+
+export const LiveSession: React.FC<LiveSessionProps> = ({ focus, onFocusHandled, onHandoff }) => {
   const [isConnected, setIsConnected] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
-  const [activeCard, setActiveCard] = useState<ActionCard | null>(null);
+  const [error, setError] = useState<MessageError | null>(null);
+  const [cards, setCards] = useState<ActionCard[]>([]);
   const [isProcessingTool, setIsProcessingTool] = useState(false);
   const [toolStatus, setToolStatus] = useState<string>('');
+  const [transcript, setTranscript] = useState<LiveTranscriptEntry[]>([]);
+  const [sessions, setSessions] = useState<LiveSessionRecord[]>(() => loadFromHistory(LIVE_SESSIONS_KEY, []));
+  // The saved session shown in the transcript panel while no call is running.
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  // The model the next call uses, or the one the current call runs on.
+  const [model, setModel] = useState(() => getProvider(AppMode.LIVE).models.live);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<Promise<any> | null>(null);
+  const sessionRef = useRef<Promise<LiveConnection> | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const stopCaptureRef = useRef<(() => void) | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const scheduledSources = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Bumped on every flush so chunks still decoding for the abandoned answer are dropped.
+  const playbackEpochRef = useRef(0);
   const animRef = useRef<number>(0);
+  const transcriptScrollRef = useRef<HTMLDivElement>(null);
+  // Live captions arrive in chunks faster than state settles, so they are built up here.
+  const transcriptRef = useRef<LiveTranscriptEntry[]>([]);
+  const turnDoneRef = useRef(false);
+  const liveIdRef = useRef<string | null>(null);
+  const pendingToolsRef = useRef(0);
+  // Calls the model withdrew (usually because the user spoke over it) get no response.
+  const cancelledCallsRef = useRef<Set<string>>(new Set());
+  // Why the session is ending; onerror arrives before the onclose that runs cleanup.
+  const failureRef = useRef<ProviderError | null>(null);
+
+  const isLive = isConnected || status === 'connecting';
+  // Speaking lasts until the last queued buffer ends or the user talks over it.
+  const voiceState = status === 'connecting' ? 'Connecting' : !isConnected ? null : isSpeaking ? 'Speaking' : 'Listening';
+
+  // Writes through to storage so a session ended by leaving the mode is still kept.
+  const updateSessions = (update: (prev: LiveSessionRecord[]) => LiveSessionRecord[]) => {
+    const next = update(loadFromHistory(LIVE_SESSIONS_KEY, []));
+    saveToHistory(LIVE_SESSIONS_KEY, next);
+    setSessions(next);
+  };
+
+  const persistTranscript = () => {
+    const id = liveIdRef.current;
+    const entries = transcriptRef.current;
+    if (!id || entries.length === 0) return;
+    updateSessions(prev => {
+      const record: LiveSessionRecord = { id, entries: [...entries], startedAt: prev.find(s => s.id === id)?.startedAt || entries[0].timestamp, updatedAt: Date.now() };
+      return [record, ...prev.filter(s => s.id !== id)].slice(0, LIVE_SESSION_LIMIT);
+    });
+  };
+
+  // Chunks extend the current caption until the other side speaks or the turn completes.
+  const appendTranscript = (role: LiveTranscriptEntry['role'], text: string) => {
+    const entries = transcriptRef.current;
+    const last = entries[entries.length - 1];
+    if (last && last.role === role && !turnDoneRef.current) entries[entries.length - 1] = { ...last, text: last.text + text };
+    else entries.push({ role, text: text.trimStart(), timestamp: Date.now() });
+    turnDoneRef.current = false;
+    setTranscript([...entries]);
+  };
+
+  // Stops the reply the user talked over and restarts the playback clock for the next one.
+  const flushPlayback = () => {
+    playbackEpochRef.current += 1;
+    scheduledSources.current.forEach(s => { s.onended = null; s.stop(); });
+    scheduledSources.current.clear();
+    nextStartTimeRef.current = 0;
+    setIsSpeaking(false);
+  };
+
+  // Marks the reply being talked over; its caption may already be followed by the user's.
+  const handleInterrupted = () => {
+    flushPlayback();
+    const entries = transcriptRef.current;
+    const i = entries.map(e => e.role).lastIndexOf('model');
+    if (i !== -1 && !entries[i].interrupted && entries.slice(i + 1).every(e => e.role === 'user')) {
+      entries[i] = { ...entries[i], interrupted: true };
+      setTranscript([...entries]);
+    }
+    turnDoneRef.current = true;
+  };
+
+  // Every call in one message runs together and is answered in a single tool response.
+  const handleToolCalls = async (calls: FunctionCall[], session: Promise<LiveConnection>) => {
+    const liveId = liveIdRef.current;
+    pendingToolsRef.current += 1;
+    setIsProcessingTool(true);
+    setToolStatus(calls.map(c => findLiveTool(c.name || '')?.status || c.name).join(' · '));
+
+    const functionResponses = await Promise.all(calls.map(async (call): Promise<LiveToolResponse> => {
+      const reply = (response: Record<string, any>) => ({ id: call.id || '', name: call.name || '', response });
+      const tool = findLiveTool(call.name || '');
+      if (!tool) return reply({ error: `Unknown tool ${call.name}` });
+      try {
+        const { response, card } = await tool.run(call.args || {});
+        if (card && liveIdRef.current === liveId) setCards(prev => [card, ...prev].slice(0, MAX_CARDS));
+        return reply(response);
+      } catch (e) {
+        return reply({ error: classifyError(e).message });
+      }
+    }));
+
+    // The session may have ended while a tool was still running; cleanup has reset the status then.
+    if (liveIdRef.current !== liveId || sessionRef.current !== session) return;
+    pendingToolsRef.current -= 1;
+    if (pendingToolsRef.current === 0) { setIsProcessingTool(false); setToolStatus(''); }
+    const answered = functionResponses.filter(r => !cancelledCallsRef.current.has(r.id));
+    if (answered.length) session.then(s => s.sendToolResponse({ functionResponses: answered }));
+  };
 
   const cleanup = () => {
+    persistTranscript();
+    if (liveIdRef.current && transcriptRef.current.length) setReviewId(liveIdRef.current);
+    liveIdRef.current = null;
     if (sessionRef.current) { sessionRef.current.then(s => s.close()); sessionRef.current = null; }
+    if (stopCaptureRef.current) { stopCaptureRef.current(); stopCaptureRef.current = null; }
     if (streamRef.current) { streamRef.current.getTracks().forEach(track => track.stop()); streamRef.current = null; }
+    flushPlayback();
     if (inputContextRef.current) { inputContextRef.current.close(); inputContextRef.current = null; }
     if (audioContextRef.current) { audioContextRef.current.close(); audioContextRef.current = null; }
     if (animRef.current) cancelAnimationFrame(animRef.current);
-    scheduledSources.current.forEach(s => s.stop());
-    scheduledSources.current.clear();
-    setIsConnected(false); setStatus('disconnected'); setIsSpeaking(false);
-    setActiveCard(null); setIsProcessingTool(false);
+    setIsConnected(false);
+    setStatus(failureRef.current ? 'error' : 'disconnected');
+    setError(failureRef.current?.toMessageError() || null);
+    failureRef.current = null;
+    pendingToolsRef.current = 0;
+    setIsProcessingTool(false); setToolStatus('');
+  };
+
+  const fail = (e: any) => {
+    failureRef.current = classifyError(e);
+    cleanup();
   };
 
   const startSession = async () => {
     try {
       setStatus('connecting');
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      setError(null);
+      failureRef.current = null;
+      liveIdRef.current = createLiveId();
+      transcriptRef.current = [];
+      turnDoneRef.current = false;
+      setTranscript([]);
+      setReviewId(null);
+      setCards([]);
+      cancelledCallsRef.current.clear();
+      audioContextRef.current = createAudioContext({ sampleRate: 24000 });
+      // Browsers may ignore a requested rate, so capture runs at the device rate and is resampled.
+      inputContextRef.current = createAudioContext();
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
       
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: `You are TextGpt ai. You are a helpful female AI assistant with a friendly girl persona. ${SYSTEM_LITERALS}`,
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
-        },
+      const provider = getProvider(AppMode.LIVE);
+      setModel(provider.models.live);
+      const config = loadLiveConfig();
+      const sessionPromise = provider.connectLive({
+        ...liveRequest(provider.models, config),
         callbacks: {
           onopen: () => {
             setStatus('connected'); setIsConnected(true);
-            const source = inputContextRef.current!.createMediaStreamSource(stream);
-            const processor = inputContextRef.current!.createScriptProcessor(4096, 1, 1);
-            processor.onaudioprocess = (e) => {
-              sessionPromise.then(s => s.sendRealtimeInput({ media: createPcmBlob(e.inputBuffer.getChannelData(0)) }));
-            };
-            source.connect(processor);
-            processor.connect(inputContextRef.current!.destination);
+            const inputContext = inputContextRef.current!;
+            startMicrophoneCapture(inputContext, stream, pcm => sessionPromise.then(s => s.sendRealtimeInput({ media: createPcmBlob(pcm, LIVE_INPUT_RATE) })))
+              .then(stop => { if (inputContextRef.current === inputContext) stopCaptureRef.current = stop; else stop(); })
+              .catch(e => { if (inputContextRef.current === inputContext) fail(e); });
           },
-          onmessage: async (msg) => {
+          onmessage: async (msg: LiveServerMessage) => {
+            const content = msg.serverContent;
+            if (content?.interrupted) handleInterrupted();
+            // The server only reports `interrupted` while it is still generating, so talking
+            // over the tail of a finished reply that is still playing is caught here.
+            else if (content?.inputTranscription?.text?.trim() && scheduledSources.current.size > 0) handleInterrupted();
+            if (content?.inputTranscription?.text) appendTranscript('user', content.inputTranscription.text);
+            if (content?.outputTranscription?.text) appendTranscript('model', content.outputTranscription.text);
+            if (content?.turnComplete) {
+              turnDoneRef.current = true;
+              persistTranscript();
+            }
+            msg.toolCallCancellation?.ids?.forEach(id => cancelledCallsRef.current.add(id));
+            if (msg.toolCall?.functionCalls?.length) handleToolCalls(msg.toolCall.functionCalls, sessionPromise);
             const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             if (audioData && audioContextRef.current) {
+              const ctx = audioContextRef.current;
+              const epoch = playbackEpochRef.current;
+              const buffer = await decodeAudioData(base64ToUint8Array(audioData), ctx, 24000, 1);
+              if (epoch !== playbackEpochRef.current || audioContextRef.current !== ctx) return;
               setIsSpeaking(true);
-              const buffer = await decodeAudioData(base64ToUint8Array(audioData), audioContextRef.current, 24000, 1);
-              const src = audioContextRef.current.createBufferSource();
-              src.buffer = buffer; src.connect(audioContextRef.current.destination);
+              const src = ctx.createBufferSource();
+              src.buffer = buffer; src.connect(ctx.destination);
               src.onended = () => { scheduledSources.current.delete(src); if (scheduledSources.current.size === 0) setIsSpeaking(false); };
-              src.start(nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContextRef.current.currentTime));
+              src.start(nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime));
               // FIXED: Ensure access to 'current' property of the scheduledSources ref.
               nextStartTimeRef.current += buffer.duration; scheduledSources.current.add(src);
             }
           },
           onerror: (e: ErrorEvent) => {
             console.debug('Live API encounter error:', e);
+            // Budget cut-offs pass their ProviderError along; socket errors carry at most a message.
+            failureRef.current = classifyError(e.error || e.message || 'Live connection error');
             setStatus('error');
           },
           onclose: (e: CloseEvent) => {
             console.debug('Live API session closed:', e);
+            // The server ends a failed session with an error code and the reason as text.
+            if (e.code > 1000 && !failureRef.current) failureRef.current = classifyError(e.reason || `Live session closed (code ${e.code})`);
             cleanup();
           }
         }
       });
+      // A refused connection (for example a used-up budget) never reaches onopen.
+      sessionPromise.catch(e => { sessionRef.current = null; fail(e); });
       sessionRef.current = sessionPromise;
-    } catch (e) { cleanup(); setStatus('error'); }
+    } catch (e) { fail(e); }
+  };
+
+  useEffect(() => () => cleanup(), []);
+
+  const [highlightId, setHighlightId] = useSearchHighlight();
+
+  useEffect(() => {
+    if (!focus) return;
+    if (!isLive && sessions.some(s => s.id === focus.sessionId)) {
+      setReviewId(focus.sessionId!);
+      if (focus.messageIndex !== undefined) setHighlightId(`live-entry-${focus.messageIndex}`);
+    }
+    onFocusHandled?.();
+  }, [focus]);
+
+  useRouteItem(AppMode.LIVE, isLive ? null : reviewId, !!focus);
+
+  useEffect(() => {
+    if (isLive && transcriptScrollRef.current) transcriptScrollRef.current.scrollTop = transcriptScrollRef.current.scrollHeight;
+  }, [transcript]);
+
+  const reviewed = isLive ? null : sessions.find(s => s.id === reviewId) || null;
+  const shownEntries = isLive ? transcript : reviewed?.entries || [];
+
+  const getExport = () => reviewed ? createExport(AppMode.LIVE, liveSessionTitle(reviewed), reviewed.entries) : null;
+
+  const handleImport = (conv: ConversationExport) => {
+    const entries = conv.messages.map(m => ({ role: m.role, text: m.text, timestamp: m.timestamp || conv.exportedAt }));
+    const record: LiveSessionRecord = { id: createLiveId(), entries, startedAt: entries[0]?.timestamp || conv.exportedAt, updatedAt: Date.now() };
+    updateSessions(prev => [record, ...prev].slice(0, LIVE_SESSION_LIMIT));
+    setReviewId(record.id);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    if (!confirm("Delete transcript")) return;
+    updateSessions(prev => prev.filter(s => s.id !== id));
+    if (reviewId === id) setReviewId(null);
   };
 
   useEffect(() => {
@@ -126,46 +315,122 @@ export const LiveSession: React.FC = () => {
   }, [isConnected, isSpeaking]);
 
   return (
-    <div className={`flex flex-col h-full items-center justify-center p-8 relative overflow-hidden transition-all duration-1000 ${isSpeaking ? 'bg-[#0f0a1e]' : 'bg-[#020202]'}`}>
-      <div className="z-10 text-center space-y-16 flex flex-col items-center w-full max-w-2xl">
-        <div className="space-y-4">
-          <div className="flex items-center justify-center gap-4">
-             <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-emerald-500 animate-pulse' : 'bg-slate-700'}`} />
-             <h2 className="text-5xl font-black text-white tracking-tighter uppercase italic">Nebula Stream</h2>
+    <div className={`flex flex-col lg:flex-row h-full overflow-hidden transition-all duration-1000 ${isSpeaking ? 'bg-[#0f0a1e]' : 'bg-[#020202]'}`}>
+      <div className="flex-1 min-h-0 flex flex-col items-center justify-center p-8 relative overflow-y-auto">
+        <div className="z-10 text-center space-y-16 flex flex-col items-center w-full max-w-2xl">
+          <div className="space-y-4">
+            <div className="flex items-center justify-center gap-4">
+               <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-emerald-500 animate-pulse' : 'bg-slate-700'}`} />
+               <h2 className="text-5xl font-black text-white tracking-tighter uppercase italic">Nebula Stream</h2>
+            </div>
+            <p className="text-slate-500 text-[11px] font-black uppercase tracking-[0.4em]">Integrated Voice Environment</p>
           </div>
-          <p className="text-slate-500 text-[11px] font-black uppercase tracking-[0.4em]">Integrated Voice Environment</p>
-        </div>
-
-        <div className="relative group p-12">
-           <canvas ref={canvasRef} width={400} height={400} className="rounded-full shadow-[0_0_100px_rgba(99,102,241,0.05)] transition-all duration-700 group-hover:scale-105" />
-           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-             {status === 'connecting' ? <Loader2 className="w-16 h-16 text-indigo-400 animate-spin" /> : <Activity className={`w-14 h-14 transition-all duration-500 ${isSpeaking ? 'text-white scale-125' : 'text-indigo-400 opacity-20'}`} />}
-           </div>
-        </div>
 
-        <div className="flex flex-col gap-6 w-full max-w-sm">
-          <button 
-            onClick={isConnected ? cleanup : startSession} 
-            className={`px-12 py-5 rounded-[24px] font-black uppercase tracking-widest transition-all active:scale-95 shadow-2xl ${
-              isConnected 
-                ? 'bg-white/5 text-red-500 border border-red-500/20 hover:bg-red-500 hover:text-white' 
-                : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-indigo-600/20'
-            }`}
-          >
-            {isConnected ? 'Disconnect System' : 'Initialize Voice Link'}
-          </button>
-          <div className="flex justify-center gap-10">
-             <div className="flex flex-col items-center gap-1">
-                <span className="text-[10px] font-black text-slate-700 uppercase tracking-widest">Latency</span>
-                <span className="text-xs font-bold text-slate-400">~24ms</span>
-             </div>
-             <div className="flex flex-col items-center gap-1">
-                <span className="text-[10px] font-black text-slate-700 uppercase tracking-widest">Model</span>
-                <span className="text-xs font-bold text-slate-400">Gemini 2.5 Native</span>
+          <div className="relative group p-12">
+             <canvas ref={canvasRef} width={400} height={400} className="rounded-full shadow-[0_0_100px_rgba(99,102,241,0.05)] transition-all duration-700 group-hover:scale-105" />
+             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+               {status === 'connecting' ? <Loader2 className="w-16 h-16 text-indigo-400 animate-spin" /> : <Activity className={`w-14 h-14 transition-all duration-500 ${isSpeaking ? 'text-white scale-125' : 'text-indigo-400 opacity-20'}`} />}
              </div>
+             {voiceState && (
+               <div className="absolute bottom-2 inset-x-0 flex items-center justify-center gap-2 pointer-events-none">
+                 <span className={`w-1.5 h-1.5 rounded-full ${isSpeaking ? 'bg-white' : 'bg-emerald-500 animate-pulse'}`} />
+                 <span className={`text-[10px] font-black uppercase tracking-[0.3em] ${isSpeaking ? 'text-white' : 'text-emerald-400'}`}>{voiceState}</span>
+               </div>
+             )}
+          </div>
+
+          <div className="flex flex-col gap-6 w-full max-w-sm">
+            <button 
+              onClick={isConnected ? cleanup : startSession} 
+              className={`px-12 py-5 rounded-[24px] font-black uppercase tracking-widest transition-all active:scale-95 shadow-2xl ${
+                isConnected 
+                  ? 'bg-white/5 text-red-500 border border-red-500/20 hover:bg-red-500 hover:text-white' 
+                  : 'bg-indigo-600 text-white hover:bg-indigo-500 shadow-indigo-600/20'
+              }`}
+            >
+              {isConnected ? 'Disconnect System' : 'Initialize Voice Link'}
+            </button>
+            {status === 'error' && error && (
+              <div className="p-4 bg-red-900/10 border border-red-500/20 rounded-2xl text-left">
+                <ErrorNotice error={error} />
+              </div>
+            )}
+            {isProcessingTool && (
+              <div className="self-center flex items-center gap-2 px-4 py-2 rounded-full bg-indigo-600/10 border border-indigo-500/20 text-[10px] font-black uppercase tracking-widest text-indigo-300">
+                <Loader2 size={12} className="animate-spin" /> {toolStatus}
+              </div>
+            )}
+            <div className="flex justify-center gap-10">
+               <div className="flex flex-col items-center gap-1">
+                  <span className="text-[10px] font-black text-slate-700 uppercase tracking-widest">Latency</span>
+                  <span className="text-xs font-bold text-slate-400">~24ms</span>
+               </div>
+               <div className="flex flex-col items-center gap-1">
+                  <span className="text-[10px] font-black text-slate-700 uppercase tracking-widest">Model</span>
+                  <span title={model} className="text-xs font-bold text-slate-400 max-w-[240px] truncate">{model}</span>
+               </div>
+            </div>
           </div>
+
+          {!isLive && <LiveSetupPanel onModelChange={setModel} />}
+
+          {cards.length > 0 && (
+            <div className="w-full space-y-4">
+              {cards.map(card => (
+                <LiveActionCard key={card.id} card={card} onHandoff={onHandoff} onDismiss={() => setCards(prev => prev.filter(c => c.id !== card.id))} />
+              ))}
+            </div>
+          )}
         </div>
       </div>
+
+      {/* Transcript */}
+      <aside className="h-80 lg:h-auto w-full lg:w-96 shrink-0 border-t lg:border-t-0 lg:border-l border-white/5 bg-[#050505]/80 backdrop-blur-xl flex flex-col">
+        <div className="h-14 shrink-0 px-5 flex items-center justify-between gap-3 border-b border-white/5">
+          <div className="min-w-0">
+            <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">Transcript</p>
+            <p className="text-[10px] text-slate-700 truncate">
+              {isLive ? 'Live captions' : reviewed ? `${liveSessionTitle(reviewed)} · ${new Date(reviewed.startedAt).toLocaleString()}` : 'No session selected'}
+            </p>
+          </div>
+          <ConversationMenu mode={AppMode.LIVE} getExport={getExport} onImport={handleImport} disabled={isLive} />
+        </div>
+
+        <div ref={transcriptScrollRef} className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+          {shownEntries.length === 0 && (
+            <p className="h-full flex items-center justify-center text-center text-[10px] font-black uppercase tracking-widest text-slate-700 px-6">
+              {isLive ? 'Captions appear as you talk' : 'Start a voice link or pick a past session'}
+            </p>
+          )}
+          {shownEntries.map((entry, i) => (
+            <div key={i} id={`live-entry-${i}`} className={`flex flex-col ${entry.role === 'user' ? 'items-end' : 'items-start'}`}>
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-700 mb-1 px-1">
+                {entry.role === 'user' ? 'You' : 'TextGpt'} · {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}{entry.interrupted && ' · Interrupted'}
+              </span>
+              <p className={`max-w-[90%] px-4 py-2.5 rounded-2xl text-[13px] leading-relaxed whitespace-pre-wrap ${highlightId === `live-entry-${i}` ? 'ring-1 ring-indigo-400/70 ' : ''}${
+                entry.role === 'user' ? 'bg-indigo-600 text-white rounded-br-none' : 'bg-white/5 text-slate-300 rounded-bl-none'
+              }`}>
+                {entry.text}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {sessions.length > 0 && (
+          <div className="shrink-0 max-h-44 overflow-y-auto border-t border-white/5 p-2 space-y-1 custom-scrollbar">
+            <p className="px-3 pt-1 pb-1 text-[9px] font-black uppercase tracking-widest text-slate-600">Sessions</p>
+            {sessions.map(session => (
+              <div key={session.id} className={`group flex items-center gap-2 rounded-xl transition-all ${!isLive && session.id === reviewId ? 'bg-white/5' : 'hover:bg-white/5'}`}>
+                <button onClick={() => setReviewId(session.id)} disabled={isLive} className="flex-1 min-w-0 text-left px-3 py-2 disabled:opacity-40">
+                  <p className="text-[12px] text-slate-300 truncate">{liveSessionTitle(session)}</p>
+                  <p className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">{new Date(session.startedAt).toLocaleString()} · {session.entries.length} turns</p>
+                </button>
+                <button onClick={() => handleDeleteSession(session.id)} disabled={isLive} title="Delete" className="p-2 mr-1 rounded-lg text-slate-700 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all disabled:opacity-0"><Trash2 size={12} /></button>
+              </div>
+            ))}
+          </div>
+        )}
+      </aside>
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Square, Loader2, Check } from 'lucide-react';
+import { AppMode, LiveConfig } from '../types';
+import { classifyError, createProvider, getProvider, loadProviderSettings, DEFAULT_PROVIDER_ID, LiveConnection } from '../providers';
+import { createAudioContext, decodeAudioData, base64ToUint8Array } from '../utils/audioUtils';
+import { LIVE_LANGUAGES, LIVE_MODELS, LIVE_VOICES, languageInstruction, loadLiveConfig, saveLiveConfig } from '../utils/liveConfig';
+import { loadModeSettings, saveModeSettings } from '../utils/modelSettings';
+import { LOCAL_USER, activeUserId } from '../utils/profile';
+import { PersonaPicker } from './PersonaPicker';
+
+interface LiveSetupPanelProps {
+  // Receives the model the next session will use whenever the choice changes.
+  onModelChange?: (model: string) => void;
+}
+
+const PREVIEW_TIMEOUT_MS = 15000;
+
+const selectClass = 'w-full bg-[#0a0a0a] border border-white/5 rounded-xl px-3 py-2.5 text-[12px] text-slate-200 outline-none focus:border-indigo-500/40';
+
+// Opens a short Live session in which the voice greets the user, then closes it once
+// the greeting has played. Returns a function that stops the preview early.
+const startVoicePreview = (config: LiveConfig, onEnd: (error?: unknown) => void): (() => void) => {
+  const ctx = createAudioContext({ sampleRate: 24000 });
+  let connection: LiveConnection | null = null;
+  let nextStart = 0;
+  // Chunks are scheduled in arrival order even though decoding is async.
+  let playback = Promise.resolve();
+  let ended = false;
+
+  const finish = (error?: unknown) => {
+    if (ended) return;
+    ended = true;
+    clearTimeout(timeout);
+    connection?.close();
+    ctx.close();
+    onEnd(error);
+  };
+  const timeout = setTimeout(() => finish(), PREVIEW_TIMEOUT_MS);
+
+  const provider = getProvider(AppMode.LIVE);
+  provider.connectLive({
+    model: provider.models.live,
+    systemInstruction: ['Greet the user in one short, friendly sentence and say you are TextGpt.', languageInstruction(config.languageCode)].filter(Boolean).join(' '),
+    voiceName: config.voiceName,
+    languageCode: config.languageCode || undefined,
+    callbacks: {
+      onmessage: (msg) => {
+        const data = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (data) playback = playback.then(async () => {
+          if (ended) return;
+          const buffer = await decodeAudioData(base64ToUint8Array(data), ctx, 24000, 1);
+          const src = ctx.createBufferSource();
+          src.buffer = buffer; src.connect(ctx.destination);
+          src.start(nextStart = Math.max(nextStart, ctx.currentTime));
+          nextStart += buffer.duration;
+        });
+        if (msg.serverContent?.turnComplete) connection?.close();
+      },
+      onerror: (e) => finish(e),
+      // Lets the greeting that is still queued play out.
+      onclose: () => { playback.then(() => setTimeout(() => finish(), Math.max(0, nextStart - ctx.currentTime) * 1000)); }
+    }
+  }).then(conn => {
+    connection = conn;
+    if (ended) return conn.close();
+    conn.sendClientContent({ turns: 'Hello!', turnComplete: true });
+  }).catch(finish);
+
+  return () => finish();
+};
+
+// Voice, language, persona and model for the next Live session, saved for the signed-in user.
+export const LiveSetupPanel: React.FC<LiveSetupPanelProps> = ({ onModelChange }) => {
+  const [config, setConfig] = useState<LiveConfig>(() => loadLiveConfig());
+  const [model, setModel] = useState(() => loadModeSettings(AppMode.LIVE).model || '');
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+  const user = activeUserId();
+
+  const providers = loadProviderSettings();
+  const defaultModel = createProvider(providers.modeProviders[AppMode.LIVE] || DEFAULT_PROVIDER_ID, providers).models.live;
+  const modelOptions = [...new Set([...LIVE_MODELS, defaultModel, model].filter(Boolean))];
+
+  const stopPreview = () => {
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = null;
+  };
+
+  useEffect(() => () => stopPreview(), []);
+
+  const update = (next: LiveConfig) => {
+    setConfig(next);
+    saveLiveConfig(next);
+  };
+
+  const handleModelChange = (next: string) => {
+    setModel(next);
+    const { model: _previous, ...rest } = loadModeSettings(AppMode.LIVE);
+    saveModeSettings(AppMode.LIVE, next ? { ...rest, model: next } : rest);
+    onModelChange?.(getProvider(AppMode.LIVE).models.live);
+  };
+
+  const handlePreview = (voiceName: string) => {
+    const wasPlaying = previewing === voiceName;
+    stopPreview();
+    setPreviewError(null);
+    if (wasPlaying) return;
+    setPreviewing(voiceName);
+    const stop = startVoicePreview({ ...config, voiceName }, (error) => {
+      if (stopPreviewRef.current !== stop) return;
+      stopPreviewRef.current = null;
+      setPreviewing(null);
+      if (error) setPreviewError(classifyError(error).message);
+    });
+    stopPreviewRef.current = stop;
+  };
+
+  return (
+    <div className="w-full text-left bg-[#080808] border border-white/5 rounded-[24px] p-5 space-y-5">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">Session Setup</p>
+        <span className="text-[9px] font-black text-slate-700 uppercase tracking-widest">Saved for {user === LOCAL_USER ? 'this browser' : user}</span>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">Voice</span>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {LIVE_VOICES.map(v => (
+            <div key={v.id} className={`flex items-center rounded-xl border transition-all ${config.voiceName === v.id ? 'border-indigo-500/50 bg-indigo-600/10' : 'border-white/5 hover:border-white/10'}`}>
+              <button onClick={() => update({ ...config, voiceName: v.id })} className="flex-1 min-w-0 text-left px-3 py-2">
+                <p className="text-[12px] text-slate-200 flex items-center gap-1.5">{v.id} {config.voiceName === v.id && <Check size={10} className="text-indigo-400" />}</p>
+                <p className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">{v.tone}</p>
+              </button>
+              <button onClick={() => handlePreview(v.id)} title={previewing === v.id ? 'Stop preview' : 'Preview'} className="p-2 mr-1 rounded-lg text-slate-600 hover:text-white hover:bg-white/5 transition-all">
+                {previewing === v.id ? <Square size={10} /> : <Play size={10} />}
+              </button>
+            </div>
+          ))}
+        </div>
+        {previewing && <p className="flex items-center gap-2 text-[10px] text-slate-500 ml-1"><Loader2 size={10} className="animate-spin" /> Previewing {previewing}</p>}
+        {previewError && <p className="text-[10px] font-bold text-red-400 ml-1">{previewError}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block space-y-2">
+          <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">Response language</span>
+          <select value={config.languageCode} onChange={e => update({ ...config, languageCode: e.target.value })} className={selectClass}>
+            {LIVE_LANGUAGES.map(l => <option key={l.code} value={l.code} className="bg-[#080808]">{l.label}</option>)}
+          </select>
+        </label>
+        <label className="block space-y-2">
+          <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">Model</span>
+          <select value={model} onChange={e => handleModelChange(e.target.value)} className={selectClass}>
+            <option value="" className="bg-[#080808]">Default ({defaultModel})</option>
+            {modelOptions.map(m => <option key={m} value={m} className="bg-[#080808]">{m}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">Persona</span>
+        <PersonaPicker mode={AppMode.LIVE} value={config.personaId} onChange={personaId => update({ ...config, personaId })} />
+      </div>
+    </div>
+  );
+};
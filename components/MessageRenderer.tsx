@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Copy, Check, FileCode } from 'lucide-react';
+import { CodeFile, GroundingDetails, GroundingSource } from '../types';
+import { insertCitations, parseCitationHref } from '../utils/citations';
+import { CitationMarker } from './SourcesPanel';
+
+interface MessageRendererProps {
+  text: string;
+  className?: string;
+  onOpenInWorkspace?: (file: CodeFile) => void;
+  // Grounded replies get numbered citation markers after each supported segment.
+  sources?: GroundingSource[];
+  grounding?: GroundingDetails;
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', typescript: 'ts', ts: 'ts', jsx: 'jsx', tsx: 'tsx',
+  html: 'html', css: 'css', json: 'json', python: 'py', py: 'py', bash: 'sh', sh: 'sh',
+  shell: 'sh', java: 'java', go: 'go', rust: 'rs', c: 'c', cpp: 'cpp', sql: 'sql',
+  markdown: 'md', md: 'md', yaml: 'yml', yml: 'yml'
+};
+
+// Flattens a hast node back to its source text (highlighting splits code into spans).
+const hastText = (node: any): string =>
+  node?.type === 'text' ? node.value : (node?.children || []).map(hastText).join('');
+
+const CodeBlock: React.FC<{ code: string; language: string; children: React.ReactNode; onOpenInWorkspace?: (file: CodeFile) => void }> = ({ code, language, children, onOpenInWorkspace }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.warn("Clipboard error", e);
+    }
+  };
+
+  const handleOpen = () => {
+    const ext = LANGUAGE_EXTENSIONS[language] || 'txt';
+    onOpenInWorkspace?.({ filename: `snippet-${Date.now().toString(36)}.${ext}`, content: code, language });
+  };
+
+  return (
+    <div className="not-prose my-4 rounded-2xl border border-white/10 bg-[#0a0a0a] overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-white/5 bg-white/[0.02]">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-600">{language}</span>
+        <div className="flex items-center gap-1">
+          {onOpenInWorkspace && (
+            <button onClick={handleOpen} className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-400 hover:bg-white/5 transition-all">
+              <FileCode size={12} /> Open in Code Workspace
+            </button>
+          )}
+          <button onClick={handleCopy} title="Copy" className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-white/5 transition-all">
+            {copied ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}
+          </button>
+        </div>
+      </div>
+      <pre className="p-4 overflow-x-auto text-[13px] leading-6 font-mono">{children}</pre>
+    </div>
+  );
+};
+
+export const MessageRenderer: React.FC<MessageRendererProps> = ({ text, className = '', onOpenInWorkspace, sources, grounding }) => {
+  return (
+    <div className={`prose prose-invert max-w-none prose-p:leading-relaxed prose-pre:my-0 prose-a:text-indigo-400 prose-code:before:content-none prose-code:after:content-none ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        components={{
+          pre: ({ node, children }) => {
+            const codeNode: any = node?.children?.[0];
+            const classes: string[] = (codeNode?.properties?.className || []).map(String);
+            const language = classes.find(c => c.startsWith('language-'))?.replace('language-', '') || 'text';
+            const code = hastText(codeNode).replace(/\n$/, '');
+            return <CodeBlock code={code} language={language} onOpenInWorkspace={onOpenInWorkspace}>{children}</CodeBlock>;
+          },
+          a: ({ node, ...props }) => {
+            const citation = parseCitationHref(props.href);
+            if (citation !== null) return <CitationMarker index={citation} source={sources?.[citation]} />;
+            return <a {...props} target="_blank" rel="noreferrer" />;
+          },
+          table: ({ node, ...props }) => <div className="overflow-x-auto"><table {...props} /></div>
+        }}
+      >
+        {grounding ? insertCitations(text, grounding.supports) : text}
+      </ReactMarkdown>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { AppMode } from '../types';
+import { MODE_LABELS } from '../constants';
+import { createProvider, DEFAULT_PROVIDER_ID, HarmCategoryId, ProviderSettings, SafetyThreshold } from '../providers';
+import { MODE_MODELS } from '../providers/modeSettings';
+import { geminiProvider } from '../providers/gemini';
+import { DEFAULT_PRICES } from '../utils/usage';
+import { LOCAL_USER, activeUserId } from '../utils/profile';
+import {
+  HARM_CATEGORY_OPTIONS, ModeSettings, NUMERIC_PARAMS, SAFETY_THRESHOLD_OPTIONS, TEXT_MODES,
+  loadModeSettings, resetModeSettings, saveModeSettings
+} from '../utils/modelSettings';
+
+interface ModelSettingsProps {
+  providers: ProviderSettings;
+}
+
+const inputClass = 'w-full bg-[#0a0a0a] border border-white/5 rounded-2xl px-5 py-3 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-700';
+
+// Model and generation parameters per mode, saved for the signed-in user.
+export const ModelSettings: React.FC<ModelSettingsProps> = ({ providers }) => {
+  const [mode, setMode] = useState<AppMode>(AppMode.CHAT);
+  const [settings, setSettings] = useState<ModeSettings>(() => loadModeSettings(AppMode.CHAT));
+  // Bumped on reset so the uncontrolled inputs drop what was typed.
+  const [revision, setRevision] = useState(0);
+  const user = activeUserId();
+
+  const provider = createProvider(providers.modeProviders[mode] || DEFAULT_PROVIDER_ID, providers);
+  const defaultModel = [...new Set(MODE_MODELS[mode].map(slot => provider.models[slot]).filter(Boolean))].join(' / ');
+  const suggestions = [...new Set([...Object.values(geminiProvider.models), ...Object.values(provider.models), ...Object.keys(DEFAULT_PRICES)].filter(Boolean))].sort();
+  const isTextMode = TEXT_MODES.includes(mode);
+
+  const selectMode = (next: AppMode) => {
+    setMode(next);
+    setSettings(loadModeSettings(next));
+  };
+
+  const update = (next: ModeSettings) => {
+    setSettings(next);
+    saveModeSettings(mode, next);
+  };
+
+  const setNumber = (key: typeof NUMERIC_PARAMS[number]['key'], value: string) => {
+    const { [key]: _previous, ...rest } = settings;
+    const parsed = parseFloat(value);
+    update(value.trim() === '' || !Number.isFinite(parsed) ? rest : { ...rest, [key]: parsed });
+  };
+
+  const setSafety = (category: HarmCategoryId, threshold: string) => {
+    const { [category]: _previous, ...rest } = settings.safety || {};
+    update({ ...settings, safety: threshold ? { ...rest, [category]: threshold as SafetyThreshold } : rest });
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Reset ${MODE_LABELS[mode]} settings`)) return;
+    resetModeSettings(mode);
+    setSettings({});
+    setRevision(v => v + 1);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between ml-1">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><SlidersHorizontal size={12} /> Models &amp; Generation</h3>
+        <span className="text-[9px] font-black text-slate-700 uppercase tracking-widest">Saved for {user === LOCAL_USER ? 'this browser' : user}</span>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {Object.values(AppMode).map(m => (
+          <button key={m} onClick={() => selectMode(m)} className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${mode === m ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-white/5 text-slate-500 hover:text-white'}`}>
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      <div key={`${mode}-${revision}`} className="bg-[#050505] border border-white/5 rounded-2xl p-5 space-y-5">
+        <label className="block space-y-2">
+          <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">Model</span>
+          <input
+            list="model-suggestions"
+            defaultValue={settings.model || ''}
+            placeholder={defaultModel || 'Provider default'}
+            onChange={(e) => update({ ...settings, model: e.target.value.trim() || undefined })}
+            className={inputClass}
+          />
+          <datalist id="model-suggestions">
+            {suggestions.map(m => <option key={m} value={m} />)}
+          </datalist>
+        </label>
+
+        {isTextMode ? (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {NUMERIC_PARAMS.map(p => (
+                <label key={p.key} className="space-y-2">
+                  <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">{p.label}</span>
+                  <input
+                    type="number"
+                    min={p.min}
+                    max={p.max}
+                    step={p.step}
+                    defaultValue={settings[p.key] ?? ''}
+                    placeholder="Default"
+                    title={p.hint}
+                    onChange={(e) => setNumber(p.key, e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">Safety Thresholds</span>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {HARM_CATEGORY_OPTIONS.map(c => (
+                  <div key={c.id} className="flex items-center justify-between gap-3 bg-[#0a0a0a] border border-white/5 rounded-2xl px-4 py-2.5">
+                    <span className="text-[11px] font-bold text-slate-400">{c.label}</span>
+                    <select value={settings.safety?.[c.id] || ''} onChange={(e) => setSafety(c.id, e.target.value)} className="bg-transparent text-[11px] text-white outline-none">
+                      <option value="" className="bg-[#080808]">Default</option>
+                      {SAFETY_THRESHOLD_OPTIONS.map(t => <option key={t.id} value={t.id} className="bg-[#080808]">{t.label}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="text-[11px] text-slate-600 ml-1">Generation parameters apply to text modes; {MODE_LABELS[mode]} only takes a model.</p>
+        )}
+
+        <div className="flex items-center justify-between pt-1">
+          <p className="text-[10px] text-slate-700 ml-1">Empty fields use the mode defaults.</p>
+          <button onClick={handleReset} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors"><RotateCcw size={10} /> Defaults</button>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { UserCog, ChevronDown, Check, Settings, X, Plus, Trash2, Copy, Lock } from 'lucide-react';
+import { AppMode, PersonaProfile } from '../types';
+import { MODE_LABELS } from '../constants';
+import { PersonaStore, loadPersonaStore, savePersonaStore, listPersonas, createPersona, getModePersonaId, DEFAULT_PERSONA_ID } from '../utils/personas';
+
+interface PersonaPickerProps {
+  mode: AppMode;
+  // When provided the picker edits a per-conversation override instead of the mode default.
+  value?: string;
+  onChange?: (personaId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Modes that build a text system instruction; image and video generation take none.
+const PERSONA_MODES = [AppMode.CHAT, AppMode.VISION, AppMode.LIVE, AppMode.FAST, AppMode.CODING];
+
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({ mode, value, onChange, disabled, className = '' }) => {
+  const [store, setStore] = useState<PersonaStore>(() => loadPersonaStore());
+  const [isOpen, setIsOpen] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const personas = listPersonas(store);
+  const selectedId = value || getModePersonaId(mode, store);
+  const selected = personas.find(p => p.id === selectedId) || personas.find(p => p.id === DEFAULT_PERSONA_ID);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => { if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false); };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const updateStore = (next: PersonaStore) => {
+    setStore(next);
+    savePersonaStore(next);
+  };
+
+  const handleSelect = (id: string) => {
+    setIsOpen(false);
+    if (onChange) onChange(id);
+    else updateStore({ ...store, modeDefaults: { ...store.modeDefaults, [mode]: id } });
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        title="Persona"
+        className="flex items-center gap-2 px-3 py-1.5 bg-[#080808] border border-white/5 rounded-full text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all disabled:opacity-30"
+      >
+        <UserCog size={12} /> {selected?.name} <ChevronDown size={10} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 z-50 bg-[#080808] border border-white/10 rounded-2xl p-1.5 obsidian-shadow animate-in fade-in zoom-in duration-150">
+          {personas.map(p => (
+            <button key={p.id} onClick={() => handleSelect(p.id)} className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-[12px] text-left transition-all ${p.id === selectedId ? 'bg-white/5 text-white' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
+              <span className="truncate">{p.name}</span>
+              {p.id === selectedId && <Check size={12} className="text-indigo-400 shrink-0" />}
+            </button>
+          ))}
+          <div className="border-t border-white/5 mt-1.5 pt-1.5">
+            <button onClick={() => { setIsOpen(false); setIsManaging(true); }} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-white/5 hover:text-indigo-400 transition-all">
+              <Settings size={12} /> Manage Personas
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isManaging && <PersonaManager store={store} onSave={updateStore} onClose={() => setIsManaging(false)} />}
+    </div>
+  );
+};
+
+const PersonaManager: React.FC<{ store: PersonaStore; onSave: (store: PersonaStore) => void; onClose: () => void }> = ({ store, onSave, onClose }) => {
+  const personas = listPersonas(store);
+  const [editingId, setEditingId] = useState<string>(personas[0].id);
+  const editing = personas.find(p => p.id === editingId) || personas[0];
+
+  const patchCustom = (id: string, patch: Partial<PersonaProfile>) => {
+    onSave({ ...store, custom: store.custom.map(p => p.id === id ? { ...p, ...patch } : p) });
+  };
+
+  const handleAdd = (base?: PersonaProfile) => {
+    const persona = createPersona(base ? `${base.name} Copy` : 'Custom Persona', base?.instruction || '');
+    onSave({ ...store, custom: [...store.custom, persona] });
+    setEditingId(persona.id);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Delete persona")) return;
+    const modeDefaults = Object.fromEntries(Object.entries(store.modeDefaults).filter(([, v]) => v !== id));
+    onSave({ custom: store.custom.filter(p => p.id !== id), modeDefaults });
+    setEditingId(DEFAULT_PERSONA_ID);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 select-text">
+      <div className="bg-[#080808] border border-white/10 w-full max-w-3xl rounded-[32px] obsidian-shadow overflow-hidden animate-in fade-in zoom-in duration-300 flex flex-col max-h-[90vh]">
+        <div className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-black uppercase tracking-[0.3em] text-white">Persona Registry</h2>
+            <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">Response style applied to every system instruction</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-56 border-r border-white/5 p-3 space-y-1 overflow-y-auto no-scrollbar">
+            {personas.map(p => (
+              <button key={p.id} onClick={() => setEditingId(p.id)} className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-[12px] text-left transition-all ${p.id === editing.id ? 'bg-white/5 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                {p.builtIn && <Lock size={10} className="shrink-0 text-slate-700" />}
+                <span className="truncate">{p.name}</span>
+              </button>
+            ))}
+            <button onClick={() => handleAdd()} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-indigo-400 hover:bg-white/5 transition-all">
+              <Plus size={12} /> New Persona
+            </button>
+          </div>
+
+          <div className="flex-1 p-8 space-y-6 overflow-y-auto custom-scrollbar">
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Name</label>
+              <input
+                value={editing.name}
+                disabled={editing.builtIn}
+                onChange={(e) => patchCustom(editing.id, { name: e.target.value })}
+                className="w-full bg-[#0a0a0a] border border-white/5 rounded-2xl px-5 py-3 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none disabled:opacity-50"
+              />
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Instruction</label>
+              <textarea
+                value={editing.instruction}
+                disabled={editing.builtIn}
+                onChange={(e) => patchCustom(editing.id, { instruction: e.target.value })}
+                placeholder="Describe tone, format and constraints..."
+                className="w-full h-40 bg-[#0a0a0a] border border-white/5 rounded-2xl p-5 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none resize-none placeholder:text-slate-800 disabled:opacity-50"
+              />
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => handleAdd(editing)} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/5 transition-all"><Copy size={12} /> Duplicate</button>
+              {!editing.builtIn && (
+                <button onClick={() => handleDelete(editing.id)} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-red-500/20 text-[10px] font-black uppercase tracking-widest text-red-400 hover:bg-red-500 hover:text-white transition-all"><Trash2 size={12} /> Delete</button>
+              )}
+            </div>
+
+            <div className="pt-6 border-t border-white/5 space-y-3">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Mode Defaults</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {PERSONA_MODES.map(mode => (
+                  <div key={mode} className="flex items-center justify-between gap-3 bg-[#0a0a0a] border border-white/5 rounded-2xl px-4 py-2.5">
+                    <span className="text-[11px] font-bold text-slate-400">{MODE_LABELS[mode]}</span>
+                    <select
+                      value={getModePersonaId(mode, store)}
+                      onChange={(e) => onSave({ ...store, modeDefaults: { ...store.modeDefaults, [mode]: e.target.value } })}
+                      className="bg-transparent text-[11px] text-white outline-none"
+                    >
+                      {personas.map(p => <option key={p.id} value={p.id} className="bg-[#080808]">{p.name}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Forward, Loader2 } from 'lucide-react';
+import { Handoff } from '../types';
+import { MODE_LABELS } from '../constants';
+import { HandoffOption } from '../utils/handoff';
+
+interface SendToMenuProps {
+  options: HandoffOption[];
+  onHandoff: (handoff: Handoff) => void;
+  disabled?: boolean;
+  // Inline menus sit under a message, toolbar menus next to ConversationMenu and
+  // overlay menus on the action bar over a generated image or video.
+  placement?: 'inline' | 'toolbar' | 'overlay';
+  className?: string;
+}
+
+const PLACEMENTS = {
+  inline: { button: 'p-1.5 rounded-lg hover:text-white hover:bg-white/5 transition-all disabled:opacity-30', icon: 12, menu: 'left-0 bottom-full mb-2' },
+  toolbar: { button: 'p-2 rounded-xl text-slate-600 hover:text-white hover:bg-white/5 transition-all disabled:opacity-30', icon: 16, menu: 'right-0 top-full mt-2' },
+  overlay: { button: 'p-3 bg-white/5 hover:bg-white/10 rounded-full text-white transition-all disabled:opacity-30', icon: 20, menu: 'right-0 bottom-full mb-2' }
+};
+
+export const SendToMenu: React.FC<SendToMenuProps> = ({ options, onHandoff, disabled, placement = 'inline', className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => { if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false); };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  if (options.length === 0) return null;
+
+  // Options are rebuilt on every render, so they are told apart by key rather than identity.
+  const keyOf = (option: HandoffOption) => `${option.mode}-${option.label}`;
+
+  const handleSelect = async (option: HandoffOption) => {
+    setPending(keyOf(option));
+    setError(null);
+    try {
+      const handoff = await option.build();
+      setIsOpen(false);
+      onHandoff(handoff);
+    } catch (e) {
+      setError('Could not load the content to send');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        onClick={() => { setIsOpen(!isOpen); setError(null); }}
+        disabled={disabled}
+        title="Send to"
+        className={PLACEMENTS[placement].button}
+      >
+        <Forward size={PLACEMENTS[placement].icon} />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute ${PLACEMENTS[placement].menu} w-60 z-50 bg-[#080808] border border-white/10 rounded-2xl p-1.5 obsidian-shadow animate-in fade-in zoom-in duration-150`}>
+          <p className="px-3 pt-2 pb-1 text-[9px] font-black uppercase tracking-widest text-slate-600">Send to</p>
+          {options.map(o => (
+            <button key={keyOf(o)} onClick={() => handleSelect(o)} disabled={!!pending} className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-[12px] text-left text-slate-400 hover:bg-white/5 hover:text-white transition-all disabled:opacity-30">
+              <span className="truncate">{o.label}</span>
+              {pending === keyOf(o)
+                ? <Loader2 size={12} className="animate-spin shrink-0" />
+                : <span className="shrink-0 text-[9px] font-black uppercase tracking-widest text-indigo-400">{MODE_LABELS[o.mode]}</span>}
+            </button>
+          ))}
+          {error && <p className="px-3 py-2 text-[10px] font-bold text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, X, Server, Database, Download, Trash2, HardDrive } from 'lucide-react';
+import { AppMode } from '../types';
+import { MODE_LABELS } from '../constants';
+import { PROVIDER_OPTIONS, PROVIDER_RUNTIME, MODE_CAPABILITIES, DEFAULT_PROVIDER_ID, ProviderId, ProviderSettings, OpenAICompatibleConfig, loadProviderSettings, saveProviderSettings, createProvider } from '../providers';
+import { loadRecording, clearRecording, downloadRecording } from '../providers/fixtures';
+import { getStorageUsage, loadQuarantine, clearQuarantine, resolveBlobUrls } from '../utils/history';
+import { StorageUsage } from '../utils/storage';
+import { formatBytes } from '../utils/attachments';
+import { ModelSettings } from './ModelSettings';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ENDPOINT_FIELDS: Array<{ key: keyof OpenAICompatibleConfig; label: string; placeholder: string; type?: string }> = [
+  { key: 'baseUrl', label: 'Base URL', placeholder: 'http://localhost:11434/v1' },
+  { key: 'apiKey', label: 'API Key', placeholder: 'Optional bearer token', type: 'password' },
+  { key: 'textModel', label: 'Text Model', placeholder: 'llama3.1' },
+  { key: 'visionModel', label: 'Vision Model', placeholder: 'llava' },
+  { key: 'imageModel', label: 'Image Model', placeholder: 'Leave empty if unsupported' }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
+  const [providers, setProviders] = useState<ProviderSettings>(() => loadProviderSettings());
+  const [, setClearedAt] = useState(0);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    if (isOpen) getStorageUsage().then(setStorage).catch(() => setStorage(null));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const quarantined = loadQuarantine();
+
+  const downloadQuarantine = async () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(await resolveBlobUrls(quarantined), null, 2)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'textgpt-quarantine.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const storageRatio = storage?.quota ? Math.min(storage.usage / storage.quota, 1) : 0;
+
+  const recordedCount = PROVIDER_RUNTIME === 'record' ? Object.keys(loadRecording().fixtures).length : 0;
+
+  const updateProviders = (next: ProviderSettings) => {
+    setProviders(next);
+    saveProviderSettings(next);
+  };
+
+  const supports = (providerId: ProviderId, mode: AppMode) =>
+    createProvider(providerId, providers).capabilities.includes(MODE_CAPABILITIES[mode]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 select-text">
+      <div className="bg-[#080808] border border-white/10 w-full max-w-3xl rounded-[32px] obsidian-shadow overflow-hidden animate-in fade-in zoom-in duration-300 flex flex-col max-h-[90vh]">
+        <div className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-600/10 p-2 rounded-xl border border-indigo-500/20"><Settings size={18} className="text-indigo-400" /></div>
+            <div>
+              <h2 className="text-sm font-black uppercase tracking-[0.3em] text-white">Settings</h2>
+              <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">Stored in this browser</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-10">
+          {PROVIDER_RUNTIME !== 'live' && (
+            <section className="space-y-4">
+              <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1 flex items-center gap-2"><Database size={12} /> Fixtures</h3>
+              <div className="bg-indigo-600/5 border border-indigo-500/20 rounded-2xl p-5 flex items-center justify-between gap-4">
+                <p className="text-[11px] text-slate-400 leading-relaxed">
+                  {PROVIDER_RUNTIME === 'mock'
+                    ? 'MODEL_PROVIDER=mock: every mode replays recorded fixtures offline. Provider choices below are ignored.'
+                    : `MODEL_PROVIDER=record: ${recordedCount} exchanges captured so far.`}
+                </p>
+                {PROVIDER_RUNTIME === 'record' && (
+                  <div className="flex gap-2 shrink-0">
+                    <button onClick={downloadRecording} title="Download fixtures" className="p-2.5 rounded-xl bg-indigo-600 text-white hover:bg-indigo-500 transition-all"><Download size={14} /></button>
+                    <button onClick={() => { if (confirm("Clear recorded fixtures")) { clearRecording(); setClearedAt(Date.now()); } }} title="Clear" className="p-2.5 rounded-xl border border-white/5 text-slate-500 hover:text-red-400 transition-all"><Trash2 size={14} /></button>
+                  </div>
+                )}
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1 flex items-center gap-2"><HardDrive size={12} /> Storage</h3>
+            <div className="bg-[#0a0a0a] border border-white/5 rounded-2xl p-5 space-y-3">
+              {storage ? (
+                <>
+                  <div className="flex items-center justify-between text-[11px]">
+                    <span className="text-slate-400">{formatBytes(storage.usage)} of {formatBytes(storage.quota)} used</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-600">{storage.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage fallback'}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                    <div className={`h-full ${storageRatio > 0.9 ? 'bg-red-400' : storageRatio > 0.7 ? 'bg-amber-400' : 'bg-indigo-500'}`} style={{ width: `${Math.max(storageRatio * 100, 1)}%` }} />
+                  </div>
+                  <p className="text-[10px] text-slate-600">{storage.records} records · {storage.blobs} stored files</p>
+                  {quarantined.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 pt-3 border-t border-white/5">
+                      <p className="text-[11px] text-amber-400">{quarantined.length} corrupt records set aside</p>
+                      <div className="flex gap-2 shrink-0">
+                        <button onClick={downloadQuarantine} title="Download quarantined records" className="p-2 rounded-xl border border-white/5 text-slate-500 hover:text-white transition-all"><Download size={12} /></button>
+                        <button onClick={() => { if (confirm("Discard quarantined records")) { clearQuarantine(); setClearedAt(Date.now()); } }} title="Discard" className="p-2 rounded-xl border border-white/5 text-slate-500 hover:text-red-400 transition-all"><Trash2 size={12} /></button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-[11px] text-slate-600">Measuring…</p>
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Provider per Mode</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {Object.values(AppMode).map(mode => (
+                <div key={mode} className="flex items-center justify-between gap-3 bg-[#0a0a0a] border border-white/5 rounded-2xl px-4 py-2.5">
+                  <span className="text-[11px] font-bold text-slate-400">{MODE_LABELS[mode]}</span>
+                  <select
+                    value={providers.modeProviders[mode] || DEFAULT_PROVIDER_ID}
+                    onChange={(e) => updateProviders({ ...providers, modeProviders: { ...providers.modeProviders, [mode]: e.target.value } })}
+                    className="bg-transparent text-[11px] text-white outline-none"
+                  >
+                    {PROVIDER_OPTIONS.map(p => (
+                      <option key={p.id} value={p.id} disabled={!supports(p.id, mode)} className="bg-[#080808]">{p.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <ModelSettings providers={providers} />
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1 flex items-center gap-2"><Server size={12} /> OpenAI Compatible Endpoint</h3>
+            <p className="text-[11px] text-slate-500 leading-relaxed ml-1">
+              Any server exposing <span className="font-mono text-slate-400">/chat/completions</span> works, for example Ollama, vLLM or LM Studio. Video and live voice stay on Gemini.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {ENDPOINT_FIELDS.map(field => (
+                <label key={field.key} className={`space-y-2 ${field.key === 'baseUrl' ? 'sm:col-span-2' : ''}`}>
+                  <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest ml-1">{field.label}</span>
+                  <input
+                    type={field.type || 'text'}
+                    value={providers.openai[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => updateProviders({ ...providers, openai: { ...providers.openai, [field.key]: e.target.value } })}
+                    className="w-full bg-[#0a0a0a] border border-white/5 rounded-2xl px-5 py-3 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-800"
+                  />
+                </label>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { Keyboard, X, RotateCcw } from 'lucide-react';
+import { SHORTCUTS, ShortcutBindings, ShortcutId, comboFromEvent, formatCombo, loadShortcutBindings, resetShortcutBindings, saveShortcutBinding } from '../utils/shortcuts';
+
+interface ShortcutSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const GROUPS = [...new Set(SHORTCUTS.map(s => s.group))];
+
+// Cheat sheet of every shortcut; a row can be remapped by pressing a new combo.
+export const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ isOpen, onClose }) => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(() => loadShortcutBindings());
+  const [recording, setRecording] = useState<ShortcutId | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setBindings(loadShortcutBindings());
+    else setRecording(null);
+  }, [isOpen]);
+
+  // Captured ahead of App's listener so the combo being assigned does not also run.
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') return setRecording(null);
+      const combo = e.key === 'Backspace' || e.key === 'Delete' ? '' : comboFromEvent(e);
+      if (combo === null) return;
+      saveShortcutBinding(recording, combo);
+      setBindings(loadShortcutBindings());
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording]);
+
+  if (!isOpen) return null;
+
+  const handleReset = () => {
+    if (!confirm("Reset shortcuts")) return;
+    resetShortcutBindings();
+    setBindings(loadShortcutBindings());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div onMouseDown={e => e.stopPropagation()} className="bg-[#080808] border border-white/10 w-full max-w-2xl rounded-[32px] obsidian-shadow overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]">
+        <div className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-600/10 p-2 rounded-xl border border-indigo-500/20"><Keyboard size={18} className="text-indigo-400" /></div>
+            <div>
+              <h2 className="text-sm font-black uppercase tracking-[0.3em] text-white">Shortcuts</h2>
+              <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">Click a shortcut to remap it</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleReset} className="flex items-center gap-1.5 px-3 py-1.5 text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors"><RotateCcw size={10} /> Defaults</button>
+            <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors"><X size={20} /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+          {GROUPS.map(group => (
+            <section key={group} className="space-y-2">
+              <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1 mb-3">{group}</h3>
+              {SHORTCUTS.filter(s => s.group === group).map(s => (
+                <div key={s.id} className="flex items-center justify-between gap-3 px-1">
+                  <span className="text-[12px] text-slate-300">{s.label}</span>
+                  <button
+                    onClick={() => setRecording(recording === s.id ? null : s.id)}
+                    className={`min-w-[64px] px-2 py-1 rounded-lg border text-[10px] font-bold transition-all ${recording === s.id ? 'border-indigo-500/50 bg-indigo-600/20 text-indigo-300 animate-pulse' : 'border-white/10 bg-white/5 text-slate-400 hover:text-white'}`}
+                  >
+                    {recording === s.id ? 'Press keys' : bindings[s.id] ? formatCombo(bindings[s.id]) : 'Unset'}
+                  </button>
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+        <p className="px-8 py-4 border-t border-white/5 text-[10px] text-slate-600">While remapping, Esc cancels and Backspace clears. Combos without Ctrl, Cmd or Alt are ignored while typing.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Search, ChevronDown, ShieldCheck } from 'lucide-react';
+import { GroundingDetails, GroundingSource } from '../types';
+import { faviconUrl, groundingConfidence, sourceDomain } from '../utils/citations';
+
+const confidenceLabel = (score: number) => score >= 0.75 ? 'High' : score >= 0.4 ? 'Medium' : 'Low';
+const confidenceColor = (score: number) => score >= 0.75 ? 'bg-emerald-400' : score >= 0.4 ? 'bg-amber-400' : 'bg-red-400';
+
+export const CitationMarker: React.FC<{ index: number; source?: GroundingSource }> = ({ index, source }) => (
+  <span className="not-prose relative inline-block group/cite align-super">
+    <a
+      href={source?.uri || undefined}
+      target="_blank"
+      rel="noreferrer"
+      className="inline-flex items-center justify-center min-w-[16px] h-4 px-1 mx-0.5 rounded-md bg-indigo-600/20 text-[9px] font-black text-indigo-300 no-underline hover:bg-indigo-600 hover:text-white transition-all"
+    >
+      {index + 1}
+    </a>
+    {source && (
+      <span className="invisible opacity-0 group-hover/cite:visible group-hover/cite:opacity-100 transition-opacity absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 z-50 bg-[#080808] border border-white/10 rounded-2xl p-3 obsidian-shadow text-left">
+        <span className="flex items-center gap-2">
+          <img src={faviconUrl(source)} className="w-4 h-4 rounded shrink-0" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 truncate">{sourceDomain(source)}</span>
+        </span>
+        <span className="block mt-2 text-[12px] leading-snug text-slate-200 line-clamp-3">{source.title || source.uri}</span>
+      </span>
+    )}
+  </span>
+);
+
+interface SourcesPanelProps {
+  text: string;
+  sources: GroundingSource[];
+  grounding?: GroundingDetails;
+}
+
+export const SourcesPanel: React.FC<SourcesPanelProps> = ({ text, sources, grounding }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const confidence = groundingConfidence(text, grounding);
+  const queries = grounding?.queries || [];
+  if (!sources.length && !queries.length) return null;
+
+  return (
+    <div className="mt-6 pt-4 border-t border-white/5 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors">
+          <span className="flex -space-x-1">
+            {sources.slice(0, 4).map((s, i) => <img key={i} src={faviconUrl(s)} className="w-4 h-4 rounded-full bg-white/10 ring-2 ring-[#050505]" />)}
+          </span>
+          {sources.length} Sources <ChevronDown size={10} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        {confidence !== null && (
+          <span title="Grounding confidence" className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-600">
+            <ShieldCheck size={11} />
+            <span className="w-16 h-1 rounded-full bg-white/5 overflow-hidden"><span className={`block h-full ${confidenceColor(confidence)}`} style={{ width: `${Math.round(confidence * 100)}%` }} /></span>
+            {confidenceLabel(confidence)} {Math.round(confidence * 100)}%
+          </span>
+        )}
+      </div>
+
+      {queries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {queries.map((q, i) => (
+            <a key={i} href={`https://www.google.com/search?q=${encodeURIComponent(q)}`} target="_blank" rel="noreferrer" className="flex items-center gap-1.5 text-[10px] bg-white/5 px-3 py-1 rounded-full text-slate-400 hover:text-white transition-colors">
+              <Search size={10} /> {q}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {sources.map((s, i) => (
+            <a key={i} href={s.uri} target="_blank" rel="noreferrer" className="flex items-start gap-3 p-3 rounded-2xl bg-[#0a0a0a] border border-white/5 hover:border-indigo-500/30 transition-all">
+              <span className="text-[9px] font-black text-indigo-400 mt-0.5">{i + 1}</span>
+              <img src={faviconUrl(s)} className="w-4 h-4 rounded mt-0.5 shrink-0" />
+              <span className="min-w-0">
+                <span className="block text-[12px] text-slate-200 truncate">{s.title || 'Source'}</span>
+                <span className="block text-[10px] text-slate-600 truncate">{sourceDomain(s)}</span>
+              </span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
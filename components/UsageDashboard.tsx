@@ -0,0 +1,270 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { BarChart3, X, Download, Trash2, RotateCcw } from 'lucide-react';
+import { MODE_LABELS } from '../constants';
+import {
+  ModelPrice, PriceTable, UsageTotals, clearUsage, dayKey, downloadUsageCsv, emptyPrice, formatCost, formatTokens,
+  groupUsage, loadPrices, loadUsage, resetPrices, savePrices, totalUsage
+} from '../utils/usage';
+import { isAdmin } from '../utils/profile';
+import { BudgetAdmin } from './BudgetAdmin';
+
+export type UsageTab = 'usage' | 'budgets';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUser: string;
+  initialTab?: UsageTab;
+}
+
+const RANGES = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'All' }
+];
+
+const MODE_COLORS: Record<string, string> = {
+  CHAT: 'bg-indigo-500',
+  VISION: 'bg-sky-500',
+  LIVE: 'bg-emerald-500',
+  IMAGES: 'bg-fuchsia-500',
+  VIDEO: 'bg-amber-500',
+  FAST: 'bg-slate-400',
+  CODING: 'bg-rose-500'
+};
+
+const PRICE_FIELDS: Array<{ key: keyof ModelPrice; label: string }> = [
+  { key: 'input', label: 'Input / 1M' },
+  { key: 'output', label: 'Output / 1M' },
+  { key: 'cached', label: 'Cached / 1M' },
+  { key: 'image', label: 'Image' },
+  { key: 'videoSecond', label: 'Video sec' }
+];
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-[#050505] border border-white/5 rounded-2xl p-4 space-y-1">
+    <p className="text-[9px] font-black uppercase tracking-widest text-slate-600">{label}</p>
+    <p className="text-lg font-black text-white tracking-tight">{value}</p>
+    {detail && <p className="text-[10px] text-slate-600 font-bold">{detail}</p>}
+  </div>
+);
+
+const TotalsTable: React.FC<{ title: string; rows: Array<{ key: string; totals: UsageTotals }>; label?: (key: string) => string }> = ({ title, rows, label = (k) => k }) => (
+  <section className="space-y-3">
+    <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">{title}</h3>
+    <div className="border border-white/5 rounded-2xl overflow-hidden">
+      <table className="w-full text-[11px]">
+        <thead className="bg-[#050505] text-[9px] font-black uppercase tracking-widest text-slate-600">
+          <tr>
+            <th className="text-left px-4 py-2">Name</th>
+            <th className="text-right px-4 py-2">Requests</th>
+            <th className="text-right px-4 py-2">Input</th>
+            <th className="text-right px-4 py-2">Output</th>
+            <th className="text-right px-4 py-2">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, totals }) => (
+            <tr key={key} className="border-t border-white/5 text-slate-400">
+              <td className="px-4 py-2 text-white truncate max-w-[220px]">{label(key)}</td>
+              <td className="px-4 py-2 text-right">{totals.requests}</td>
+              <td className="px-4 py-2 text-right">{formatTokens(totals.promptTokens)}</td>
+              <td className="px-4 py-2 text-right">{formatTokens(totals.responseTokens)}</td>
+              <td className="px-4 py-2 text-right text-white font-bold">{formatCost(totals.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </section>
+);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose, currentUser, initialTab = 'usage' }) => {
+  // Budgets, and the usage and prices they are measured against, are managed by admins only.
+  const admin = isAdmin(currentUser);
+  const [tab, setTab] = useState<UsageTab>(admin ? initialTab : 'usage');
+  const [days, setDays] = useState(30);
+  const [prices, setPrices] = useState<PriceTable>(() => loadPrices());
+  const [clearedAt, setClearedAt] = useState(0);
+  // Bumped on reset so the uncontrolled price inputs pick up the defaults.
+  const [priceRevision, setPriceRevision] = useState(0);
+
+  // Re-read on every open so calls made since the last visit show up.
+  const allRecords = useMemo(() => isOpen ? loadUsage() : [], [isOpen, clearedAt]);
+
+  useEffect(() => { if (isOpen) setTab(admin ? initialTab : 'usage'); }, [isOpen, initialTab, admin]);
+
+  const records = useMemo(() => {
+    if (!days) return allRecords;
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    return allRecords.filter(r => r.timestamp >= since);
+  }, [allRecords, days]);
+
+  const totals = useMemo(() => totalUsage(records, prices), [records, prices]);
+  const byMode = useMemo(() => groupUsage(records, prices, r => r.mode), [records, prices]);
+  const byModel = useMemo(() => groupUsage(records, prices, r => r.model), [records, prices]);
+  const byDay = useMemo(() => groupUsage(records, prices, r => dayKey(r.timestamp)).sort((a, b) => b.key.localeCompare(a.key)), [records, prices]);
+  const dayModes = useMemo(() => {
+    const split = new Map<string, Array<{ key: string; totals: UsageTotals }>>();
+    byDay.forEach(d => split.set(d.key, groupUsage(records.filter(r => dayKey(r.timestamp) === d.key), prices, r => r.mode)));
+    return split;
+  }, [byDay, records, prices]);
+
+  if (!isOpen) return null;
+
+  // Bars follow cost; with no priced models they fall back to token volume.
+  const useCost = totals.cost > 0;
+  const measure = (t: UsageTotals) => useCost ? t.cost : t.promptTokens + t.responseTokens;
+  const maxDay = Math.max(...byDay.map(d => measure(d.totals)), 0);
+
+  const pricedModels = [...new Set([...Object.keys(prices), ...allRecords.map(r => r.model)])].sort();
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const next = { ...prices, [model]: { ...(prices[model] || emptyPrice()), [field]: Math.max(0, parseFloat(value) || 0) } };
+    setPrices(next);
+    savePrices(next);
+  };
+
+  const handleResetPrices = () => {
+    if (!confirm("Reset prices")) return;
+    resetPrices();
+    setPrices(loadPrices());
+    setPriceRevision(v => v + 1);
+  };
+
+  const handleClear = () => {
+    if (!confirm("Clear usage history")) return;
+    clearUsage();
+    setClearedAt(Date.now());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 select-text">
+      <div className="bg-[#080808] border border-white/10 w-full max-w-4xl rounded-[32px] obsidian-shadow overflow-hidden animate-in fade-in zoom-in duration-300 flex flex-col max-h-[90vh]">
+        <div className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-600/10 p-2 rounded-xl border border-indigo-500/20"><BarChart3 size={18} className="text-indigo-400" /></div>
+            <div>
+              <h2 className="text-sm font-black uppercase tracking-[0.3em] text-white">Usage</h2>
+              <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">Estimated from list prices</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-black p-1 rounded-xl border border-white/5">
+              {(admin ? ['usage', 'budgets'] as UsageTab[] : ['usage'] as UsageTab[]).map(t => (
+                <button key={t} onClick={() => setTab(t)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                  {t}
+                </button>
+              ))}
+            </div>
+            {tab === 'usage' && (
+              <div className="flex bg-black p-1 rounded-xl border border-white/5">
+                {RANGES.map(r => (
+                  <button key={r.days} onClick={() => setDays(r.days)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${days === r.days ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                    {r.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button onClick={() => downloadUsageCsv(records, prices)} disabled={records.length === 0} title="Export CSV" className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors disabled:opacity-30"><Download size={18} /></button>
+            <button onClick={handleClear} disabled={!admin || allRecords.length === 0} title="Clear usage" className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-red-400 transition-colors disabled:opacity-30"><Trash2 size={18} /></button>
+            <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-slate-500 hover:text-white transition-colors"><X size={20} /></button>
+          </div>
+        </div>
+
+        {tab === 'budgets' && admin ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-8">
+            <BudgetAdmin records={allRecords} prices={prices} currentUser={currentUser} />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-10">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <Stat label="Cost" value={formatCost(totals.cost)} />
+              <Stat label="Requests" value={String(totals.requests)} />
+              <Stat label="Input" value={formatTokens(totals.promptTokens)} detail={`${formatTokens(totals.cachedTokens)} cached`} />
+              <Stat label="Output" value={formatTokens(totals.responseTokens)} />
+              <Stat label="Media" value={`${totals.images} img`} detail={`${totals.videoSeconds}s video`} />
+            </div>
+
+            {records.length === 0 ? (
+              <p className="py-10 text-center text-[10px] font-black uppercase tracking-widest text-slate-700">No usage recorded in this range</p>
+            ) : (
+              <>
+                <section className="space-y-3">
+                  <div className="flex items-center justify-between ml-1">
+                    <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Daily</h3>
+                    <div className="flex flex-wrap gap-3">
+                      {byMode.map(m => (
+                        <span key={m.key} className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-widest text-slate-500">
+                          <span className={`w-2 h-2 rounded-full ${MODE_COLORS[m.key] || 'bg-slate-600'}`} />{MODE_LABELS[m.key] || m.key}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1.5">
+                    {byDay.map(d => (
+                      <div key={d.key} className="flex items-center gap-4 text-[11px]">
+                        <span className="w-24 shrink-0 text-slate-500 font-bold">{d.key}</span>
+                        <div className="flex-1 h-3 bg-white/5 rounded-full overflow-hidden flex">
+                          {dayModes.get(d.key)!.map(m => (
+                            <div key={m.key} title={`${MODE_LABELS[m.key] || m.key}: ${formatCost(m.totals.cost)}, ${m.totals.requests} requests`} className={MODE_COLORS[m.key] || 'bg-slate-600'} style={{ width: `${maxDay ? measure(m.totals) / maxDay * 100 : 0}%` }} />
+                          ))}
+                        </div>
+                        <span className="w-20 shrink-0 text-right text-slate-500">{d.totals.requests} req</span>
+                        <span className="w-20 shrink-0 text-right text-white font-bold">{useCost ? formatCost(d.totals.cost) : formatTokens(measure(d.totals))}</span>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <TotalsTable title="By Mode" rows={byMode} label={(k) => MODE_LABELS[k] || k} />
+                  <TotalsTable title="By Model" rows={byModel} />
+                </div>
+              </>
+            )}
+
+            <section className="space-y-3">
+              <div className="flex items-center justify-between ml-1">
+                <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Prices (USD)</h3>
+                {admin && <button onClick={handleResetPrices} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors"><RotateCcw size={10} /> Defaults</button>}
+              </div>
+              <div className="border border-white/5 rounded-2xl overflow-x-auto">
+                <table className="w-full text-[11px]">
+                  <thead className="bg-[#050505] text-[9px] font-black uppercase tracking-widest text-slate-600">
+                    <tr>
+                      <th className="text-left px-4 py-2">Model</th>
+                      {PRICE_FIELDS.map(f => <th key={f.key} className="text-right px-2 py-2">{f.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pricedModels.map(model => (
+                      <tr key={model} className="border-t border-white/5">
+                        <td className="px-4 py-2 text-slate-300 truncate max-w-[240px]">{model}</td>
+                        {PRICE_FIELDS.map(f => (
+                          <td key={f.key} className="px-2 py-1.5">
+                            <input
+                              key={priceRevision}
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              defaultValue={prices[model]?.[f.key] ?? 0}
+                              disabled={!admin}
+                              onChange={e => updatePrice(model, f.key, e.target.value)}
+                              className="w-20 ml-auto block bg-[#0a0a0a] border border-white/5 rounded-lg px-2 py-1 text-right text-slate-200 outline-none focus:border-indigo-500/40 disabled:opacity-60"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,71 @@
 
 
-import React, { useState } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { Video, Download, Loader2, Info, X, Zap, Clapperboard, Film, Play, Maximize2, Monitor, Cpu } from 'lucide-react';
-
-export const VideoGenInterface: React.FC = () => {
+import React, { useState, useEffect } from 'react';
+import { Video, Download, Loader2, Info, X, Zap, Clapperboard, Film, Play, Maximize2, Monitor, Cpu, Trash2 } from 'lucide-react';
+import { AppMode, FocusTarget, Handoff } from '../types';
+import { MODE_LABELS } from '../constants';
+import { saveToHistory, loadFromHistory, resolveBlobUrls } from '../utils/history';
+import { VIDEO_HISTORY_KEY, VIDEO_HISTORY_LIMIT, VideoHistoryItem } from '../utils/modeHistory';
+import { useRouteItem } from '../utils/routes';
+import { useCommands } from '../utils/commands';
+import { videoHandoffs } from '../utils/handoff';
+import { splitDataUrl } from '../utils/attachments';
+import { videoRequest } from '../utils/modeRequests';
+import { signDownloadUrl } from '../utils/apiKey';
+import { getProvider, classifyError } from '../providers';
+import { SendToMenu } from './SendToMenu';
+
+interface VideoGenInterfaceProps {
+  handoff?: Handoff | null;
+  onHandoff?: (handoff: Handoff) => void;
+  onHandoffHandled?: () => void;
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
+}
+
+export const VideoGenInterface: React.FC<VideoGenInterfaceProps> = ({ handoff, onHandoff, onHandoffHandled, focus, onFocusHandled }) => {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [status, setStatus] = useState('');
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  // Data URL of an image handed over from another mode, animated from its first frame.
+  const [firstFrame, setFirstFrame] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<VideoHistoryItem[]>(() => loadFromHistory(VIDEO_HISTORY_KEY, []));
+
+  useEffect(() => { saveToHistory(VIDEO_HISTORY_KEY, history); }, [history]);
+
+  const showTake = (item: VideoHistoryItem) => {
+    setPrompt(item.prompt);
+    setVideoUrl(item.url);
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (!focus) return;
+    const item = history.find(h => h.id === focus.itemId);
+    if (item && !isGenerating) showTake(item);
+    onFocusHandled?.();
+  }, [focus]);
+
+  // Held back while a clip renders so the take in progress keeps its prompt.
+  useEffect(() => {
+    if (handoff?.mode !== AppMode.VIDEO || isGenerating) return;
+    if (handoff.firstFrame) setFirstFrame(handoff.firstFrame);
+    if (handoff.prompt) setPrompt(handoff.prompt);
+    onHandoffHandled?.();
+  }, [handoff, isGenerating]);
+
+  useRouteItem(AppMode.VIDEO, videoUrl ? history.find(h => h.url === videoUrl)?.id : null, !!focus);
 
   const handleGenerate = async () => {
     if (!prompt.trim() || isGenerating) return;
 
+    const provider = getProvider(AppMode.VIDEO);
+
     // Mandatory API key selection check for Veo models
     const win = window as any;
-    if (win.aistudio) {
+    if (provider.id === 'gemini' && win.aistudio) {
       const hasKey = await win.aistudio.hasSelectedApiKey();
       if (!hasKey) {
         await win.aistudio.openSelectKey();
@@ -27,44 +76,25 @@ export const VideoGenInterface: React.FC = () => {
     setIsGenerating(true); setError(null); setVideoUrl(null); setStatus('System Warm-up');
 
     try {
-      // Re-initialize GoogleGenAI right before the call to pick up the updated API key
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      setStatus('Linking Veo Motion Engine');
-      // FIXED: Specify numberOfVideos: 1 in the video generation configuration.
-      let op = await ai.models.generateVideos({ 
-        model: 'veo-3.1-fast-generate-preview', 
-        prompt, 
-        config: { 
-          numberOfVideos: 1,
-          resolution: '720p', 
-          aspectRatio: '16:9' 
-        } 
-      });
-
-      while (!op.done) {
-        setStatus('Synthesizing Temporal Frames');
-        await new Promise(r => setTimeout(r, 10000));
-        op = await ai.operations.getVideosOperation({ operation: op });
-      }
-
-      const downloadUri = op.response?.generatedVideos?.[0]?.video?.uri;
-      if (downloadUri) {
-          // Append the API key to the download URL as per guidelines
-          setVideoUrl(`${downloadUri}&key=${process.env.API_KEY}`);
-          setStatus('');
-      } else {
-          setError("Engine failure: Sequence URI null.");
-      }
-    } catch (err: any) {
-      if (err.message?.includes("Requested entity was not found")) {
+      const { url } = await provider.generateVideo({ ...videoRequest(prompt, firstFrame ? splitDataUrl(await resolveBlobUrls(firstFrame)) : undefined), onStatus: setStatus });
+      setVideoUrl(url);
+      setStatus('');
+      setHistory(prev => [{ id: Date.now(), prompt, url, timestamp: Date.now() }, ...prev].slice(0, VIDEO_HISTORY_LIMIT));
+    } catch (e) {
+      const err = classifyError(e);
+      if (err.kind === 'model_not_found' || err.kind === 'auth') {
         // Handle race conditions/invalid keys by re-opening the selection dialog
         const win = window as any;
         if (win.aistudio) await win.aistudio.openSelectKey();
       }
-      setError(err.message || "Temporal logic error.");
+      setError(err.message);
     } finally { setIsGenerating(false); if (!videoUrl) setStatus(''); }
   };
 
+  useCommands([
+    { id: 'video.generate', title: 'Generate video', group: MODE_LABELS[AppMode.VIDEO], shortcut: 'send', disabled: isGenerating || !prompt.trim(), run: handleGenerate }
+  ]);
+
   return (
     <div className="h-full bg-[#020202] flex flex-col overflow-hidden font-sans relative">
       <div className="absolute inset-0 pointer-events-none">
@@ -100,6 +130,15 @@ export const VideoGenInterface: React.FC = () => {
             
             <div className="lg:col-span-4 space-y-8">
                <div className="bg-[#050505] border border-white/5 rounded-[32px] p-8 space-y-8 obsidian-shadow">
+                  {firstFrame && (
+                    <div className="space-y-4">
+                      <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">First Frame</label>
+                      <div className="relative rounded-2xl overflow-hidden border border-white/5">
+                        <img src={firstFrame} className="w-full aspect-video object-cover" alt="First frame" />
+                        <button onClick={() => setFirstFrame(null)} disabled={isGenerating} title="Remove" className="absolute top-2 right-2 p-1.5 bg-black/60 backdrop-blur-md rounded-full text-white hover:bg-black/80 transition-all disabled:opacity-30"><X size={14} /></button>
+                      </div>
+                    </div>
+                  )}
                   <div className="space-y-4">
                     <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest ml-1">Motion Prompt</label>
                     <textarea 
@@ -125,6 +164,25 @@ export const VideoGenInterface: React.FC = () => {
                     <p className="text-xs text-red-400 font-medium leading-relaxed">{error}</p>
                  </div>
                )}
+
+               {history.length > 0 && (
+                 <div className="space-y-3">
+                    <div className="flex items-center justify-between px-1">
+                      <h3 className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Previous Takes</h3>
+                      <button onClick={() => setHistory([])} className="text-slate-700 hover:text-red-400 transition-colors"><Trash2 size={14}/></button>
+                    </div>
+                    {history.map(item => (
+                      <button
+                        key={item.id}
+                        onClick={() => showTake(item)}
+                        disabled={isGenerating}
+                        className={`w-full text-left px-5 py-3 rounded-2xl border text-xs truncate transition-all ${videoUrl === item.url ? 'bg-white/5 border-indigo-500/30 text-white' : 'border-white/5 text-slate-500 hover:text-slate-300 hover:bg-white/5'}`}
+                      >
+                        {item.prompt}
+                      </button>
+                    ))}
+                 </div>
+               )}
             </div>
 
             <div className="lg:col-span-8 flex flex-col gap-8">
@@ -158,7 +216,7 @@ export const VideoGenInterface: React.FC = () => {
                {videoUrl && !isGenerating && (
                  <div className="space-y-6 animate-in zoom-in duration-1000">
                     <div className="bg-[#050505] rounded-[48px] overflow-hidden border border-white/10 obsidian-shadow aspect-video relative group">
-                       <video src={videoUrl} controls autoPlay className="w-full h-full object-cover" />
+                       <video src={signDownloadUrl(videoUrl)} controls autoPlay className="w-full h-full object-cover" />
                        <div className="absolute top-6 right-6 p-4 bg-black/50 backdrop-blur-xl rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity border border-white/10">
                           <Maximize2 size={24} className="text-white cursor-pointer" />
                        </div>
@@ -174,7 +232,8 @@ export const VideoGenInterface: React.FC = () => {
                              <span className="text-xs font-bold text-white">6 Seconds</span>
                           </div>
                        </div>
-                       <a href={videoUrl} download="textgpt-motion.mp4" className="bg-white hover:bg-slate-200 text-black px-8 py-3.5 rounded-2xl text-[11px] font-black uppercase tracking-widest flex items-center gap-3 transition-all active:scale-95 shadow-2xl shadow-white/5">
+                       {onHandoff && <SendToMenu options={videoHandoffs(signDownloadUrl(videoUrl), 'textgpt-motion.mp4', prompt)} onHandoff={onHandoff} placement="toolbar" className="ml-auto mr-3" />}
+                       <a href={signDownloadUrl(videoUrl)} download="textgpt-motion.mp4" className="bg-white hover:bg-slate-200 text-black px-8 py-3.5 rounded-2xl text-[11px] font-black uppercase tracking-widest flex items-center gap-3 transition-all active:scale-95 shadow-2xl shadow-white/5">
                           <Download size={18} /> Export Sequence
                        </a>
                     </div>
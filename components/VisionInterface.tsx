@@ -1,22 +1,49 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
 import { Eye, Upload, Loader2, ArrowRight, Scan, Shield, Activity, Image as ImageIcon, Search, Info, Plus, Send, X, MessageSquare } from 'lucide-react';
-import { saveToHistory, loadFromHistory } from '../utils/history';
+import { saveToHistory, loadFromHistory, resolveBlobUrls } from '../utils/history';
+import { visionRequest } from '../utils/modeRequests';
+import { getProvider, classifyError } from '../providers';
+import { AppMode, ChatAttachment, FocusTarget, Handoff, MessageError } from '../types';
+import { MODE_LABELS } from '../constants';
+import { createAttachmentId, fileFromUrl } from '../utils/attachments';
+import { deriveThreadTitle } from '../utils/threads';
+import { ConversationExport, createExport } from '../utils/conversationExport';
+import { VISION_SESSIONS_KEY, VISION_SESSION_LIMIT, VisionSession } from '../utils/modeHistory';
+import { useSearchHighlight } from '../utils/search';
+import { useRouteItem } from '../utils/routes';
+import { useCommands } from '../utils/commands';
+import { imageHandoffs, textHandoffs } from '../utils/handoff';
+import { MessageRenderer } from './MessageRenderer';
+import { PersonaPicker } from './PersonaPicker';
+import { ConversationMenu } from './ConversationMenu';
+import { SendToMenu } from './SendToMenu';
+import { ErrorNotice } from './ErrorNotice';
 
-const HISTORY_KEY = 'textgpt_vision_analysis_v3';
-const SYSTEM_LITERALS = "YOU MUST RESPOND USING ONLY ALPHABETIC CHARACTERS AND SPACES. DO NOT USE PUNCTUATION LIKE COLONS HYPHENS SLASHES PARENTHESES OR QUOTES. THE ONLY EXCEPTION IS DURING MATH CALCULATIONS WHERE YOU MAY USE PLUS MINUS MULTIPLY DIVIDE AND EQUALS SYMBOLS. OTHERWISE USE ONLY LETTERS.";
+const previewMimeType = (dataUrl: string) => dataUrl.slice(5, dataUrl.indexOf(';')) || 'image/jpeg';
 
 interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  isError?: boolean;
+  error?: MessageError;
 }
 
-export const VisionInterface: React.FC = () => {
+interface VisionInterfaceProps {
+  handoff?: Handoff | null;
+  onHandoff?: (handoff: Handoff) => void;
+  onHandoffHandled?: () => void;
+  focus?: FocusTarget | null;
+  onFocusHandled?: () => void;
+}
+
+export const VisionInterface: React.FC<VisionInterfaceProps> = ({ handoff, onHandoff, onHandoffHandled, focus, onFocusHandled }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [chatInput, setChatInput] = useState('');
+  const [sessions, setSessions] = useState<VisionSession[]>(() => loadFromHistory(VISION_SESSIONS_KEY, []));
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -24,6 +51,59 @@ export const VisionInterface: React.FC = () => {
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
   }, [messages, isLoading]);
 
+  useEffect(() => { saveToHistory(VISION_SESSIONS_KEY, sessions); }, [sessions]);
+
+  // Each analysed image is a session; it is saved whenever its conversation grows.
+  useEffect(() => {
+    if (!preview || messages.length === 0) return;
+    const id = sessionId || `vision_${Date.now().toString(36)}`;
+    if (!sessionId) setSessionId(id);
+    setSessions(prev => {
+      const existing = prev.find(s => s.id === id);
+      if (existing && existing.messages.length === messages.length) return prev;
+      const now = Date.now();
+      const session: VisionSession = { id, name: selectedFile?.name || existing?.name || 'target', image: preview, messages, createdAt: existing?.createdAt || now, updatedAt: now };
+      return [session, ...prev.filter(s => s.id !== id)].slice(0, VISION_SESSION_LIMIT);
+    });
+  }, [messages]);
+
+  const [highlightId, setHighlightId] = useSearchHighlight();
+
+  // Saved images come back from storage as object URLs; analysis and export need the data URL.
+  const showImage = (image: string) => {
+    setPreview(image);
+    resolveBlobUrls(image).then(dataUrl => setPreview(current => current === image ? dataUrl : current));
+  };
+
+  useEffect(() => {
+    if (!focus) return;
+    const session = sessions.find(s => s.id === focus.sessionId);
+    if (session && !isLoading) {
+      setSelectedFile(null);
+      showImage(session.image);
+      setMessages(session.messages);
+      setSessionId(session.id);
+      setChatInput('');
+      if (focus.messageIndex !== undefined) setHighlightId(`vision-msg-${focus.messageIndex}`);
+    }
+    onFocusHandled?.();
+  }, [focus]);
+
+  useRouteItem(AppMode.VISION, sessionId, !!focus);
+
+  // A handed-over image starts a new session, with any suggested question ready in the input.
+  // One that arrives mid-analysis waits for the analysis to finish.
+  useEffect(() => {
+    if (handoff?.mode !== AppMode.VISION || isLoading) return;
+    setSelectedFile(null);
+    showImage(handoff.image);
+    setMessages([]);
+    setSessionId(null);
+    setChatInput(handoff.prompt || '');
+    fileFromUrl(handoff.image, handoff.name || 'target').then(setSelectedFile);
+    onHandoffHandled?.();
+  }, [handoff, isLoading]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
@@ -32,6 +112,7 @@ export const VisionInterface: React.FC = () => {
       reader.onloadend = () => setPreview(reader.result as string);
       reader.readAsDataURL(file);
       setMessages([]);
+      setSessionId(null);
       setChatInput('');
     }
   };
@@ -43,30 +124,67 @@ export const VisionInterface: React.FC = () => {
     const userMsg: ChatMessage = { role: 'user', text: prompt };
     setMessages(prev => [...prev, userMsg]);
     setChatInput('');
-    setIsLoading(true);
+    await runAnalysis(prompt);
+  };
 
+  // Asks about the current image and appends the reply, or the failure in its place.
+  const runAnalysis = async (prompt: string) => {
+    setIsLoading(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        config: {
-          systemInstruction: `You are an elite vision processor. ${SYSTEM_LITERALS}`
-        },
-        contents: {
-          parts: [
-            { inlineData: { mimeType: selectedFile?.type || 'image/jpeg', data: preview.split(',')[1] } }, 
-            { text: prompt }
-          ]
-        }
-      });
+      const provider = getProvider(AppMode.VISION);
+      const image = await resolveBlobUrls(preview);
+      const response = await provider.generateText(visionRequest(provider.models, { mimeType: previewMimeType(image), data: image.split(',')[1] }, prompt));
       setMessages(prev => [...prev, { role: 'model', text: response.text || "Empty telemetry" }]);
-    } catch (error) { 
-      setMessages(prev => [...prev, { role: 'model', text: "Telemetry failure Neural link offline" }]);
+    } catch (e) {
+      const error = classifyError(e).toMessageError();
+      setMessages(prev => [...prev, { role: 'model', text: error.message, isError: true, error }]);
     } finally { 
       setIsLoading(false); 
     }
   };
 
+  // Only the latest reply can be retried; it is replaced by a fresh answer to the same prompt.
+  const handleRetry = async () => {
+    const prompt = messages[messages.length - 2];
+    if (!preview || isLoading || prompt?.role !== 'user') return;
+    setMessages(prev => prev.slice(0, -1));
+    await runAnalysis(prompt.text);
+  };
+
+  // The analysed image travels on the first user turn so every export format shows it.
+  const getExport = () => {
+    if (!preview || messages.length === 0) return null;
+    const image: ChatAttachment = {
+      id: createAttachmentId(),
+      name: selectedFile?.name || 'target',
+      mimeType: previewMimeType(preview),
+      size: selectedFile?.size || Math.floor(preview.length * 3 / 4),
+      url: preview
+    };
+    return createExport(AppMode.VISION, deriveThreadTitle(messages[0].text), messages.map((m, i) => i === 0 ? { ...m, attachments: [image] } : m));
+  };
+
+  const handleImport = (conv: ConversationExport) => {
+    const image = conv.messages.flatMap(m => m.attachments || []).find(a => a.url && a.mimeType.startsWith('image/'));
+    if (!image) throw new Error('Export has no image to analyse');
+    setSelectedFile(null);
+    setPreview(image.url);
+    setSessionId(null);
+    setMessages(conv.messages.map(m => ({ role: m.role, text: m.text, isError: m.isError, error: m.error })));
+  };
+
+  // Before the first analysis, sending runs the default scan.
+  useCommands([
+    {
+      id: 'vision.send',
+      title: messages.length ? 'Send question' : 'Analyze image',
+      group: MODE_LABELS[AppMode.VISION],
+      shortcut: 'send',
+      disabled: !preview || isLoading || (messages.length > 0 && !chatInput.trim()),
+      run: () => messages.length ? startAnalysis(chatInput) : startAnalysis()
+    }
+  ]);
+
   return (
     <div className="h-full bg-[#020202] flex flex-col overflow-hidden font-sans">
       <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
@@ -131,6 +249,11 @@ export const VisionInterface: React.FC = () => {
 
         {/* Right Area */}
         <div className="flex-1 flex flex-col bg-[#020202] relative min-w-0 h-full">
+           <div className="absolute top-4 right-4 z-20 flex items-center gap-2">
+             {preview && onHandoff && <SendToMenu options={imageHandoffs(preview, selectedFile?.name || 'target', AppMode.VISION)} onHandoff={onHandoff} placement="toolbar" />}
+             <ConversationMenu mode={AppMode.VISION} getExport={getExport} onImport={handleImport} disabled={isLoading} />
+             <PersonaPicker mode={AppMode.VISION} disabled={isLoading} />
+           </div>
            <div className="flex-1 overflow-y-auto p-6 md:p-12 space-y-8 custom-scrollbar scroll-smooth" ref={scrollRef}>
               {messages.length === 0 ? (
                 <div className="h-full flex flex-col items-center justify-center text-center max-w-xs mx-auto space-y-6">
@@ -154,14 +277,23 @@ export const VisionInterface: React.FC = () => {
                 </div>
               ) : (
                 messages.map((msg, i) => (
-                  <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2`}>
-                     <div className={`p-6 md:p-8 rounded-[28px] text-[14px] leading-relaxed shadow-2xl ${
+                  <div key={i} id={`vision-msg-${i}`} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-in fade-in slide-in-from-bottom-2`}>
+                     <div className={`p-6 md:p-8 rounded-[28px] text-[14px] leading-relaxed shadow-2xl ${highlightId === `vision-msg-${i}` ? 'ring-1 ring-indigo-400/70 ' : ''}${
                         msg.role === 'user' 
                          ? 'bg-indigo-600 text-white rounded-br-none max-w-[85%]' 
-                         : 'bg-[#080808] text-slate-200 border border-white/5 rounded-bl-none max-w-[95%] font-mono text-[13px]'
+                         : 'bg-[#080808] text-slate-200 border border-white/5 rounded-bl-none max-w-[95%] min-w-0 text-[13px]'
                      }`}>
-                        <div className="whitespace-pre-wrap">{msg.text}</div>
+                        {msg.isError && msg.error
+                          ? <ErrorNotice error={msg.error} onRetry={i === messages.length - 1 ? handleRetry : undefined} disabled={isLoading} />
+                          : msg.role === 'model'
+                          ? <MessageRenderer text={msg.text} className="text-slate-200 text-[13px]" onOpenInWorkspace={onHandoff ? (file) => onHandoff({ mode: AppMode.CODING, file }) : undefined} />
+                          : <div className="whitespace-pre-wrap">{msg.text}</div>}
                      </div>
+                     {msg.role === 'model' && !msg.isError && onHandoff && (
+                       <div className="flex items-center gap-1 mt-2 px-2 text-slate-600">
+                         <SendToMenu options={textHandoffs(msg.text, AppMode.VISION)} onHandoff={onHandoff} />
+                       </div>
+                     )}
                   </div>
                 ))
               )}
@@ -8,6 +8,16 @@ export const AppMode = {
   VIDEO: 'VIDEO'
 };
 
+export const MODE_LABELS: Record<string, string> = {
+  CHAT: 'Nexus Node',
+  VISION: 'Optic Scanner',
+  LIVE: 'Nebula Link',
+  IMAGES: 'Forge Studio',
+  VIDEO: 'Veo Motion',
+  FAST: 'Quick Utilities',
+  CODING: 'Code Workspace'
+};
+
 export const ImageResolution = {
   RES_1K: '1K',
   RES_2K: '2K',
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AppMode } from '../types';
+import { ANY, loadBudgets, saveBudgets } from '../utils/budgets';
+import { clearUsage } from '../utils/usage';
+import { clearProfile, saveProfile } from '../utils/profile';
+import { createMockProvider } from './mock';
+import { withUsage } from './usage';
+import { withBudget } from './budget';
+import { fixtureKey } from './fixtures';
+
+const ADMIN = 'admin@example.com';
+
+const request = { model: 'mock-live', systemInstruction: 'Say hello.', voiceName: 'Kore' };
+
+// A Live session whose first turn reports 150 tokens, then keeps talking.
+const provider = withBudget(withUsage(createMockProvider({
+  version: 1,
+  fixtures: {
+    [fixtureKey('live', request)]: {
+      kind: 'live',
+      request,
+      messages: [
+        { serverContent: { outputTranscription: { text: 'Hello!' } } },
+        { serverContent: { turnComplete: true }, usageMetadata: { promptTokenCount: 100, responseTokenCount: 50 } },
+        { serverContent: { outputTranscription: { text: 'Still here.' } } }
+      ]
+    }
+  }
+}), AppMode.LIVE), AppMode.LIVE);
+
+const signIn = (email: string) => saveProfile({ email, name: email, picture: '' });
+
+const setTokenBudget = (limit: number) =>
+  saveBudgets([{ id: 'budget_live', user: ANY, mode: AppMode.LIVE, metric: 'tokens', period: 'day', limit }]);
+
+const runSession = async () => {
+  const events: string[] = [];
+  await provider.connectLive({
+    ...request,
+    callbacks: {
+      onmessage: (msg) => events.push(msg.serverContent?.outputTranscription?.text || 'message'),
+      onerror: (e) => events.push(`error: ${e.error.kind}`),
+      onclose: () => events.push('close')
+    }
+  });
+  await Promise.resolve();
+  return events;
+};
+
+describe('budgets', () => {
+  beforeEach(() => {
+    vi.stubEnv('ADMIN_EMAILS', `other@example.com, ${ADMIN}`);
+    signIn(ADMIN);
+    saveBudgets([]);
+    clearUsage();
+  });
+
+  afterEach(() => {
+    clearProfile();
+    vi.unstubAllEnvs();
+  });
+
+  it('can only be changed by an admin', () => {
+    signIn('member@example.com');
+    expect(() => setTokenBudget(100)).toThrow('Only an admin');
+    clearProfile();
+    expect(() => setTokenBudget(100)).toThrow('Only an admin');
+    expect(loadBudgets()).toEqual([]);
+  });
+
+  it('end a Live session once its usage crosses a limit', async () => {
+    setTokenBudget(100);
+    expect(await runSession()).toEqual(['Hello!', 'message', 'error: budget', 'close']);
+  });
+
+  it('refuse a new Live session once a limit is used up', async () => {
+    setTokenBudget(100);
+    await runSession();
+    await expect(provider.connectLive({ ...request, callbacks: { onmessage: () => {} } })).rejects.toMatchObject({ kind: 'budget' });
+  });
+
+  it('leave a Live session running while under the limit', async () => {
+    setTokenBudget(1000);
+    expect(await runSession()).toEqual(['Hello!', 'message', 'Still here.']);
+  });
+});
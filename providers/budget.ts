@@ -0,0 +1,66 @@
+import { AppMode } from '../types';
+import { budgetMessage, budgetStatuses } from '../utils/budgets';
+import { activeUserId } from '../utils/profile';
+import { ProviderError } from './errors';
+import { LiveConnection, ModelProvider } from './types';
+
+// Refuses new calls in `mode` once a budget covering the signed-in user is used up.
+// Limits are checked before each request, so the call that crosses one still completes.
+// Live sessions run open-ended, so they are also checked as their usage arrives.
+export const withBudget = (provider: ModelProvider, mode: AppMode): ModelProvider => {
+  const exceededBudget = () => budgetStatuses(activeUserId(), mode).find(s => s.level === 'exceeded');
+  const check = () => {
+    const exceeded = exceededBudget();
+    if (exceeded) throw new ProviderError('budget', budgetMessage(exceeded));
+  };
+
+  return {
+    ...provider,
+
+    async generateText(req) {
+      check();
+      return provider.generateText(req);
+    },
+
+    async *streamText(req) {
+      check();
+      yield* provider.streamText(req);
+    },
+
+    async generateImage(req) {
+      check();
+      return provider.generateImage(req);
+    },
+
+    async generateVideo(req) {
+      check();
+      return provider.generateVideo(req);
+    },
+
+    async connectLive(req) {
+      check();
+      const { callbacks } = req;
+      let connection: LiveConnection | null = null;
+      let stopped = false;
+      connection = await provider.connectLive({
+        ...req,
+        callbacks: {
+          ...callbacks,
+          onmessage: (msg) => {
+            if (stopped) return;
+            callbacks.onmessage(msg);
+            // withUsage has already recorded this message's usage.
+            const exceeded = msg?.usageMetadata && exceededBudget();
+            if (!exceeded) return;
+            stopped = true;
+            const error = new ProviderError('budget', budgetMessage(exceeded));
+            callbacks.onerror?.(new ErrorEvent('error', { error, message: error.message }));
+            connection?.close();
+          }
+        }
+      });
+      if (stopped) connection.close();
+      return connection;
+    }
+  };
+};
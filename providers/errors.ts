@@ -0,0 +1,109 @@
+import { ErrorKind, MessageError } from '../types';
+
+// Every provider failure is reported as a ProviderError so modes can show a
+// specific message and decide whether trying again makes sense.
+
+export const ERROR_MESSAGES: Record<ErrorKind, string> = {
+  auth: 'The API key was rejected. Check it in the key settings.',
+  quota: 'Rate limit or quota reached. Wait a moment and try again.',
+  safety: 'The response was blocked by safety filters.',
+  network: 'Could not reach the model service. Check your connection.',
+  model_not_found: 'The selected model is not available for this key.',
+  malformed_json: 'The model returned malformed JSON.',
+  server: 'The model service had a temporary problem.',
+  budget: 'A usage budget for this mode has been reached.',
+  unknown: 'Something went wrong while generating a response.'
+};
+
+// Worth retrying automatically; the rest need the user to change something first.
+const TRANSIENT: ErrorKind[] = ['quota', 'network', 'server'];
+
+interface ProviderErrorOptions {
+  status?: number;
+  categories?: string[];
+  retryAfterMs?: number;
+  detail?: string;
+}
+
+export class ProviderError extends Error {
+  kind: ErrorKind;
+  status?: number;
+  // Safety blocks name the harm categories that triggered them.
+  categories?: string[];
+  retryAfterMs?: number;
+  // The raw provider message, kept for the details line.
+  detail?: string;
+
+  constructor(kind: ErrorKind, message: string = ERROR_MESSAGES[kind], options: ProviderErrorOptions = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    Object.assign(this, options);
+  }
+
+  get retryable() {
+    return TRANSIENT.includes(this.kind);
+  }
+
+  toMessageError(): MessageError {
+    return { kind: this.kind, message: this.message, categories: this.categories, detail: this.detail };
+  }
+}
+
+export const isAbortError = (err: any) => err?.name === 'AbortError';
+
+const kindForStatus = (status: number): ErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'model_not_found';
+  if (status === 408) return 'network';
+  if (status === 429) return 'quota';
+  if (status >= 500) return 'server';
+  return null;
+};
+
+// Google APIs put a canonical status name inside the JSON error body.
+const STATUS_NAMES: Record<string, ErrorKind> = {
+  UNAUTHENTICATED: 'auth',
+  PERMISSION_DENIED: 'auth',
+  RESOURCE_EXHAUSTED: 'quota',
+  NOT_FOUND: 'model_not_found',
+  UNAVAILABLE: 'server',
+  INTERNAL: 'server',
+  DEADLINE_EXCEEDED: 'server'
+};
+
+const parseBody = (message: string): any => {
+  const start = message.indexOf('{');
+  if (start === -1) return null;
+  try {
+    return JSON.parse(message.slice(start));
+  } catch (e) {
+    return null;
+  }
+};
+
+// RetryInfo details carry a delay such as "32s".
+const retryAfterFrom = (body: any): number | undefined => {
+  const delay = body?.error?.details?.find((d: any) => d?.retryDelay)?.retryDelay;
+  const seconds = typeof delay === 'string' ? parseFloat(delay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number) =>
+  new ProviderError(kindForStatus(status) || 'unknown', undefined, { status, detail, retryAfterMs });
+
+export const classifyError = (err: any): ProviderError => {
+  if (err instanceof ProviderError) return err;
+  const detail = String(err?.message || err || '');
+  if (err instanceof SyntaxError) return new ProviderError('malformed_json', undefined, { detail });
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(detail)) return new ProviderError('network', undefined, { detail });
+
+  const body = parseBody(detail);
+  const status = typeof err?.status === 'number' ? err.status : body?.error?.code;
+  const options = { status, detail: body?.error?.message || detail, retryAfterMs: retryAfterFrom(body) };
+  // Invalid keys come back as 400 INVALID_ARGUMENT, so the reason text decides.
+  if (/API key not valid|API_KEY_INVALID/i.test(detail)) return new ProviderError('auth', undefined, options);
+  if (/Requested entity was not found/i.test(detail)) return new ProviderError('model_not_found', undefined, options);
+  const kind = STATUS_NAMES[body?.error?.status] || (status ? kindForStatus(status) : null);
+  return new ProviderError(kind || 'unknown', undefined, options);
+};
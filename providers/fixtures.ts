@@ -0,0 +1,79 @@
+import { saveToHistory, loadFromHistory, clearHistory, resolveBlobUrls } from '../utils/history';
+import { defineHistorySchema, isPlainObject } from '../utils/schemas';
+import { TextChunk, TextResponse, ImageResponse } from './types';
+
+export const FIXTURE_VERSION = 1;
+export const RECORDING_KEY = 'textgpt_fixture_recording';
+
+export type FixtureKind = 'text' | 'stream' | 'image' | 'video' | 'live';
+
+export type FixtureEntry =
+  | { kind: 'text'; request: any; response: TextResponse }
+  | { kind: 'stream'; request: any; chunks: TextChunk[] }
+  | { kind: 'image'; request: any; response: ImageResponse }
+  | { kind: 'video'; request: any; statuses: string[]; url: string }
+  | { kind: 'live'; request: any; messages: any[] };
+
+export interface FixtureFile {
+  version: number;
+  fixtures: Record<string, FixtureEntry>;
+}
+
+defineHistorySchema({
+  key: RECORDING_KEY,
+  version: 1,
+  legacyKeys: ['textgpt_fixture_recording_v1'],
+  validate: (file) => isPlainObject(file) && isPlainObject(file.fixtures)
+});
+
+// Key order must not affect the fixture key, so objects are serialised sorted.
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// FNV-1a; short, deterministic and good enough to tell requests apart.
+const hash = (input: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+// Drops transport-only fields (abort signals, callbacks) before keying a request.
+export const describeRequest = (request: Record<string, any>) =>
+  Object.fromEntries(Object.entries(request).filter(([, v]) => typeof v !== 'function' && !(v instanceof AbortSignal)));
+
+// The model id is left out of the key: recordings hold the real provider's ids
+// while replays send the mock's, and the rest of the request tells calls apart.
+export const fixtureKey = (kind: FixtureKind, request: Record<string, any>): string => {
+  const { model: _model, ...rest } = describeRequest(request);
+  return `${kind}_${hash(stableStringify(rest))}`;
+};
+
+export const loadRecording = (): FixtureFile =>
+  loadFromHistory(RECORDING_KEY, { version: FIXTURE_VERSION, fixtures: {} });
+
+export const recordFixture = (key: string, entry: FixtureEntry) => {
+  const file = loadRecording();
+  saveToHistory(RECORDING_KEY, { ...file, fixtures: { ...file.fixtures, [key]: entry } });
+};
+
+export const clearRecording = () => clearHistory(RECORDING_KEY);
+
+// Browsers cannot write into the repo, so recordings leave as a download that
+// is committed over fixtures/providerFixtures.json.
+export const downloadRecording = async () => {
+  const blob = new Blob([JSON.stringify(await resolveBlobUrls(loadRecording()), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'providerFixtures.json';
+  a.click();
+  URL.revokeObjectURL(url);
+};
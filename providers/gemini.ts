@@ -0,0 +1,188 @@
+import {
+  FileState, FinishReason, GenerateContentConfig, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI,
+  HarmBlockThreshold, HarmCategory, HarmProbability, ImageConfig, Modality, SafetyRating, UsageMetadata
+} from '@google/genai';
+import { ImageResolution } from '../types';
+import { getApiKey } from '../utils/apiKey';
+import { HarmCategoryId, ModelProvider, TextRequest, TextChunk, UsageReport } from './types';
+import { ProviderError } from './errors';
+
+// A fresh client per call picks up a key selected after page load.
+const client = () => new GoogleGenAI({ apiKey: getApiKey() });
+
+// Veo 3.1 renders 8 second clips unless durationSeconds is set.
+const VEO_CLIP_SECONDS = 8;
+
+// usageMetadata on responses, stream chunks and Live messages. Thinking tokens
+// are billed as output; promptTokenCount already includes cached tokens.
+export const fromGeminiUsage = (model: string, meta: GenerateContentResponseUsageMetadata & UsageMetadata = {}): UsageReport => ({
+  model,
+  promptTokens: meta.promptTokenCount || 0,
+  responseTokens: (meta.candidatesTokenCount || meta.responseTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  cachedTokens: meta.cachedContentTokenCount || 0
+});
+
+const BLOCK_REASONS: FinishReason[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII, FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+const isFlagged = (r: SafetyRating) => r.blocked || r.probability === HarmProbability.HIGH || r.probability === HarmProbability.MEDIUM;
+
+const harmLabel = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+// A blocked prompt or reply otherwise comes back as an empty success.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const candidate = response.candidates?.[0];
+  const reason = response.promptFeedback?.blockReason || (BLOCK_REASONS.includes(candidate?.finishReason) ? candidate.finishReason : null);
+  if (!reason) return;
+  const ratings: SafetyRating[] = [...(response.promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+  const categories = ratings.filter(r => isFlagged(r) && r.category).map(r => harmLabel(r.category!));
+  throw new ProviderError('safety', undefined, { categories: [...new Set(categories)], detail: String(reason) });
+};
+
+const HARM_CATEGORIES: Record<HarmCategoryId, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT
+};
+
+const buildConfig = (req: TextRequest): GenerateContentConfig => {
+  const config: GenerateContentConfig = {};
+  if (req.systemInstruction) config.systemInstruction = req.systemInstruction;
+  if (req.useSearch) config.tools = [{ googleSearch: {} }];
+  if (req.responseMimeType) config.responseMimeType = req.responseMimeType;
+  if (req.responseSchema) config.responseSchema = req.responseSchema;
+  const params = req.params || {};
+  if (params.temperature !== undefined) config.temperature = params.temperature;
+  if (params.topP !== undefined) config.topP = params.topP;
+  if (params.maxOutputTokens !== undefined) config.maxOutputTokens = params.maxOutputTokens;
+  if (params.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: params.thinkingBudget };
+  const safety = Object.entries(params.safety || {});
+  if (safety.length) config.safetySettings = safety.map(([category, threshold]) => ({ category: HARM_CATEGORIES[category as HarmCategoryId], threshold: HarmBlockThreshold[threshold] }));
+  if (req.signal) config.abortSignal = req.signal;
+  return config;
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: ['chat', 'stream', 'search', 'vision', 'json', 'image', 'video', 'live', 'files'],
+  models: {
+    chat: 'gemini-3-pro-preview',
+    chatSearch: 'gemini-3-flash-preview',
+    fast: 'gemini-3-flash-preview',
+    vision: 'gemini-3-pro-preview',
+    code: 'gemini-3-pro-preview',
+    image: 'gemini-2.5-flash-image',
+    imageHd: 'gemini-3-pro-image-preview',
+    video: 'veo-3.1-fast-generate-preview',
+    live: 'gemini-2.5-flash-native-audio-preview-12-2025'
+  },
+
+  async generateText(req) {
+    const response = await client().models.generateContent({
+      model: req.model,
+      contents: [...(req.history || []), { role: 'user', parts: req.message }],
+      config: buildConfig(req)
+    });
+    assertNotBlocked(response);
+    return {
+      text: response.text || '',
+      groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+      usage: response.usageMetadata && fromGeminiUsage(req.model, response.usageMetadata)
+    };
+  },
+
+  async *streamText(req): AsyncGenerator<TextChunk> {
+    const chat = client().chats.create({ model: req.model, config: buildConfig(req), history: req.history });
+    const stream = await chat.sendMessageStream({ message: req.message });
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      yield {
+        text: chunk.text || '',
+        groundingMetadata: chunk.candidates?.[0]?.groundingMetadata,
+        usage: chunk.usageMetadata && fromGeminiUsage(req.model, chunk.usageMetadata)
+      };
+    }
+  },
+
+  async generateImage(req) {
+    const hd = req.resolution !== ImageResolution.RES_1K;
+    const imageConfig: ImageConfig = { aspectRatio: req.aspectRatio || '1:1' };
+    if (hd) imageConfig.imageSize = req.resolution;
+    const model = req.model || (hd ? geminiProvider.models.imageHd : geminiProvider.models.image);
+    const response = await client().models.generateContent({
+      model,
+      contents: { parts: [{ text: req.prompt }] },
+      config: { imageConfig }
+    });
+    assertNotBlocked(response);
+    // Iterating through all parts to find the image part as per guidelines
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return {
+          dataUrl: `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`,
+          usage: { ...fromGeminiUsage(model, response.usageMetadata), images: 1 }
+        };
+      }
+    }
+    throw new Error('Synthesis engine returned null data.');
+  },
+
+  async generateVideo(req) {
+    const ai = client();
+    const model = req.model || geminiProvider.models.video;
+    req.onStatus?.('Linking Veo Motion Engine');
+    let op = await ai.models.generateVideos({
+      model,
+      prompt: req.prompt,
+      image: req.image ? { imageBytes: req.image.data, mimeType: req.image.mimeType } : undefined,
+      config: { numberOfVideos: 1, resolution: req.resolution || '720p', aspectRatio: req.aspectRatio || '16:9' }
+    });
+    while (!op.done) {
+      req.onStatus?.('Synthesizing Temporal Frames');
+      await new Promise(r => setTimeout(r, 10000));
+      op = await ai.operations.getVideosOperation({ operation: op });
+    }
+    const downloadUri = op.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadUri) throw new Error('Engine failure: Sequence URI null.');
+    // The key is added by signDownloadUrl at playback so it never reaches history.
+    return {
+      url: downloadUri,
+      usage: { ...fromGeminiUsage(model), videoSeconds: VEO_CLIP_SECONDS }
+    };
+  },
+
+  connectLive(req) {
+    return client().live.connect({
+      model: req.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: req.systemInstruction,
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: req.voiceName } },
+          // Native audio models pick the spoken language themselves and reject a language code.
+          ...(req.languageCode && !req.model.includes('native-audio') ? { languageCode: req.languageCode } : {})
+        },
+        ...(req.transcribe ? { inputAudioTranscription: {}, outputAudioTranscription: {} } : {}),
+        ...(req.tools?.length ? {
+          tools: [{ functionDeclarations: req.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+        } : {})
+      },
+      callbacks: req.callbacks
+    });
+  },
+
+  async uploadFile(file) {
+    const ai = client();
+    let uploaded = await ai.files.upload({ file, config: { mimeType: file.type, displayName: file.name } });
+    // Audio and video stay PROCESSING for a while and cannot be referenced until ACTIVE.
+    while (uploaded.state === FileState.PROCESSING) {
+      await new Promise(r => setTimeout(r, 2000));
+      uploaded = await ai.files.get({ name: uploaded.name! });
+    }
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) throw new Error(`Upload failed for ${file.name}`);
+    return { uri: uploaded.uri, mimeType: uploaded.mimeType || file.type, expiresAt: uploaded.expirationTime ? Date.parse(uploaded.expirationTime) : undefined };
+  }
+};
@@ -0,0 +1,88 @@
+import { AppMode } from '../types';
+import { saveToHistory, loadFromHistory } from '../utils/history';
+import { defineHistorySchema, isPlainObject } from '../utils/schemas';
+import { geminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createMockProvider } from './mock';
+import { withRecording } from './recording';
+import { withUsage } from './usage';
+import { withRetries } from './retry';
+import { withBudget } from './budget';
+import { withModeSettings } from './modeSettings';
+import { FixtureFile } from './fixtures';
+import providerFixtures from '../fixtures/providerFixtures.json';
+import { ModelProvider, ProviderCapability, ProviderId, ProviderSettings } from './types';
+
+export * from './types';
+export * from './errors';
+
+export const PROVIDERS_KEY = 'textgpt_providers';
+
+// MODEL_PROVIDER=mock replays fixtures/providerFixtures.json for every mode;
+// MODEL_PROVIDER=record wraps the configured providers and captures new fixtures.
+export type ProviderRuntime = 'live' | 'mock' | 'record';
+export const PROVIDER_RUNTIME: ProviderRuntime =
+  process.env.MODEL_PROVIDER === 'mock' || process.env.MODEL_PROVIDER === 'record' ? process.env.MODEL_PROVIDER : 'live';
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+export const PROVIDER_OPTIONS: Array<{ id: ProviderId; label: string }> = [
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'openai-compatible', label: 'OpenAI Compatible' }
+];
+
+// The capability a provider needs before it can back a given mode.
+export const MODE_CAPABILITIES: Record<AppMode, ProviderCapability> = {
+  [AppMode.CHAT]: 'stream',
+  [AppMode.VISION]: 'vision',
+  [AppMode.LIVE]: 'live',
+  [AppMode.IMAGES]: 'image',
+  [AppMode.VIDEO]: 'video',
+  [AppMode.FAST]: 'chat',
+  [AppMode.CODING]: 'json'
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  modeProviders: {},
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', textModel: 'llama3.1', visionModel: 'llava', imageModel: '' }
+};
+
+defineHistorySchema({
+  key: PROVIDERS_KEY,
+  version: 1,
+  legacyKeys: ['textgpt_providers_v1'],
+  validate: (settings) => isPlainObject(settings) && isPlainObject(settings.modeProviders) && isPlainObject(settings.openai)
+});
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const saved = loadFromHistory(PROVIDERS_KEY, null);
+  return {
+    modeProviders: saved?.modeProviders || {},
+    openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...saved?.openai }
+  };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => saveToHistory(PROVIDERS_KEY, settings);
+
+export const createProvider = (id: ProviderId, settings: ProviderSettings = loadProviderSettings()): ModelProvider =>
+  id === 'openai-compatible' ? createOpenAICompatibleProvider(settings.openai) : geminiProvider;
+
+// Wraps the provider configured for `mode` in the shared chain. Usage is recorded
+// outside the fixture recorder so replays are metered like live calls, and outside
+// the retries so only the attempt that succeeded is counted. Budgets are checked
+// first, so a blocked call never reaches the provider.
+// Fixtures sit outside the mode's Settings in both runtimes: a recording keeps the
+// request as the mode built it, before Settings add a model or parameters, and the
+// mock answers that same request whatever Settings hold.
+export const buildProvider = (runtime: ProviderRuntime, mode: AppMode, configured: () => ModelProvider): ModelProvider => {
+  const provider = runtime === 'mock'
+    ? createMockProvider(providerFixtures as FixtureFile)
+    : runtime === 'record' ? withRecording(withModeSettings(configured(), mode)) : withModeSettings(configured(), mode);
+  return withBudget(withUsage(withRetries(provider), mode), mode);
+};
+
+// Resolved at request time so a provider switch applies without remounting the mode.
+export const getProvider = (mode: AppMode): ModelProvider =>
+  buildProvider(PROVIDER_RUNTIME, mode, () => {
+    const settings = loadProviderSettings();
+    return createProvider(settings.modeProviders[mode] || DEFAULT_PROVIDER_ID, settings);
+  });
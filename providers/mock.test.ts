@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { AppMode, ImageResolution } from '../types';
+import { DEFAULT_LIVE_CONFIG } from '../utils/liveConfig';
+import { chatRequest, codeRequest, fastPrompt, fastRequest, imageRequest, liveRequest, videoRequest, visionRequest } from '../utils/modeRequests';
+import { resetModeSettings, saveModeSettings } from '../utils/modelSettings';
+import { createMockProvider } from './mock';
+import { geminiProvider } from './gemini';
+import { FixtureEntry, FixtureFile, FixtureKind, clearRecording, fixtureKey, loadRecording } from './fixtures';
+import { ModelProvider, ProviderModels, TextChunk, TextRequest } from './types';
+import { buildProvider } from '.';
+import providerFixtures from '../fixtures/providerFixtures.json';
+
+const fixtures = providerFixtures as FixtureFile;
+const mock = createMockProvider(fixtures);
+
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+// The first message of each recorded session, built by the same functions the modes use.
+const modeRequests = (models: ProviderModels) => ({
+  chat: chatRequest(models, { message: [{ text: 'What is a closure in JavaScript?' }], history: [], useSearch: true }),
+  fast: fastRequest(models, fastPrompt('me and him was late to the meeting cause the train broke', 'grammar')),
+  vision: visionRequest(models, { mimeType: 'image/png', data: PIXEL }, 'What colour is this image?'),
+  code: codeRequest(models, 'a counter button'),
+  image: imageRequest('A lighthouse at dusk, watercolour', ImageResolution.RES_1K),
+  video: videoRequest('Waves rolling onto a beach at sunrise'),
+  live: liveRequest(models, DEFAULT_LIVE_CONFIG)
+});
+
+type ModeRequests = ReturnType<typeof modeRequests>;
+
+const KINDS: Record<keyof ModeRequests, FixtureKind> = { chat: 'stream', fast: 'text', vision: 'text', code: 'text', image: 'image', video: 'video', live: 'live' };
+
+const recorded = modeRequests(geminiProvider.models);
+const replayed = modeRequests(mock.models);
+
+const entryFor = <K extends FixtureKind>(kind: K, request: object) => {
+  const entry = fixtures.fixtures[fixtureKey(kind, request)];
+  expect(entry?.kind).toBe(kind);
+  return entry as Extract<FixtureEntry, { kind: K }>;
+};
+
+describe('provider fixtures', () => {
+  it('are keyed by the request they were recorded from', () => {
+    for (const [key, entry] of Object.entries(fixtures.fixtures)) {
+      expect(fixtureKey(entry.kind, entry.request)).toBe(key);
+    }
+  });
+
+  it.each(Object.keys(KINDS) as Array<keyof ModeRequests>)('match the %s request recorded against another provider', (mode) => {
+    expect(fixtures.fixtures[fixtureKey(KINDS[mode], recorded[mode])]).toBeDefined();
+    expect(fixtureKey(KINDS[mode], recorded[mode])).toBe(fixtureKey(KINDS[mode], replayed[mode]));
+  });
+
+  it('never store an API key', () => {
+    expect(JSON.stringify(fixtures)).not.toMatch(/[?&]key=/);
+  });
+});
+
+describe('mock provider replay', () => {
+  it('streams the recorded chat reply', async () => {
+    const entry = entryFor('stream', replayed.chat);
+    const chunks: TextChunk[] = [];
+    for await (const chunk of mock.streamText(replayed.chat)) chunks.push(chunk);
+    expect(chunks).toEqual(entry.chunks);
+  });
+
+  it('stops a chat stream once it is aborted', async () => {
+    const controller = new AbortController();
+    const read = async () => {
+      for await (const _chunk of mock.streamText({ ...replayed.chat, signal: controller.signal })) controller.abort();
+    };
+    await expect(read()).rejects.toThrow('Aborted');
+  });
+
+  it.each(['fast', 'vision'] as const)('answers %s with the recorded text', async (mode) => {
+    expect(await mock.generateText(replayed[mode])).toEqual(entryFor('text', replayed[mode]).response);
+  });
+
+  it('returns the recorded project for coding', async () => {
+    const entry = entryFor('text', replayed.code);
+    const project = JSON.parse((await mock.generateText(replayed.code)).text);
+    expect(project).toEqual(JSON.parse(entry.response.text));
+    expect(project.files.length).toBeGreaterThan(0);
+  });
+
+  it('returns the recorded image', async () => {
+    expect(await mock.generateImage(replayed.image)).toEqual(entryFor('image', replayed.image).response);
+  });
+
+  it('replays the recorded video statuses and url', async () => {
+    const entry = entryFor('video', replayed.video);
+    const statuses: string[] = [];
+    const response = await mock.generateVideo({ ...replayed.video, onStatus: (s) => statuses.push(s) });
+    expect(statuses).toEqual(entry.statuses);
+    expect(response.url).toBe(entry.url);
+  });
+
+  it('replays the recorded Live messages after opening', async () => {
+    const entry = entryFor('live', replayed.live);
+    const events: Array<string | LiveServerMessage> = [];
+    const connection = await mock.connectLive({
+      ...replayed.live,
+      callbacks: { onopen: () => events.push('open'), onmessage: (msg) => events.push(msg), onclose: () => events.push('close') }
+    });
+    await Promise.resolve();
+    connection.close();
+    expect(events).toEqual(['open', ...entry.messages, 'close']);
+  });
+
+  it('falls back to a placeholder reply when nothing was recorded', async () => {
+    const response = await mock.generateText(fastRequest(mock.models, 'unrecorded prompt'));
+    expect(response.text).toBe('Mock reply to "unrecorded prompt"');
+  });
+
+  it('refuses a video that was not recorded', async () => {
+    await expect(mock.generateVideo(videoRequest('unrecorded prompt'))).rejects.toThrow('No recorded video fixture');
+  });
+});
+
+describe('recording with custom Settings', () => {
+  afterEach(() => {
+    resetModeSettings(AppMode.FAST);
+    clearRecording();
+  });
+
+  it('keeps the request as the mode built it, so the mock replays it', async () => {
+    saveModeSettings(AppMode.FAST, { model: 'custom-fast', temperature: 0.2 });
+    const sent: TextRequest[] = [];
+    const live: ModelProvider = { ...mock, generateText: async (req) => { sent.push(req); return { text: 'Recorded reply' }; } };
+
+    const recorder = buildProvider('record', AppMode.FAST, () => live);
+    await recorder.generateText(modeRequests(recorder.models).fast);
+    expect(sent[0]).toMatchObject({ model: 'custom-fast', params: { temperature: 0.2 } });
+
+    const replay = buildProvider('mock', AppMode.FAST, () => live);
+    expect(Object.keys(loadRecording().fixtures)).toEqual([fixtureKey('text', modeRequests(replay.models).fast)]);
+  });
+});
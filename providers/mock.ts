@@ -0,0 +1,121 @@
+import { ModelProvider, ProviderPart, TextRequest, TextResponse } from './types';
+import { FixtureFile, fixtureKey } from './fixtures';
+
+const MOCK_SOURCE = { web: { uri: 'https://example.com/mock-source', title: 'Mock Source' } };
+
+const promptText = (parts: ProviderPart[]) =>
+  parts.map(p => 'text' in p ? p.text : `[${'inlineData' in p ? p.inlineData.mimeType : p.fileData.mimeType}]`).join(' ').trim();
+
+// Cites the whole reply; offsets are UTF-8 bytes like the real API.
+const mockSupport = (text: string) => ({
+  segment: { startIndex: 0, endIndex: new TextEncoder().encode(text).length, text },
+  groundingChunkIndices: [0],
+  confidenceScores: [0.9]
+});
+
+// Builds a deterministic value matching a Gemini response schema.
+const sampleFromSchema = (schema: any, name = 'value'): any => {
+  switch (String(schema?.type || '').toUpperCase()) {
+    case 'OBJECT': return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, v]) => [k, sampleFromSchema(v, k)]));
+    case 'ARRAY': return [sampleFromSchema(schema.items, name)];
+    case 'NUMBER': case 'INTEGER': return 1;
+    case 'BOOLEAN': return true;
+    default: return `mock ${name}`;
+  }
+};
+
+// Used when no recorded fixture matches so the UI stays usable offline.
+const fallbackText = (req: TextRequest): TextResponse => {
+  if (req.responseSchema) return { text: JSON.stringify(sampleFromSchema(req.responseSchema)) };
+  const text = `Mock reply to "${promptText(req.message).slice(0, 80)}"`;
+  return req.useSearch
+    ? { text, groundingMetadata: { groundingChunks: [MOCK_SOURCE], groundingSupports: [mockSupport(text)], webSearchQueries: ['mock query'] } }
+    : { text };
+};
+
+const placeholderImage = (prompt: string) => {
+  const label = prompt.replace(/[<&"]/g, '').slice(0, 40);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#111"/><text x="50%" y="50%" fill="#818cf8" font-family="monospace" font-size="18" text-anchor="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+const missing = (kind: string) => new Error(`No recorded ${kind} fixture matches this request`);
+
+// Replays recorded fixtures. Nothing here touches the network or timers beyond
+// a resolved promise between streamed chunks, so runs are fully deterministic.
+export const createMockProvider = (file: FixtureFile): ModelProvider => {
+  const find = (kind: Parameters<typeof fixtureKey>[0], req: Record<string, any>) => file.fixtures[fixtureKey(kind, req)];
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    capabilities: ['chat', 'stream', 'search', 'vision', 'json', 'image', 'video', 'live', 'files'],
+    models: {
+      chat: 'mock-chat',
+      chatSearch: 'mock-chat-search',
+      fast: 'mock-fast',
+      vision: 'mock-vision',
+      code: 'mock-code',
+      image: 'mock-image',
+      imageHd: 'mock-image-hd',
+      video: 'mock-video',
+      live: 'mock-live'
+    },
+
+    async generateText(req) {
+      const entry = find('text', req);
+      return entry?.kind === 'text' ? entry.response : fallbackText(req);
+    },
+
+    async *streamText(req) {
+      const entry = find('stream', req);
+      const chunks = entry?.kind === 'stream' ? entry.chunks : (() => {
+        const { text, groundingMetadata } = fallbackText(req);
+        const words = text.split(' ');
+        return words.map((w, i) => ({ text: (i ? ' ' : '') + w, groundingMetadata: i === words.length - 1 ? groundingMetadata : undefined }));
+      })();
+      for (const chunk of chunks) {
+        if (req.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        await Promise.resolve();
+        yield chunk;
+      }
+    },
+
+    async generateImage(req) {
+      const entry = find('image', req);
+      return entry?.kind === 'image' ? entry.response : { dataUrl: placeholderImage(req.prompt) };
+    },
+
+    async generateVideo(req) {
+      const entry = find('video', req);
+      if (entry?.kind !== 'video') throw missing('video');
+      // Long-running operations replay their recorded status sequence instead of polling.
+      entry.statuses.forEach(s => req.onStatus?.(s));
+      return { url: entry.url };
+    },
+
+    async connectLive(req) {
+      const { callbacks, ...rest } = req;
+      const entry = find('live', rest);
+      let closed = false;
+      queueMicrotask(() => {
+        callbacks.onopen?.();
+        (entry?.kind === 'live' ? entry.messages : []).forEach(m => { if (!closed) callbacks.onmessage(m); });
+      });
+      return {
+        sendRealtimeInput: () => {},
+        sendToolResponse: () => {},
+        sendClientContent: () => {},
+        close: () => {
+          if (closed) return;
+          closed = true;
+          callbacks.onclose?.(new CloseEvent('close'));
+        }
+      };
+    },
+
+    async uploadFile(file) {
+      return { uri: `mock://files/${encodeURIComponent(file.name)}`, mimeType: file.type };
+    }
+  };
+};
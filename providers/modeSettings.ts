@@ -0,0 +1,35 @@
+import { AppMode } from '../types';
+import { loadModeSettings, toGenerationParams } from '../utils/modelSettings';
+import { ModelProvider, ProviderModels } from './types';
+
+// The provider model slots a mode draws from; a model chosen in Settings fills all of them.
+export const MODE_MODELS: Record<AppMode, Array<keyof ProviderModels>> = {
+  [AppMode.CHAT]: ['chat', 'chatSearch'],
+  [AppMode.FAST]: ['fast'],
+  [AppMode.VISION]: ['vision'],
+  [AppMode.CODING]: ['code'],
+  [AppMode.IMAGES]: ['image', 'imageHd'],
+  [AppMode.VIDEO]: ['video'],
+  [AppMode.LIVE]: ['live']
+};
+
+// Applies the signed-in user's Settings for `mode`: the model replaces the mode's
+// entries in `models`, and generation parameters are merged into text requests.
+export const withModeSettings = (provider: ModelProvider, mode: AppMode): ModelProvider => {
+  const settings = loadModeSettings(mode);
+  const model = settings.model?.trim();
+  const params = toGenerationParams(mode, settings);
+  if (!model && !params) return provider;
+
+  const models = model ? { ...provider.models, ...Object.fromEntries(MODE_MODELS[mode].map(slot => [slot, model])) } : provider.models;
+  const withParams = <T extends { params?: any }>(req: T): T => params ? { ...req, params: { ...params, ...req.params } } : req;
+
+  return {
+    ...provider,
+    models,
+    generateText: (req) => provider.generateText(withParams(req)),
+    streamText: (req) => provider.streamText(withParams(req)),
+    generateImage: (req) => provider.generateImage(model ? { ...req, model: req.model || model } : req),
+    generateVideo: (req) => provider.generateVideo(model ? { ...req, model: req.model || model } : req)
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ImageResolution } from '../types';
+import { imageRequest } from '../utils/modeRequests';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { TextChunk } from './types';
+
+const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1/', apiKey: '', textModel: 'local-text', visionModel: 'local-vision', imageModel: 'local-image' });
+
+// A streamed body delivered in the given pieces, which need not end on line boundaries.
+const streamed = (...pieces: string[]) => new Response(new ReadableStream({
+  start(controller) {
+    pieces.forEach(p => controller.enqueue(new TextEncoder().encode(p)));
+    controller.close();
+  }
+}));
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`;
+
+const readStream = async () => {
+  const chunks: TextChunk[] = [];
+  for await (const chunk of provider.streamText({ model: 'local-text', message: [{ text: 'Hi' }] })) chunks.push(chunk);
+  return chunks.map(c => c.text).join('');
+};
+
+describe('OpenAI compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('streams deltas split across reads, including a last line without a newline', async () => {
+    const body = delta('Hel') + delta('lo') + 'data: ' + JSON.stringify({ choices: [{ delta: { content: '!' } }] });
+    vi.stubGlobal('fetch', async () => streamed(body.slice(0, 20), body.slice(20, 50), body.slice(50)));
+    expect(await readStream()).toBe('Hello!');
+  });
+
+  it('skips stream lines that are not JSON', async () => {
+    vi.stubGlobal('fetch', async () => streamed(': keep-alive\n', delta('Hel'), 'data: {"choices": [\n', '\r\n', delta('lo'), 'data: [DONE]\n'));
+    expect(await readStream()).toBe('Hello');
+  });
+
+  it('downloads hosted images into data URLs', async () => {
+    const fetchMock = vi.fn(async (url: string) => url.endsWith('/images/generations')
+      ? Response.json({ data: [{ url: 'https://cdn.example/image.jpg' }] })
+      : new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'image/jpeg' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    expect(await provider.generateImage(imageRequest('A lighthouse', ImageResolution.RES_1K))).toEqual({ dataUrl: 'data:image/jpeg;base64,AQID' });
+    expect(fetchMock).toHaveBeenLastCalledWith('https://cdn.example/image.jpg');
+  });
+
+  it('reports a hosted image that cannot be downloaded', async () => {
+    vi.stubGlobal('fetch', async (url: string) => url.endsWith('/images/generations')
+      ? Response.json({ data: [{ url: 'https://cdn.example/gone.png' }] })
+      : new Response('', { status: 404 }));
+    await expect(provider.generateImage(imageRequest('A lighthouse', ImageResolution.RES_1K))).rejects.toMatchObject({ kind: 'model_not_found', status: 404 });
+  });
+});
@@ -0,0 +1,158 @@
+import { ModelProvider, OpenAICompatibleConfig, ProviderPart, TextRequest, TextChunk, UsageReport } from './types';
+import { decodeBase64Text, isTextMimeType } from '../utils/attachments';
+import { arrayBufferToBase64 } from '../utils/audioUtils';
+import { errorFromStatus } from './errors';
+
+// Gemini schemas spell types in upper case (Type.OBJECT); JSON Schema wants lower case.
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([k, v]) => [k, k === 'type' && typeof v === 'string' ? v.toLowerCase() : toJsonSchema(v)]));
+};
+
+const isImage = (p: ProviderPart) => 'inlineData' in p && p.inlineData.mimeType.startsWith('image/');
+
+// Chat completions only understand text and images, so text files are inlined and anything else is refused.
+const toContentPart = (p: ProviderPart) => {
+  if ('text' in p) return { type: 'text', text: p.text };
+  const mimeType = 'inlineData' in p ? p.inlineData.mimeType : p.fileData.mimeType;
+  if ('inlineData' in p && mimeType.startsWith('image/')) return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${p.inlineData.data}` } };
+  if ('inlineData' in p && isTextMimeType(mimeType)) return { type: 'text', text: decodeBase64Text(p.inlineData.data) };
+  throw new Error(`OpenAI Compatible does not support ${mimeType} attachments`);
+};
+
+const toContent = (parts: ProviderPart[]) => {
+  const content = parts.map(toContentPart);
+  if (content.every(c => c.type === 'text')) return content.map(c => c.text).join('\n');
+  return content;
+};
+
+const hasImages = (req: TextRequest) =>
+  [...(req.history || []).flatMap(t => t.parts), ...req.message].some(isImage);
+
+// prompt_tokens includes cached tokens, matching UsageReport.
+const toUsage = (model: string, usage: any): UsageReport | undefined => usage && ({
+  model,
+  promptTokens: usage.prompt_tokens || 0,
+  responseTokens: usage.completion_tokens || 0,
+  cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0
+});
+
+// One server-sent event line, or null for comments, keep-alives, [DONE] and payloads
+// that are not JSON; a single bad line should not end the reply.
+const parseEventLine = (line: string): any => {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice('data:'.length).trim();
+  if (!data || data === '[DONE]') return null;
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    console.debug('Skipped malformed stream event', data);
+    return null;
+  }
+};
+
+const unsupported = (label: string, capability: string) => () => Promise.reject(new Error(`${label} does not support ${capability}`));
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ModelProvider => {
+  const label = 'OpenAI Compatible';
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: any, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    const res = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!res.ok) {
+      const retryAfter = parseFloat(res.headers.get('retry-after') || '');
+      throw errorFromStatus(res.status, `${label} ${res.status}: ${await res.text()}`, Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+    }
+    return res;
+  };
+
+  // Hosted image links may expire, so they are downloaded and kept as data URLs.
+  const fetchDataUrl = async (url: string) => {
+    const res = await fetch(url);
+    if (!res.ok) throw errorFromStatus(res.status, `${label} image download ${res.status}: ${url}`);
+    const blob = await res.blob();
+    return `data:${blob.type || 'image/png'};base64,${arrayBufferToBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+  };
+
+  // Requests carrying images are routed to the vision model, which many local servers host separately,
+  // unless the mode was set to a specific model in Settings.
+  const buildBody = (req: TextRequest, stream: boolean) => {
+    const messages: any[] = [];
+    if (req.systemInstruction) messages.push({ role: 'system', content: req.systemInstruction });
+    (req.history || []).forEach(t => messages.push({ role: t.role === 'model' ? 'assistant' : 'user', content: toContent(t.parts) }));
+    messages.push({ role: 'user', content: toContent(req.message) });
+    const model = req.model || config.textModel;
+    const body: any = { model: hasImages(req) && model === config.textModel ? config.visionModel : model, messages, stream };
+    const params = req.params || {};
+    if (params.temperature !== undefined) body.temperature = params.temperature;
+    if (params.topP !== undefined) body.top_p = params.topP;
+    if (params.maxOutputTokens !== undefined) body.max_tokens = params.maxOutputTokens;
+    // Streams only report usage on a final chunk when asked to.
+    if (stream) body.stream_options = { include_usage: true };
+    if (req.responseSchema) body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(req.responseSchema) } };
+    else if (req.responseMimeType === 'application/json') body.response_format = { type: 'json_object' };
+    return body;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label,
+    capabilities: ['chat', 'stream', 'vision', 'json', 'image'],
+    models: {
+      chat: config.textModel,
+      chatSearch: config.textModel,
+      fast: config.textModel,
+      vision: config.visionModel,
+      code: config.textModel,
+      image: config.imageModel,
+      imageHd: config.imageModel,
+      video: '',
+      live: ''
+    },
+
+    async generateText(req) {
+      const body = buildBody(req, false);
+      const res = await post('/chat/completions', body, req.signal);
+      const json = await res.json();
+      return { text: json.choices?.[0]?.message?.content || '', usage: toUsage(json.model || body.model, json.usage) };
+    },
+
+    async *streamText(req): AsyncGenerator<TextChunk> {
+      const body = buildBody(req, true);
+      const res = await post('/chat/completions', body, req.signal);
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let done = false;
+      while (!done) {
+        const read = await reader.read();
+        done = read.done;
+        buffer += done ? decoder.decode() : decoder.decode(read.value, { stream: true });
+        // Server-sent events: one "data: {...}" payload per line. The last line may lack a newline.
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+          const json = parseEventLine(line.trim());
+          const text = json?.choices?.[0]?.delta?.content;
+          if (text || json?.usage) yield { text: text || '', usage: toUsage(json.model || body.model, json.usage) };
+        }
+      }
+    },
+
+    async generateImage(req) {
+      const res = await post('/images/generations', { model: req.model || config.imageModel, prompt: req.prompt, n: 1, response_format: 'b64_json' });
+      const json = await res.json();
+      const data = json.data?.[0];
+      if (data?.b64_json) return { dataUrl: `data:image/png;base64,${data.b64_json}` };
+      if (data?.url) return { dataUrl: await fetchDataUrl(data.url) };
+      throw new Error('Synthesis engine returned null data.');
+    },
+
+    generateVideo: unsupported(label, 'video generation'),
+    connectLive: unsupported(label, 'live audio sessions'),
+    uploadFile: unsupported(label, 'file uploads')
+  };
+};
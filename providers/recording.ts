@@ -0,0 +1,52 @@
+import { ModelProvider, TextChunk } from './types';
+import { stripApiKey } from '../utils/apiKey';
+import { describeRequest, fixtureKey, recordFixture } from './fixtures';
+
+// Wraps a live provider and stores every completed exchange as a replayable fixture.
+export const withRecording = (provider: ModelProvider): ModelProvider => ({
+  ...provider,
+
+  async generateText(req) {
+    const response = await provider.generateText(req);
+    recordFixture(fixtureKey('text', req), { kind: 'text', request: describeRequest(req), response });
+    return response;
+  },
+
+  async *streamText(req) {
+    const chunks: TextChunk[] = [];
+    for await (const chunk of provider.streamText(req)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    recordFixture(fixtureKey('stream', req), { kind: 'stream', request: describeRequest(req), chunks });
+  },
+
+  async generateImage(req) {
+    const response = await provider.generateImage(req);
+    recordFixture(fixtureKey('image', req), { kind: 'image', request: describeRequest(req), response });
+    return response;
+  },
+
+  async generateVideo(req) {
+    const statuses: string[] = [];
+    const response = await provider.generateVideo({ ...req, onStatus: (s) => { statuses.push(s); req.onStatus?.(s); } });
+    recordFixture(fixtureKey('video', req), { kind: 'video', request: describeRequest(req), statuses, url: stripApiKey(response.url) });
+    return response;
+  },
+
+  connectLive(req) {
+    const messages: any[] = [];
+    const { callbacks, ...rest } = req;
+    return provider.connectLive({
+      ...req,
+      callbacks: {
+        ...callbacks,
+        onmessage: (msg) => { messages.push(msg); callbacks.onmessage(msg); },
+        onclose: (e) => {
+          recordFixture(fixtureKey('live', rest), { kind: 'live', request: describeRequest(rest), messages });
+          callbacks.onclose?.(e);
+        }
+      }
+    });
+  }
+});
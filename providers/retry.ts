@@ -0,0 +1,75 @@
+import { ModelProvider } from './types';
+import { ProviderError, classifyError, isAbortError } from './errors';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+// A server asking for a longer pause than this is treated as a hard failure.
+const MAX_DELAY_MS = 20000;
+
+// Null when the error should surface instead of being retried.
+const retryDelay = (attempt: number, error: ProviderError): number | null => {
+  if (!error.retryable || attempt >= MAX_RETRIES) return null;
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs <= MAX_DELAY_MS ? error.retryAfterMs : null;
+  // Exponential backoff with jitter so parallel requests do not retry in lockstep.
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+const withBackoff = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      const error = classifyError(e);
+      const delay = retryDelay(attempt, error);
+      if (delay === null) throw error;
+      await sleep(delay, signal);
+    }
+  }
+};
+
+const classified = <T>(run: () => Promise<T>): Promise<T> =>
+  run().catch(e => { throw isAbortError(e) ? e : classifyError(e); });
+
+// Retries transient failures and turns every other error into a ProviderError.
+// Video jobs and Live sessions are never repeated automatically: a retry would
+// start a second billed generation or drop the user into a new session.
+export const withRetries = (provider: ModelProvider): ModelProvider => ({
+  ...provider,
+
+  generateText: (req) => withBackoff(() => provider.generateText(req), req.signal),
+
+  // Only a stream that failed before its first chunk is retried; text already shown cannot be taken back.
+  async *streamText(req) {
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
+      try {
+        for await (const chunk of provider.streamText(req)) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (e) {
+        if (isAbortError(e) || req.signal?.aborted) throw e;
+        const error = classifyError(e);
+        const delay = started ? null : retryDelay(attempt, error);
+        if (delay === null) throw error;
+        await sleep(delay, req.signal);
+      }
+    }
+  },
+
+  generateImage: (req) => withBackoff(() => provider.generateImage(req)),
+  generateVideo: (req) => classified(() => provider.generateVideo(req)),
+  connectLive: (req) => classified(() => provider.connectLive(req)),
+  uploadFile: (file) => withBackoff(() => provider.uploadFile(file))
+});
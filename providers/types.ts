@@ -0,0 +1,179 @@
+import { AppMode, ImageResolution } from '../types';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type ProviderCapability = 'chat' | 'stream' | 'search' | 'vision' | 'json' | 'image' | 'video' | 'live' | 'files';
+
+export type ProviderPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } };
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ProviderPart[];
+}
+
+export interface ProviderModels {
+  chat: string;
+  chatSearch: string;
+  fast: string;
+  vision: string;
+  code: string;
+  image: string;
+  imageHd: string;
+  video: string;
+  live: string;
+}
+
+export type HarmCategoryId = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+// Sampling settings from the Settings panel. Unset fields keep the model's defaults;
+// providers ignore what they cannot express.
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  // Tokens the model may spend thinking; 0 turns thinking off where the model allows it.
+  thinkingBudget?: number;
+  safety?: Partial<Record<HarmCategoryId, SafetyThreshold>>;
+}
+
+export interface TextRequest {
+  model: string;
+  message: ProviderPart[];
+  history?: ChatTurn[];
+  systemInstruction?: string;
+  useSearch?: boolean;
+  responseMimeType?: string;
+  responseSchema?: any;
+  params?: GenerationParams;
+  signal?: AbortSignal;
+}
+
+// What a single call consumed, normalised across providers. `promptTokens`
+// includes `cachedTokens`; media models also report the units they bill by.
+export interface UsageReport {
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  cachedTokens: number;
+  images?: number;
+  videoSeconds?: number;
+}
+
+export interface TextChunk {
+  text: string;
+  groundingMetadata?: any;
+  // Running totals; the last chunk that carries usage covers the whole reply.
+  usage?: UsageReport;
+}
+
+export interface TextResponse {
+  text: string;
+  groundingMetadata?: any;
+  usage?: UsageReport;
+}
+
+export interface ImageRequest {
+  // Overrides the provider's image model for every resolution.
+  model?: string;
+  prompt: string;
+  resolution: ImageResolution;
+  aspectRatio?: string;
+}
+
+export interface ImageResponse {
+  dataUrl: string;
+  usage?: UsageReport;
+}
+
+export interface VideoRequest {
+  model?: string;
+  prompt: string;
+  // Still the clip starts from.
+  image?: { mimeType: string; data: string };
+  resolution?: '720p' | '1080p';
+  aspectRatio?: '16:9' | '9:16';
+  onStatus?: (status: string) => void;
+}
+
+export interface VideoResponse {
+  url: string;
+  usage?: UsageReport;
+}
+
+export interface UploadedFile {
+  uri: string;
+  mimeType: string;
+  // Epoch ms after which the provider deletes the file; omitted when it keeps files.
+  expiresAt?: number;
+}
+
+export interface LiveCallbacks {
+  onopen?: () => void;
+  onmessage: (msg: any) => void;
+  onerror?: (e: ErrorEvent) => void;
+  onclose?: (e: CloseEvent) => void;
+}
+
+// A function the Live model may call; `parameters` is a JSON schema object.
+export interface LiveToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface LiveToolResponse {
+  // Echoes the id of the call being answered.
+  id: string;
+  name: string;
+  response: Record<string, any>;
+}
+
+export interface LiveRequest {
+  model: string;
+  systemInstruction: string;
+  voiceName: string;
+  languageCode?: string;
+  // Asks for captions of both sides of the conversation alongside the audio.
+  transcribe?: boolean;
+  tools?: LiveToolDeclaration[];
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveConnection {
+  sendRealtimeInput: (input: { media: { data: string; mimeType: string } }) => void;
+  sendToolResponse: (input: { functionResponses: LiveToolResponse[] }) => void;
+  // A typed user turn, for sessions that start without the microphone.
+  sendClientContent: (input: { turns: string; turnComplete?: boolean }) => void;
+  close: () => void;
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapability[];
+  models: ProviderModels;
+  generateText: (req: TextRequest) => Promise<TextResponse>;
+  streamText: (req: TextRequest) => AsyncGenerator<TextChunk>;
+  generateImage: (req: ImageRequest) => Promise<ImageResponse>;
+  generateVideo: (req: VideoRequest) => Promise<VideoResponse>;
+  connectLive: (req: LiveRequest) => Promise<LiveConnection>;
+  uploadFile: (file: File) => Promise<UploadedFile>;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  textModel: string;
+  visionModel: string;
+  imageModel: string;
+}
+
+export interface ProviderSettings {
+  modeProviders: Partial<Record<AppMode, ProviderId>>;
+  openai: OpenAICompatibleConfig;
+}
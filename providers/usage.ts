@@ -0,0 +1,62 @@
+import { AppMode, ImageResolution } from '../types';
+import { recordUsage } from '../utils/usage';
+import { fromGeminiUsage } from './gemini';
+import { ModelProvider, UsageReport } from './types';
+
+// Wraps a provider and records what every call consumed against `mode`.
+// Calls without a usage report still count as a request for their model.
+export const withUsage = (provider: ModelProvider, mode: AppMode): ModelProvider => {
+  const record = (model: string, report?: Partial<UsageReport>) =>
+    recordUsage(mode, provider.id, { model, promptTokens: 0, responseTokens: 0, cachedTokens: 0, ...report });
+
+  return {
+    ...provider,
+
+    async generateText(req) {
+      const response = await provider.generateText(req);
+      record(req.model, response.usage);
+      return response;
+    },
+
+    // Aborted streams are still billed for what was generated, so they are recorded too.
+    async *streamText(req) {
+      let received = false;
+      let usage: UsageReport | undefined;
+      try {
+        for await (const chunk of provider.streamText(req)) {
+          received = true;
+          if (chunk.usage) usage = chunk.usage;
+          yield chunk;
+        }
+      } finally {
+        if (received) record(req.model, usage);
+      }
+    },
+
+    async generateImage(req) {
+      const response = await provider.generateImage(req);
+      record(req.resolution === ImageResolution.RES_1K ? provider.models.image : provider.models.imageHd, { images: 1, ...response.usage });
+      return response;
+    },
+
+    async generateVideo(req) {
+      const response = await provider.generateVideo(req);
+      record(provider.models.video, response.usage);
+      return response;
+    },
+
+    // Live messages use the Gemini wire format for every provider that supports them.
+    connectLive(req) {
+      return provider.connectLive({
+        ...req,
+        callbacks: {
+          ...req.callbacks,
+          onmessage: (msg) => {
+            if (msg?.usageMetadata) record(req.model, fromGeminiUsage(req.model, msg.usageMetadata));
+            req.callbacks.onmessage(msg);
+          }
+        }
+      });
+    }
+  };
+};
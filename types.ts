@@ -15,24 +15,119 @@ export enum ImageResolution {
   RES_4K = '4K'
 }
 
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Data URL for files small enough to send inline. Older messages also kept the
+  // base64 payload separately in `data`.
+  data?: string;
+  url?: string;
+  // Files API reference for larger uploads; these have no stored preview.
+  fileUri?: string;
+  // When the provider deletes the upload behind `fileUri`.
+  fileExpiresAt?: number;
+}
+
+export interface GroundingSource {
+  title?: string;
+  uri: string;
+}
+
+// A span of the reply (JS string indices) backed by one or more sources.
+export interface GroundingSupport {
+  startIndex: number;
+  endIndex: number;
+  sourceIndices: number[];
+  confidence?: number[];
+}
+
+export interface GroundingDetails {
+  supports: GroundingSupport[];
+  queries: string[];
+}
+
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'model_not_found' | 'malformed_json' | 'server' | 'budget' | 'unknown';
+
+// A failed reply, stored on the message so it can still be shown and retried after a reload.
+export interface MessageError {
+  kind: ErrorKind;
+  message: string;
+  categories?: string[];
+  detail?: string;
+}
+
 export interface ChatMessage {
+  id?: string;
+  parentId?: string | null;
   role: 'user' | 'model';
   text: string;
-  sources?: Array<{
-    title?: string;
-    uri: string;
-  }>;
+  // Indexed like the provider's groundingChunks so supports can point into it.
+  sources?: GroundingSource[];
+  grounding?: GroundingDetails;
+  // Legacy single attachment, moved into `attachments` when threads load.
   attachment?: {
     data: string; // Base64 string for API
     mimeType: string;
     url: string; // Data URL for display
   };
+  attachments?: ChatAttachment[];
   timestamp: number;
+  isError?: boolean;
+  error?: MessageError;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  pinned: boolean;
+  personaId?: string;
+  // Every message across all branches; see utils/branches for the active path.
+  messages: ChatMessage[];
+  branches?: Record<string, string>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Where a global search hit lives. Each mode reads the fields it understands.
+export interface FocusTarget {
+  mode: AppMode;
+  threadId?: string;
+  messageId?: string;
+  // Modes without message ids point at the position in their message list.
+  messageIndex?: number;
+  sessionId?: string;
+  itemId?: number;
+  filename?: string;
+}
+
+export type FastLabTask = 'summarize' | 'grammar';
+
+// Content sent from one mode to another and loaded into it when it opens. Images
+// travel as data URLs; chat takes files so they go through its attachment upload.
+export type Handoff =
+  | { mode: AppMode.CHAT; text?: string; files?: File[] }
+  | { mode: AppMode.VISION; image: string; name?: string; prompt?: string }
+  | { mode: AppMode.IMAGES; prompt: string }
+  | { mode: AppMode.VIDEO; prompt?: string; firstFrame?: string }
+  | { mode: AppMode.FAST; text: string; task: FastLabTask }
+  | { mode: AppMode.CODING; prompt?: string; file?: CodeFile };
+
+export interface PersonaProfile {
+  id: string;
+  name: string;
+  instruction: string;
+  builtIn?: boolean;
 }
 
 // Live API Types
 export interface LiveConfig {
   voiceName: string;
+  // BCP-47 code; empty lets the model answer in whatever language it hears.
+  languageCode: string;
+  // Replaces the Live mode's default persona when set.
+  personaId?: string;
 }
 
 export interface CodeFile {
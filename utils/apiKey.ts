@@ -4,4 +4,31 @@ export const getApiKey = (): string => {
 
 export const hasValidKey = (): boolean => {
   return !!getApiKey();
-};
\ No newline at end of file
+};
+
+// Gemini file downloads authenticate with a `key` query parameter. Their links are
+// stored without it and signed only when the browser fetches them.
+const GEMINI_FILES_HOST = 'generativelanguage.googleapis.com';
+
+export const stripApiKey = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.searchParams.has('key')) return url;
+    parsed.searchParams.delete('key');
+    return parsed.href;
+  } catch (e) {
+    return url;
+  }
+};
+
+export const signDownloadUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const key = getApiKey();
+    if (parsed.host !== GEMINI_FILES_HOST || !key || parsed.searchParams.has('key')) return url;
+    parsed.searchParams.set('key', key);
+    return parsed.href;
+  } catch (e) {
+    return url;
+  }
+};
@@ -0,0 +1,109 @@
+import { ChatAttachment, ChatMessage } from '../types';
+import { ProviderPart } from '../providers/types';
+
+export const MAX_ATTACHMENTS = 10;
+// Inline files are persisted with the thread, so keep them small.
+export const INLINE_MAX_BYTES = 2 * 1024 * 1024;
+export const UPLOAD_MAX_BYTES = 100 * 1024 * 1024;
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'video' | 'text' | 'file';
+
+const ACCEPTED_PREFIXES = ['image/', 'audio/', 'video/', 'text/'];
+const ACCEPTED_TYPES = ['application/pdf', 'application/json', 'application/xml', 'application/javascript', 'application/x-python', 'application/rtf'];
+
+// Browsers often leave `file.type` empty for source files.
+const EXTENSION_TYPES: Record<string, string> = {
+  md: 'text/markdown', ts: 'text/plain', tsx: 'text/plain', jsx: 'text/plain', py: 'text/x-python',
+  csv: 'text/csv', json: 'application/json', yml: 'text/plain', yaml: 'text/plain', log: 'text/plain'
+};
+
+export const ATTACHMENT_ACCEPT = [...ACCEPTED_PREFIXES.map(p => `${p}*`), ...ACCEPTED_TYPES, ...Object.keys(EXTENSION_TYPES).map(e => `.${e}`)].join(',');
+
+export const resolveMimeType = (file: File): string =>
+  file.type || EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+
+export const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith('text/') || ['application/json', 'application/xml', 'application/javascript', 'application/x-python'].includes(mimeType);
+
+export const attachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (isTextMimeType(mimeType)) return 'text';
+  const prefix = mimeType.split('/')[0];
+  return prefix === 'image' || prefix === 'audio' || prefix === 'video' ? prefix : 'file';
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Returns a user-facing reason the file cannot be attached, or null when it is fine.
+export const validateAttachment = (file: File, mimeType: string, canUpload: boolean): string | null => {
+  if (!ACCEPTED_PREFIXES.some(p => mimeType.startsWith(p)) && !ACCEPTED_TYPES.includes(mimeType)) return `${file.name}: unsupported type ${mimeType}`;
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > UPLOAD_MAX_BYTES) return `${file.name} exceeds ${formatBytes(UPLOAD_MAX_BYTES)}`;
+  if (file.size > INLINE_MAX_BYTES && !canUpload) return `${file.name} exceeds ${formatBytes(INLINE_MAX_BYTES)}; this provider cannot upload larger files`;
+  return null;
+};
+
+export const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const splitDataUrl = (dataUrl: string) => ({
+  mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+  data: dataUrl.split(',')[1]
+});
+
+// Generated images and videos handed to chat arrive as URLs.
+export const fileFromUrl = async (url: string, name: string): Promise<File> => {
+  const blob = await (await fetch(url)).blob();
+  return new File([blob], name, { type: blob.type });
+};
+
+export const decodeBase64Text = (data: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(data), c => c.charCodeAt(0)));
+
+export const createAttachmentId = () => `att_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Base64 payload of an inline attachment; `url` must already be a data URL.
+export const attachmentBase64 = (a: ChatAttachment): string =>
+  a.data || (a.url?.startsWith('data:') ? splitDataUrl(a.url).data : '');
+
+// Gemini deletes Files API uploads after 48 hours.
+export const UPLOAD_LIFETIME_MS = 48 * 60 * 60 * 1000;
+
+// Uploads saved before expiry times were kept count from when the message was sent.
+export const isUploadExpired = (a: ChatAttachment, sentAt: number, now = Date.now()) =>
+  !!a.fileUri && (a.fileExpiresAt ?? sentAt + UPLOAD_LIFETIME_MS) <= now;
+
+export const toAttachmentParts = (attachments: ChatAttachment[] = []): ProviderPart[] =>
+  attachments.map(a => a.fileUri
+    ? { fileData: { mimeType: a.mimeType, fileUri: a.fileUri } }
+    : { inlineData: { mimeType: a.mimeType, data: attachmentBase64(a) } });
+
+export const migrateAttachment = (message: ChatMessage): ChatMessage => {
+  if (!message.attachment) return message;
+  const { attachment, ...rest } = message;
+  const legacy: ChatAttachment = {
+    id: createAttachmentId(),
+    name: 'attachment',
+    mimeType: attachment.mimeType,
+    size: Math.floor(attachment.data.length * 3 / 4),
+    data: attachment.data,
+    url: attachment.url
+  };
+  return { ...rest, attachments: [...(rest.attachments || []), legacy] };
+};
+
+// `data` repeated the payload of the data URL beside it. Web links are not the
+// bytes themselves, so those attachments keep it.
+export const dropDuplicateData = (attachment: ChatAttachment): ChatAttachment => {
+  if (!attachment.data || !attachment.url || /^https?:/i.test(attachment.url)) return attachment;
+  const { data, ...rest } = attachment;
+  return rest;
+};
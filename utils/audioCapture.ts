@@ -0,0 +1,69 @@
+import { createResampler, floatTo16BitPCM } from './audioUtils';
+
+// Microphone capture for Live sessions. The worklet only slices the input into
+// frames on the audio thread; resampling and Int16 conversion happen on the page.
+
+export const LIVE_INPUT_RATE = 16000;
+// Short frames keep speech reaching the model quickly without flooding the socket.
+export const CAPTURE_FRAME_MS = 40;
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frame = new Float32Array(options.processorOptions.frameSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let offset = 0; offset < channel.length;) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.frame.length) {
+        this.port.postMessage(this.frame.slice());
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Streams `stream` as 16 kHz Int16 frames whatever rate the context actually runs at.
+// Resolves with a function that stops the capture.
+export const startMicrophoneCapture = async (ctx: AudioContext, stream: MediaStream, onFrame: (pcm: Int16Array) => void): Promise<() => void> => {
+  const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const resample = createResampler(ctx.sampleRate, LIVE_INPUT_RATE);
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameSize: Math.round(ctx.sampleRate * CAPTURE_FRAME_MS / 1000) }
+  });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(floatTo16BitPCM(resample(e.data)));
+  source.connect(node);
+  // The node outputs silence; it is connected so the graph keeps pulling it.
+  node.connect(ctx.destination);
+
+  return () => {
+    node.port.onmessage = null;
+    source.disconnect();
+    node.disconnect();
+  };
+};
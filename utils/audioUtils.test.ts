@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createResampler, floatTo16BitPCM } from './audioUtils';
+
+const sine = (rate: number, seconds: number, hz = 440) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => Math.sin(2 * Math.PI * hz * i / rate));
+
+// Feeds `input` through `resample` in frames of `size` samples and joins the output.
+const resampleInFrames = (resample: (chunk: Float32Array) => Float32Array, input: Float32Array, size: number) => {
+  const out: number[] = [];
+  for (let i = 0; i < input.length; i += size) out.push(...resample(input.subarray(i, i + size)));
+  return out;
+};
+
+describe('floatTo16BitPCM', () => {
+  it('clips samples outside ±1 to the Int16 range', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([1.5, -1.5, 1, -1, 0])))).toEqual([32767, -32768, 32767, -32768, 0]);
+  });
+
+  it('scales samples inside the range', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([0.5, -0.5])))).toEqual([16383, -16384]);
+  });
+});
+
+describe('createResampler', () => {
+  it.each([[44100, 1764], [48000, 1920]])('turns one second at %i Hz into 16 kHz', (rate, frame) => {
+    const out = resampleInFrames(createResampler(rate, 16000), sine(rate, 1), frame);
+    expect(Math.abs(out.length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('gives 48 kHz frames a fixed 16 kHz length', () => {
+    const resample = createResampler(48000, 16000);
+    for (let i = 0; i < 5; i++) expect(resample(new Float32Array(1920)).length).toBe(640);
+  });
+
+  it('passes audio through when the rates match', () => {
+    const input = sine(16000, 0.01);
+    expect(Array.from(createResampler(16000, 16000)(input))).toEqual(Array.from(input));
+  });
+
+  it('carries leftover samples across chunk boundaries', () => {
+    const input = sine(44100, 0.5);
+    const whole = Array.from(createResampler(44100, 16000)(input));
+    // Frame sizes that do not divide evenly by the rate ratio.
+    for (const size of [1000, 441, 97]) {
+      const chunked = resampleInFrames(createResampler(44100, 16000), input, size);
+      expect(chunked.length).toBe(whole.length);
+      chunked.forEach((s, i) => expect(s).toBeCloseTo(whole[i], 5));
+    }
+  });
+
+  it('keeps a steady signal steady at frame edges', () => {
+    const resample = createResampler(44100, 16000);
+    for (let i = 0; i < 4; i++) resample(new Float32Array(1764).fill(0.25)).forEach(s => expect(s).toBeCloseTo(0.25, 5));
+  });
+
+  it('upsamples by interpolating between neighbours', () => {
+    const resample = createResampler(8000, 16000);
+    expect(Array.from(resample(Float32Array.from([0, 1])))).toEqual([0, 0.5]);
+    expect(Array.from(resample(Float32Array.from([0])))).toEqual([1, 0.5]);
+  });
+});
@@ -25,11 +25,71 @@ export async function decodeAudioData(data, ctx, sampleRate, numChannels) {
   return buffer;
 }
 
-export function createPcmBlob(data) {
-  const int16 = new Int16Array(data.length);
-  for (let i = 0; i < data.length; i++) { int16[i] = data[i] * 32768; }
+// Clamps before scaling; an unclamped full-scale sample would wrap around to the opposite sign.
+export function floatTo16BitPCM(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+// Mean of `input` over [start, end), weighting the samples cut by either edge.
+function boxAverage(input: Float32Array, start: number, end: number) {
+  let sum = 0;
+  for (let i = Math.floor(start); i < end; i++) {
+    sum += input[i] * (Math.min(i + 1, end) - Math.max(i, start));
+  }
+  return sum / (end - start);
+}
+
+// Converts a stream of chunks from one sample rate to another. Downsampling
+// averages the input each output sample spans, which filters out most of what
+// would alias; upsampling interpolates linearly. Leftover input is carried into
+// the next chunk so frame boundaries do not click.
+export function createResampler(fromRate: number, toRate: number): (chunk: Float32Array) => Float32Array {
+  if (fromRate === toRate) return (chunk) => chunk.slice();
+  let pending = new Float32Array(0);
+  // Where the next output sample starts in `pending`, counted in 1/toRate of an
+  // input sample. Whole numbers keep chunked output identical to a single pass.
+  let position = 0;
+
+  return (chunk) => {
+    const input = new Float32Array(pending.length + chunk.length);
+    input.set(pending);
+    input.set(chunk, pending.length);
+
+    const output: number[] = [];
+    if (fromRate > toRate) {
+      for (; position + fromRate <= input.length * toRate; position += fromRate) {
+        output.push(boxAverage(input, position / toRate, (position + fromRate) / toRate));
+      }
+    } else {
+      for (; position + toRate < input.length * toRate; position += fromRate) {
+        const i = Math.floor(position / toRate);
+        output.push(input[i] + (input[i + 1] - input[i]) * (position - i * toRate) / toRate);
+      }
+    }
+
+    const consumed = Math.floor(position / toRate);
+    pending = input.slice(consumed);
+    position -= consumed * toRate;
+    return Float32Array.from(output);
+  };
+}
+
+// Older Safari only ships the prefixed constructor.
+type PrefixedAudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+export function createAudioContext(options?: AudioContextOptions): AudioContext {
+  const Context = window.AudioContext || (window as PrefixedAudioWindow).webkitAudioContext!;
+  return new Context(options);
+}
+
+export function createPcmBlob(pcm: Int16Array, sampleRate = 16000) {
   return {
-    data: arrayBufferToBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: arrayBufferToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { getActivePath, revealNode } from './branches';
+
+const node = (id: string, parentId: string | null) => ({ id, parentId });
+
+describe('getActivePath', () => {
+  it('follows the selected child and defaults to the newest', () => {
+    const nodes = [node('a', null), node('b', 'a'), node('c', 'a'), node('d', 'b')];
+    expect(getActivePath(nodes).map(n => n.id)).toEqual(['a', 'c']);
+    expect(getActivePath(nodes, { a: 'b' }).map(n => n.id)).toEqual(['a', 'b', 'd']);
+  });
+
+  it('stops instead of looping when ids repeat', () => {
+    const nodes = [node('a', null), node('b', 'a'), node('a', 'b')];
+    expect(getActivePath(nodes).map(n => n.id)).toEqual(['a', 'b', 'a']);
+  });
+});
+
+describe('revealNode', () => {
+  it('stops when parents loop', () => {
+    expect(revealNode([node('a', 'b'), node('b', 'a')], {}, 'a')).toEqual({ a: 'b', b: 'a' });
+  });
+});
@@ -0,0 +1,61 @@
+// Conversations are stored as a tree: every message knows its parent and each
+// parent remembers which child branch is selected. The visible conversation is
+// the path obtained by following those selections from the root.
+
+export interface BranchNode {
+  id?: string;
+  parentId?: string | null;
+}
+
+export type BranchSelection = Record<string, string>;
+
+const ROOT = 'root';
+
+export const createNodeId = () => `msg_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Older histories were flat arrays; chain them into a single branch.
+export const ensureIds = <T extends BranchNode>(nodes: T[]): T[] => {
+  if (nodes.every(n => n.id)) return nodes;
+  let parentId: string | null = null;
+  return nodes.map(n => {
+    const node = { ...n, id: n.id || createNodeId(), parentId: n.id ? n.parentId ?? null : parentId };
+    parentId = node.id;
+    return node;
+  });
+};
+
+export const getChildren = <T extends BranchNode>(nodes: T[], parentId: string | null): T[] =>
+  nodes.filter(n => (n.parentId ?? null) === parentId);
+
+// Stops at a node it has already visited, so duplicate ids cannot loop forever.
+export const getActivePath = <T extends BranchNode>(nodes: T[], selected: BranchSelection = {}): T[] => {
+  const path: T[] = [];
+  const visited = new Set<T>();
+  let parentId: string | null = null;
+  while (true) {
+    const children = getChildren(nodes, parentId);
+    if (children.length === 0) return path;
+    const next = children.find(c => c.id === selected[parentId ?? ROOT]) || children[children.length - 1];
+    if (visited.has(next)) return path;
+    visited.add(next);
+    path.push(next);
+    parentId = next.id!;
+  }
+};
+
+export const getSiblings = <T extends BranchNode>(nodes: T[], node: T): T[] => getChildren(nodes, node.parentId ?? null);
+
+export const selectBranch = (selected: BranchSelection, node: BranchNode): BranchSelection =>
+  ({ ...selected, [node.parentId ?? ROOT]: node.id! });
+
+// Selects every branch on the way down to `id`, so that node ends up on the active path.
+export const revealNode = <T extends BranchNode>(nodes: T[], selected: BranchSelection, id: string): BranchSelection => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const next = { ...selected };
+  const visited = new Set<T>();
+  for (let node = byId.get(id); node && !visited.has(node); node = node.parentId ? byId.get(node.parentId) : undefined) {
+    visited.add(node);
+    next[node.parentId ?? ROOT] = node.id!;
+  }
+  return next;
+};
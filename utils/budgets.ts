@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { AppMode } from '../types';
+import { MODE_LABELS } from '../constants';
+import { saveToHistory, loadFromHistory } from './history';
+import { defineHistorySchema } from './schemas';
+import { isAdmin } from './profile';
+import { PriceTable, USAGE_EVENT, UsageRecord, costOf, formatCost, formatTokens, loadPrices, loadUsage, usageUser } from './usage';
+
+export const BUDGETS_KEY = 'textgpt_budgets';
+
+// Fired on window whenever budgets are saved.
+export const BUDGETS_EVENT = 'textgpt:budgets';
+
+// Matches every user or every mode.
+export const ANY = '*';
+
+export type BudgetMetric = 'tokens' | 'images' | 'videoSeconds' | 'cost';
+export type BudgetPeriod = 'day' | 'month';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface Budget {
+  id: string;
+  // A profile id from utils/profile, or ANY.
+  user: string;
+  mode: AppMode | typeof ANY;
+  metric: BudgetMetric;
+  period: BudgetPeriod;
+  limit: number;
+  // Usage before this moment no longer counts towards the current period.
+  resetAt?: number;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  used: number;
+  ratio: number;
+  level: BudgetLevel;
+}
+
+// Warnings start once this share of a limit is used.
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export const BUDGET_METRICS: Array<{ id: BudgetMetric; label: string }> = [
+  { id: 'tokens', label: 'Tokens' },
+  { id: 'images', label: 'Images' },
+  { id: 'videoSeconds', label: 'Video seconds' },
+  { id: 'cost', label: 'Spend (USD)' }
+];
+
+export const BUDGET_PERIODS: Array<{ id: BudgetPeriod; label: string }> = [
+  { id: 'day', label: 'Daily' },
+  { id: 'month', label: 'Monthly' }
+];
+
+defineHistorySchema({
+  key: BUDGETS_KEY,
+  version: 1,
+  validate: Array.isArray,
+  validateItem: (b) => typeof b?.id === 'string' && typeof b.user === 'string' && typeof b.mode === 'string' && typeof b.limit === 'number'
+    && BUDGET_METRICS.some(m => m.id === b.metric) && BUDGET_PERIODS.some(p => p.id === b.period)
+});
+
+export const loadBudgets = (): Budget[] => loadFromHistory(BUDGETS_KEY, []);
+
+// Setting, raising and resetting limits is reserved for admins.
+export const saveBudgets = (budgets: Budget[]) => {
+  if (!isAdmin()) throw new Error('Only an admin can change budgets');
+  saveToHistory(BUDGETS_KEY, budgets);
+  window.dispatchEvent(new Event(BUDGETS_EVENT));
+};
+
+export const createBudgetId = () => `budget_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+// Periods follow the local calendar, like the daily usage chart.
+export const periodStart = (period: BudgetPeriod, now = Date.now()) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  if (period === 'month') d.setDate(1);
+  return d.getTime();
+};
+
+const measure = (r: UsageRecord, metric: BudgetMetric, prices: PriceTable) => {
+  switch (metric) {
+    case 'tokens': return r.promptTokens + r.responseTokens;
+    case 'images': return r.images || 0;
+    case 'videoSeconds': return r.videoSeconds || 0;
+    case 'cost': return costOf(r, prices);
+  }
+};
+
+export const appliesTo = (budget: Budget, user: string, mode?: AppMode) =>
+  (budget.user === ANY || budget.user === user) && (budget.mode === ANY || !mode || budget.mode === mode);
+
+export const budgetStatus = (budget: Budget, records: UsageRecord[], prices: PriceTable, now = Date.now()): BudgetStatus => {
+  const since = Math.max(periodStart(budget.period, now), budget.resetAt || 0);
+  const used = records
+    .filter(r => r.timestamp >= since && appliesTo(budget, usageUser(r), r.mode))
+    .reduce((sum, r) => sum + measure(r, budget.metric, prices), 0);
+  const ratio = budget.limit > 0 ? used / budget.limit : 1;
+  const level: BudgetLevel = used >= budget.limit ? 'exceeded' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+  return { budget, used, ratio, level };
+};
+
+// Every budget covering `user` in `mode`, most used first.
+export const budgetStatuses = (user: string, mode: AppMode): BudgetStatus[] => {
+  const budgets = loadBudgets().filter(b => appliesTo(b, user, mode));
+  if (budgets.length === 0) return [];
+  const records = loadUsage();
+  const prices = loadPrices();
+  return budgets.map(b => budgetStatus(b, records, prices)).sort((a, b) => b.ratio - a.ratio);
+};
+
+export const formatBudgetAmount = (metric: BudgetMetric, value: number) => {
+  switch (metric) {
+    case 'tokens': return formatTokens(Math.round(value));
+    case 'images': return `${value} img`;
+    case 'videoSeconds': return `${value}s`;
+    case 'cost': return formatCost(value);
+  }
+};
+
+export const describeBudget = (budget: Budget) => {
+  const period = BUDGET_PERIODS.find(p => p.id === budget.period)!.label;
+  const metric = BUDGET_METRICS.find(m => m.id === budget.metric)!.label.toLowerCase();
+  const scope = budget.mode === ANY ? 'all modes' : MODE_LABELS[budget.mode] || budget.mode;
+  return `${period} ${metric} budget for ${scope}${budget.user === ANY ? '' : ` (${budget.user})`}`;
+};
+
+export const budgetMessage = ({ budget, used, ratio, level }: BudgetStatus) => {
+  const amounts = `${formatBudgetAmount(budget.metric, used)} of ${formatBudgetAmount(budget.metric, budget.limit)}`;
+  return level === 'exceeded'
+    ? `${describeBudget(budget)} reached: ${amounts} used. An admin can raise or reset it under Usage › Budgets.`
+    : `${describeBudget(budget)} is ${Math.round(ratio * 100)}% used: ${amounts}.`;
+};
+
+// Budgets that need attention in `mode`, refreshed as usage is recorded.
+export const useBudgetAlerts = (user: string, mode: AppMode): BudgetStatus[] => {
+  const [alerts, setAlerts] = useState<BudgetStatus[]>([]);
+  useEffect(() => {
+    const refresh = () => setAlerts(budgetStatuses(user, mode).filter(s => s.level !== 'ok'));
+    refresh();
+    window.addEventListener(USAGE_EVENT, refresh);
+    window.addEventListener(BUDGETS_EVENT, refresh);
+    return () => {
+      window.removeEventListener(USAGE_EVENT, refresh);
+      window.removeEventListener(BUDGETS_EVENT, refresh);
+    };
+  }, [user, mode]);
+  return alerts;
+};
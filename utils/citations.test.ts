@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { groundingConfidence, insertCitations, parseGrounding } from './citations';
+
+// 'Hi ' is 3 bytes, the emoji 4, each CJK character 3; in UTF-16 the emoji takes 2 units.
+const TEXT = 'Hi 👋 世界.';
+
+const chunks = [{ web: { uri: 'https://a.example', title: 'A' } }, { web: { uri: 'https://b.example', title: 'B' } }];
+const support = (startIndex: number, endIndex: number, groundingChunkIndices = [0]) => ({ segment: { startIndex, endIndex }, groundingChunkIndices });
+
+const supportsOf = (text: string, groundingSupports: object[]) =>
+  parseGrounding(text, { groundingChunks: chunks, groundingSupports }).grounding!.supports;
+
+describe('parseGrounding', () => {
+  it('converts UTF-8 byte offsets past emoji and CJK text to string indices', () => {
+    const [s] = supportsOf(TEXT, [support(8, 14)]);
+    expect(TEXT.slice(s.startIndex, s.endIndex)).toBe('世界');
+  });
+
+  it('rounds offsets inside a character down to its start', () => {
+    expect(supportsOf(TEXT, [support(4, 10)])[0]).toMatchObject({ startIndex: 3, endIndex: 6 });
+  });
+
+  it('clamps offsets past the end of the text', () => {
+    expect(supportsOf(TEXT, [support(8, 99)])[0]).toMatchObject({ startIndex: 6, endIndex: TEXT.length });
+  });
+
+  it('keeps overlapping segments and drops indices without a source', () => {
+    const supports = supportsOf('Alpha beta.', [support(0, 11, [0, 5]), support(6, 11, [1])]);
+    expect(supports.map(s => [s.startIndex, s.endIndex, s.sourceIndices])).toEqual([[0, 11, [0]], [6, 11, [1]]]);
+  });
+
+  it('skips supports without an end or sources', () => {
+    expect(parseGrounding(TEXT, { groundingChunks: chunks, groundingSupports: [support(0, 0), support(0, 3, [])] })).toEqual({ sources: [{ uri: 'https://a.example', title: 'A' }, { uri: 'https://b.example', title: 'B' }] });
+  });
+});
+
+describe('insertCitations', () => {
+  it('merges the sources of overlapping segments that end together', () => {
+    const text = insertCitations('Alpha beta.', [
+      { startIndex: 0, endIndex: 5, sourceIndices: [0] },
+      { startIndex: 0, endIndex: 11, sourceIndices: [1] },
+      { startIndex: 6, endIndex: 11, sourceIndices: [2, 0] }
+    ]);
+    expect(text).toBe('Alpha [1](#cite-0) beta. [1](#cite-0) [2](#cite-1) [3](#cite-2)');
+  });
+
+  it('places links after multi-unit characters without splitting them', () => {
+    const [s] = supportsOf(TEXT, [support(0, 7)]);
+    expect(insertCitations(TEXT, [s])).toBe('Hi 👋 [1](#cite-0) 世界.');
+  });
+
+  it('leaves segments ending inside a code block alone', () => {
+    const text = 'See ```\ncode\n``` done';
+    expect(insertCitations(text, [{ startIndex: 0, endIndex: 10, sourceIndices: [0] }])).toBe(text);
+  });
+});
+
+describe('groundingConfidence', () => {
+  it('counts overlapping segments once', () => {
+    const supports = [{ startIndex: 0, endIndex: 6, sourceIndices: [0] }, { startIndex: 4, endIndex: 8, sourceIndices: [1] }];
+    expect(groundingConfidence('0123456789', { supports, queries: [] })).toBe(0.8);
+  });
+
+  it('averages reported confidence scores', () => {
+    const supports = [{ startIndex: 0, endIndex: 2, sourceIndices: [0], confidence: [0.5, 0.9] }];
+    expect(groundingConfidence('0123456789', { supports, queries: [] })).toBeCloseTo(0.7);
+  });
+});
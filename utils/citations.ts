@@ -0,0 +1,89 @@
+import { GroundingDetails, GroundingSource, GroundingSupport } from '../types';
+
+export const CITATION_PREFIX = '#cite-';
+
+// Gemini reports segment offsets in UTF-8 bytes; JS strings index UTF-16 code units.
+const byteToCharIndex = (text: string) => {
+  const encoder = new TextEncoder();
+  const offsets: number[] = [0];
+  let bytes = 0;
+  let chars = 0;
+  for (const ch of text) {
+    bytes += encoder.encode(ch).length;
+    chars += ch.length;
+    offsets[bytes] = chars;
+  }
+  return (byte: number) => {
+    for (let b = Math.min(byte, bytes); b >= 0; b--) if (offsets[b] !== undefined) return offsets[b];
+    return 0;
+  };
+};
+
+// Turns raw grounding metadata into index-aligned sources plus supports in string indices.
+export const parseGrounding = (text: string, metadata: any): { sources: GroundingSource[]; grounding?: GroundingDetails } => {
+  const sources: GroundingSource[] = (metadata?.groundingChunks || []).map((c: any) => {
+    const ref = c.web || c.retrievedContext || {};
+    return { title: ref.title, uri: ref.uri || '' };
+  });
+  const toChar = byteToCharIndex(text);
+  const supports: GroundingSupport[] = (metadata?.groundingSupports || [])
+    .filter((s: any) => s.segment?.endIndex && s.groundingChunkIndices?.length)
+    .map((s: any) => ({
+      startIndex: toChar(s.segment.startIndex || 0),
+      endIndex: toChar(s.segment.endIndex),
+      sourceIndices: s.groundingChunkIndices.filter((i: number) => i < sources.length),
+      confidence: s.confidenceScores
+    }));
+  const queries: string[] = metadata?.webSearchQueries || [];
+  if (!supports.length && !queries.length) return { sources };
+  return { sources, grounding: { supports, queries } };
+};
+
+// Appends markdown links such as [2](#cite-1) after each supported segment.
+// Segments ending inside a fenced code block are left alone to keep the code intact.
+export const insertCitations = (text: string, supports: GroundingSupport[] = []): string => {
+  const byEnd = new Map<number, Set<number>>();
+  supports.forEach(s => {
+    const set = byEnd.get(s.endIndex) || new Set<number>();
+    s.sourceIndices.forEach(i => set.add(i));
+    byEnd.set(s.endIndex, set);
+  });
+
+  let result = '';
+  let cursor = 0;
+  [...byEnd.keys()].sort((a, b) => a - b).forEach(end => {
+    const chunk = text.slice(cursor, end);
+    result += chunk;
+    cursor = end;
+    if ((result.match(/```/g) || []).length % 2 === 1) return;
+    result += [...byEnd.get(end)!].sort((a, b) => a - b).map(i => ` [${i + 1}](${CITATION_PREFIX}${i})`).join('');
+  });
+  return result + text.slice(cursor);
+};
+
+export const parseCitationHref = (href?: string): number | null =>
+  href?.startsWith(CITATION_PREFIX) ? Number(href.slice(CITATION_PREFIX.length)) : null;
+
+// Search grounding links go through a Google redirect whose title carries the real domain.
+export const sourceDomain = (source: GroundingSource): string => {
+  try {
+    const host = new URL(source.uri).hostname;
+    if (!host.endsWith('vertexaisearch.cloud.google.com')) return host.replace(/^www\./, '');
+  } catch (e) {
+    // Fall through to the title.
+  }
+  return source.title || 'source';
+};
+
+export const faviconUrl = (source: GroundingSource) =>
+  `https://www.google.com/s2/favicons?domain=${encodeURIComponent(sourceDomain(source))}&sz=32`;
+
+// Average confidence when the model reports it, otherwise the share of the reply backed by a source.
+export const groundingConfidence = (text: string, grounding?: GroundingDetails): number | null => {
+  if (!grounding?.supports.length || !text) return null;
+  const scores = grounding.supports.flatMap(s => s.confidence || []);
+  if (scores.length) return scores.reduce((a, b) => a + b, 0) / scores.length;
+  const covered = new Set<number>();
+  grounding.supports.forEach(s => { for (let i = s.startIndex; i < s.endIndex; i++) covered.add(i); });
+  return covered.size / text.length;
+};
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutId } from './shortcuts';
+
+// Commands shown in the palette and run by keyboard shortcuts. App registers the
+// global ones; each mode registers what it can do while it is mounted.
+
+export interface CommandContext {
+  // Text selected on the page when the palette opened; focusing its input clears the live selection.
+  selection: string;
+}
+
+export interface Command {
+  id: string;
+  title: string;
+  group: string;
+  shortcut?: ShortcutId;
+  // Extra words the palette matches on.
+  keywords?: string;
+  disabled?: boolean;
+  // Only offered when the palette opened with text selected.
+  needsSelection?: boolean;
+  run: (context: CommandContext) => void;
+}
+
+type CommandSource = Command[] | (() => Command[]);
+
+const registry = new Map<symbol, CommandSource>();
+
+export const getCommands = (): Command[] => [...registry.values()].flatMap(source => typeof source === 'function' ? source() : source);
+
+export const findShortcutCommand = (id: ShortcutId) => getCommands().find(c => c.shortcut === id && !c.disabled);
+
+// Re-registered after every render so `run` always sees current state. A function
+// is called each time commands are listed, for ones built from stored data.
+export const useCommands = (commands: CommandSource) => {
+  const key = useRef(Symbol('commands'));
+  useEffect(() => { registry.set(key.current, commands); });
+  useEffect(() => () => { registry.delete(key.current); }, []);
+};
+
+export const getSelectionText = () => window.getSelection()?.toString().trim() || '';
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode } from '../types';
+import { ConversationExport, createExport, parseImport, serializeExport, toHtml, toMarkdown } from './conversationExport';
+
+const attachment = (url: string, mimeType = 'image/png') => ({ id: 'a1', name: 'photo.png', mimeType, size: 3, url });
+
+const exportWith = (message: Record<string, any>) =>
+  toHtml(createExport(AppMode.CHAT, 'Export', [{ role: 'user', text: 'Look', ...message }]));
+
+describe('toHtml', () => {
+  it('escapes attachment urls', () => {
+    const html = exportWith({ attachments: [attachment('https://example.com/a.png" onerror="alert(1)')] });
+    expect(html).toContain('<img src="https://example.com/a.png&quot; onerror=&quot;alert(1)"');
+    expect(html).not.toContain('onerror="');
+  });
+
+  it('keeps data and https attachments', () => {
+    expect(exportWith({ attachments: [attachment('data:image/png;base64,AAAA')] })).toContain('<img src="data:image/png;base64,AAAA"');
+    expect(exportWith({ attachments: [attachment('https://example.com/a.pdf', 'application/pdf')] })).toContain('href="https://example.com/a.pdf"');
+  });
+
+  it('lists attachments with other schemes by name only', () => {
+    const html = exportWith({ attachments: [attachment('javascript:alert(1)', 'application/pdf'), attachment('http://example.com/a.png')] });
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('http://example.com');
+    expect(html).toContain('<p>Attachment: photo.png (application/pdf)</p>');
+  });
+
+  it('links only web sources', () => {
+    const html = exportWith({ role: 'model', text: 'Answer', sources: [{ uri: 'javascript:alert(1)', title: 'Bad' }, { uri: 'https://example.com', title: 'Good' }] });
+    expect(html).toContain('1. Bad<br>2. <a href="https://example.com">Good</a>');
+  });
+});
+
+// A branched chat: the second reply was regenerated and the first version is selected.
+const branched = (): ConversationExport => createExport(AppMode.CHAT, 'Closures', [
+  { id: 'u1', parentId: null, role: 'user', text: 'What is a closure?', attachments: [attachment('data:image/png;base64,AAAA')] },
+  { id: 'm1', parentId: 'u1', role: 'model', text: 'A function with its scope.', sources: [{ uri: 'https://example.com/mdn', title: 'MDN' }] },
+  { id: 'm2', parentId: 'u1', role: 'model', text: 'Discarded answer' }
+], { branches: { u1: 'm1' }, files: [{ filename: 'counter.js', content: 'let n = 0;', language: 'js' }] });
+
+describe('toMarkdown', () => {
+  it('writes the selected branch with attachments, sources and files', () => {
+    const markdown = toMarkdown(branched());
+    expect(markdown).not.toContain('Discarded answer');
+    const order = ['# Closures', '## You', '![photo.png](data:image/png;base64,AAAA)', 'What is a closure?', '## TextGpt', 'A function with its scope.', '1. [MDN](https://example.com/mdn)', '## counter.js', '```js\nlet n = 0;\n```'];
+    const positions = order.map(line => markdown.indexOf(line));
+    expect(positions.every(p => p >= 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+  });
+});
+
+describe('toHtml of a branched chat', () => {
+  it('renders the selected branch only', () => {
+    const html = toHtml(branched());
+    expect(html).toContain('<p>A function with its scope.</p>');
+    expect(html).not.toContain('Discarded answer');
+    expect(html).toContain('<h2>counter.js</h2><pre><code>let n = 0;</code></pre>');
+  });
+});
+
+describe('parseImport', () => {
+  const json = (conv: object) => JSON.stringify(conv);
+  const withMessages = (messages: object[], extras: object = {}) => json({ ...branched(), messages, branches: undefined, ...extras });
+
+  it('reads back the JSON export unchanged', () => {
+    const conv = branched();
+    expect(parseImport(serializeExport(conv, 'json'), AppMode.CHAT)).toEqual(conv);
+  });
+
+  it('accepts messages without ids', () => {
+    expect(parseImport(withMessages([{ role: 'user', text: 'Hi' }], { files: undefined }), AppMode.CHAT).messages).toHaveLength(1);
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'File is not valid JSON'],
+    ['another format', json({ format: 'other' }), 'Not a TextGpt conversation export'],
+    ['a newer version', json({ ...branched(), version: 2 }), 'Unsupported export version 2'],
+    ['another mode', json(createExport(AppMode.FAST, 'Fast', [])), 'This export belongs to'],
+    ['an unknown role', withMessages([{ role: 'system', text: 'Hi' }]), 'Export contains malformed messages'],
+    ['non-string attachment data', withMessages([{ role: 'user', text: 'Hi', attachments: [{ ...attachment('data:,'), data: 42 }] }]), 'Export contains malformed attachments'],
+    ['malformed files', json({ ...branched(), files: [{ filename: 'a.js' }] }), 'Export contains malformed files'],
+    ['some messages without ids', withMessages([{ id: 'a', role: 'user', text: 'Hi' }, { role: 'model', text: 'Hello' }]), 'Export has messages without ids'],
+    ['duplicate ids', withMessages([{ id: 'a', role: 'user', text: 'Hi' }, { id: 'a', parentId: 'a', role: 'model', text: 'Hello' }]), 'Export contains duplicate message ids'],
+    ['a missing parent', withMessages([{ id: 'a', parentId: 'gone', role: 'user', text: 'Hi' }]), 'Export links a message to a missing parent'],
+    ['a loop', withMessages([{ id: 'a', parentId: 'b', role: 'user', text: 'Hi' }, { id: 'b', parentId: 'a', role: 'model', text: 'Hello' }]), 'Export contains a message loop'],
+    ['a branch to another parent', json({ ...branched(), branches: { m1: 'u1' } }), 'Export selects a branch that does not exist'],
+    ['a branch to a missing message', json({ ...branched(), branches: { u1: 'gone' } }), 'Export selects a branch that does not exist'],
+    ['branches without ids', withMessages([{ role: 'user', text: 'Hi' }], { branches: { root: 'a' } }), 'Export selects branches without message ids']
+  ])('rejects %s', (_name, text, message) => {
+    expect(() => parseImport(text, AppMode.CHAT)).toThrow(message);
+  });
+});
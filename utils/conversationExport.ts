@@ -0,0 +1,213 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { AppMode, ChatMessage, CodeFile, GroundingSource } from '../types';
+import { MODE_LABELS } from '../constants';
+import { getActivePath, selectBranch } from './branches';
+import { isPlainObject } from './schemas';
+import { attachmentBase64, attachmentKind, decodeBase64Text } from './attachments';
+
+export const EXPORT_FORMAT = 'textgpt-conversation';
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+// Modes keep lighter message shapes than ChatInterface, so only role and text are required.
+export type ExportedMessage = Omit<ChatMessage, 'timestamp'> & { timestamp?: number };
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  mode: AppMode;
+  title: string;
+  exportedAt: number;
+  messages: ExportedMessage[];
+  branches?: Record<string, string>;
+  personaId?: string;
+  // Code Workspace hands its generated files along with the chat.
+  files?: CodeFile[];
+}
+
+export const createExport = (mode: AppMode, title: string, messages: ExportedMessage[], extras: Partial<ConversationExport> = {}): ConversationExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  mode,
+  title,
+  exportedAt: Date.now(),
+  messages,
+  ...extras
+});
+
+// Markdown and HTML show the selected branch only; JSON keeps the whole tree.
+const visibleMessages = (conv: ConversationExport) =>
+  conv.messages.length && conv.messages.every(m => m.id) ? getActivePath(conv.messages, conv.branches) : conv.messages;
+
+const speaker = (m: ExportedMessage) => m.role === 'user' ? 'You' : 'TextGpt';
+
+export const toMarkdown = (conv: ConversationExport): string => {
+  const lines = [`# ${conv.title}`, '', `_${MODE_LABELS[conv.mode]} · exported ${new Date(conv.exportedAt).toLocaleString()}_`, ''];
+  visibleMessages(conv).forEach(m => {
+    lines.push(`## ${speaker(m)}`, '');
+    (m.attachments || []).forEach(a => {
+      lines.push(attachmentKind(a.mimeType) === 'image' && a.url ? `![${a.name}](${a.url})` : `> Attachment: ${a.name} (${a.mimeType})`, '');
+    });
+    lines.push(m.text, '');
+    if (m.sources?.length) {
+      lines.push('Sources:', ...m.sources.map((s, i) => `${i + 1}. [${s.title || s.uri}](${s.uri})`), '');
+    }
+  });
+  (conv.files || []).forEach(f => lines.push(`## ${f.filename}`, '', '```' + f.language, f.content, '```', ''));
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Imported exports can carry any string, so only these schemes reach src and href.
+const ATTACHMENT_URL = /^(data:|https:)/i;
+const SOURCE_URL = /^https?:/i;
+
+const safeUrl = (url: string, allowed: RegExp) => allowed.test(url.trim()) ? escapeHtml(url.trim()) : null;
+
+const HTML_STYLE = `
+body{margin:0;background:#020202;color:#cbd5e1;font:15px/1.7 system-ui,sans-serif}
+main{max-width:760px;margin:0 auto;padding:48px 24px}
+h1{color:#fff;font-size:22px;margin:0}
+.meta{color:#475569;font-size:11px;text-transform:uppercase;letter-spacing:.15em;margin:8px 0 40px}
+.msg{border:1px solid rgba(255,255,255,.06);border-radius:24px;padding:20px 24px;margin:16px 0;background:#050505}
+.user{background:#0a0a0a;color:#fff}
+.role{font-size:10px;font-weight:900;text-transform:uppercase;letter-spacing:.2em;color:#475569;margin-bottom:8px}
+pre{background:#0a0a0a;border:1px solid rgba(255,255,255,.08);border-radius:12px;padding:12px;overflow-x:auto}
+code{font-family:ui-monospace,monospace;font-size:13px}
+a{color:#818cf8}
+img,video{max-width:100%;border-radius:16px}
+audio{width:100%}
+table{border-collapse:collapse}td,th{border:1px solid #1e293b;padding:4px 8px}
+.sources{font-size:12px;border-top:1px solid rgba(255,255,255,.06);margin-top:16px;padding-top:8px}
+`;
+
+const renderMarkdown = (text: string) =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, text));
+
+const renderAttachment = (a: NonNullable<ExportedMessage['attachments']>[number]) => {
+  const url = a.url && safeUrl(a.url, ATTACHMENT_URL);
+  if (!url) return `<p>Attachment: ${escapeHtml(a.name)} (${escapeHtml(a.mimeType)})</p>`;
+  switch (attachmentKind(a.mimeType)) {
+    case 'image': return `<img src="${url}" alt="${escapeHtml(a.name)}">`;
+    case 'audio': return `<audio controls src="${url}"></audio>`;
+    case 'video': return `<video controls src="${url}"></video>`;
+    case 'text': return `<pre><code>${escapeHtml(decodeBase64Text(attachmentBase64(a)))}</code></pre>`;
+    default: return `<p><a download="${escapeHtml(a.name)}" href="${url}">${escapeHtml(a.name)}</a></p>`;
+  }
+};
+
+const renderSource = (s: GroundingSource, i: number) => {
+  const url = safeUrl(s.uri, SOURCE_URL);
+  const label = escapeHtml(s.title || s.uri);
+  return `${i + 1}. ${url ? `<a href="${url}">${label}</a>` : label}`;
+};
+
+// A single file with inline styles and data-URL attachments so it opens offline.
+export const toHtml = (conv: ConversationExport): string => {
+  const body = visibleMessages(conv).map(m => {
+    const sources = m.sources?.length
+      ? `<div class="sources">${m.sources.map(renderSource).join('<br>')}</div>`
+      : '';
+    const content = m.role === 'model' ? renderMarkdown(m.text) : `<p>${escapeHtml(m.text).replace(/\n/g, '<br>')}</p>`;
+    return `<section class="msg ${m.role}"><div class="role">${speaker(m)}</div>${(m.attachments || []).map(renderAttachment).join('')}${content}${sources}</section>`;
+  }).join('\n');
+  const files = (conv.files || []).map(f => `<h2>${escapeHtml(f.filename)}</h2><pre><code>${escapeHtml(f.content)}</code></pre>`).join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conv.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(conv.title)}</h1>
+<p class="meta">${MODE_LABELS[conv.mode]} · exported ${new Date(conv.exportedAt).toLocaleString()}</p>
+${body}
+${files}
+</main>
+</body>
+</html>`;
+};
+
+const EXTENSIONS: Record<ExportFormat, { ext: string; type: string }> = {
+  markdown: { ext: 'md', type: 'text/markdown' },
+  html: { ext: 'html', type: 'text/html' },
+  json: { ext: 'json', type: 'application/json' }
+};
+
+export const serializeExport = (conv: ConversationExport, format: ExportFormat): string =>
+  format === 'markdown' ? toMarkdown(conv) : format === 'html' ? toHtml(conv) : JSON.stringify(conv, null, 2);
+
+export const downloadExport = (conv: ConversationExport, format: ExportFormat) => {
+  const content = serializeExport(conv, format);
+  const { ext, type } = EXTENSIONS[format];
+  const slug = conv.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${slug}.${ext}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const optionalString = (value: any) => value === undefined || typeof value === 'string';
+
+const isAttachment = (a: any) =>
+  !!a && typeof a === 'object' && typeof a.name === 'string' && typeof a.mimeType === 'string' &&
+  ['id', 'data', 'url', 'fileUri'].every(k => optionalString(a[k])) && (a.size === undefined || typeof a.size === 'number');
+
+const isCodeFile = (f: any) => !!f && typeof f === 'object' && ['filename', 'content', 'language'].every(k => typeof f[k] === 'string');
+
+// Messages either all carry ids, forming a tree through parentId, or none do.
+// Anything that would leave getActivePath with a broken or looping tree is refused.
+const checkTree = (messages: any[], branches: any) => {
+  const withIds = messages.filter(m => m.id !== undefined);
+  if (withIds.length === 0) {
+    if (branches !== undefined) throw new Error('Export selects branches without message ids');
+    return;
+  }
+  if (withIds.length !== messages.length || !messages.every(m => typeof m.id === 'string' && m.id)) throw new Error('Export has messages without ids');
+  const byId = new Map(messages.map(m => [m.id, m]));
+  if (byId.size !== messages.length) throw new Error('Export contains duplicate message ids');
+  messages.forEach(m => {
+    if (m.parentId !== undefined && m.parentId !== null && !byId.has(m.parentId)) throw new Error('Export links a message to a missing parent');
+    const seen = new Set<string>();
+    for (let node = m; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+      if (seen.has(node.id)) throw new Error('Export contains a message loop');
+      seen.add(node.id);
+    }
+  });
+  if (branches === undefined) return;
+  // A selection is valid when choosing that child would record it under the same key.
+  const valid = isPlainObject(branches) && Object.entries(branches).every(([parent, child]) => byId.has(child) && selectBranch({}, byId.get(child))[parent] === child);
+  if (!valid) throw new Error('Export selects a branch that does not exist');
+};
+
+// Throws with a user-facing message when the file is not an export for `mode`.
+export const parseImport = (text: string, mode: AppMode): ConversationExport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON');
+  }
+  if (data?.format !== EXPORT_FORMAT) throw new Error('Not a TextGpt conversation export');
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) throw new Error(`Unsupported export version ${data.version}`);
+  if (data.mode !== mode) throw new Error(`This export belongs to ${MODE_LABELS[data.mode] || data.mode}`);
+  if (!Array.isArray(data.messages) || !data.messages.every((m: any) => (m?.role === 'user' || m?.role === 'model') && typeof m.text === 'string')) {
+    throw new Error('Export contains malformed messages');
+  }
+  if (!data.messages.every((m: any) => m.attachments === undefined || (Array.isArray(m.attachments) && m.attachments.every(isAttachment)))) {
+    throw new Error('Export contains malformed attachments');
+  }
+  if (data.files !== undefined && !(Array.isArray(data.files) && data.files.every(isCodeFile))) throw new Error('Export contains malformed files');
+  checkTree(data.messages, data.branches);
+  return data as ConversationExport;
+};
@@ -0,0 +1,38 @@
+import { AppMode, CodeFile, Handoff } from '../types';
+import { MODE_LABELS } from '../constants';
+import { fileFromUrl } from './attachments';
+
+// "Send to" targets offered for a piece of content. Each list leaves out the
+// mode the content came from.
+
+export interface HandoffOption {
+  mode: AppMode;
+  label: string;
+  // Built on click, since handing media to chat downloads it first.
+  build: () => Handoff | Promise<Handoff>;
+}
+
+const without = (from: AppMode, options: HandoffOption[]) => options.filter(o => o.mode !== from);
+
+export const textHandoffs = (text: string, from: AppMode): HandoffOption[] => without(from, [
+  { mode: AppMode.CHAT, label: `Continue in ${MODE_LABELS[AppMode.CHAT]}`, build: () => ({ mode: AppMode.CHAT, text }) },
+  { mode: AppMode.FAST, label: 'Summarize', build: () => ({ mode: AppMode.FAST, text, task: 'summarize' }) },
+  { mode: AppMode.CODING, label: `Build in ${MODE_LABELS[AppMode.CODING]}`, build: () => ({ mode: AppMode.CODING, prompt: text }) },
+  { mode: AppMode.IMAGES, label: 'Use as image prompt', build: () => ({ mode: AppMode.IMAGES, prompt: text }) }
+]);
+
+export const imageHandoffs = (image: string, name: string, from: AppMode, prompt?: string): HandoffOption[] => without(from, [
+  { mode: AppMode.VISION, label: `Analyze in ${MODE_LABELS[AppMode.VISION]}`, build: () => ({ mode: AppMode.VISION, image, name }) },
+  { mode: AppMode.VIDEO, label: 'Use as first frame', build: () => ({ mode: AppMode.VIDEO, firstFrame: image, prompt }) },
+  { mode: AppMode.CHAT, label: `Attach in ${MODE_LABELS[AppMode.CHAT]}`, build: async () => ({ mode: AppMode.CHAT, files: [await fileFromUrl(image, name)] }) }
+]);
+
+export const videoHandoffs = (url: string, name: string, prompt: string): HandoffOption[] => [
+  { mode: AppMode.CHAT, label: `Attach in ${MODE_LABELS[AppMode.CHAT]}`, build: async () => ({ mode: AppMode.CHAT, files: [await fileFromUrl(url, name)] }) },
+  { mode: AppMode.IMAGES, label: 'Reuse prompt for an image', build: () => ({ mode: AppMode.IMAGES, prompt }) }
+];
+
+export const fileHandoffs = (file: CodeFile): HandoffOption[] => [
+  { mode: AppMode.CHAT, label: `Attach in ${MODE_LABELS[AppMode.CHAT]}`, build: () => ({ mode: AppMode.CHAT, files: [new File([file.content], file.filename, { type: 'text/plain' })] }) },
+  { mode: AppMode.FAST, label: 'Summarize', build: () => ({ mode: AppMode.FAST, text: file.content, task: 'summarize' }) }
+];
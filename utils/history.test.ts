@@ -0,0 +1,168 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { HistorySchema } from './schemas';
+
+// jsdom's Blob cannot be stored by fake-indexeddb and jsdom has no object URLs.
+let objectUrls = 0;
+
+// Imports a fresh copy of the module, as a page load would, against the same database.
+// `schemas` are registered before initHistory, as the app's modules do on import.
+const loadPage = async (schemas: HistorySchema[] = []) => {
+  vi.resetModules();
+  const { defineHistorySchema } = await import('./schemas');
+  schemas.forEach(defineHistorySchema);
+  const history = await import('./history');
+  await history.initHistory();
+  return history;
+};
+
+const notesSchema: HistorySchema = {
+  key: 'textgpt_notes',
+  version: 1,
+  legacyKeys: ['textgpt_notes_v0'],
+  migrations: { 0: (data: string[]) => data.map(n => typeof n === 'string' ? n.toUpperCase() : n) },
+  validate: Array.isArray,
+  validateItem: (n) => typeof n === 'string'
+};
+
+const image = `data:image/png;base64,${'iVBORw0K'.repeat(1024)}`;
+const payload = 'QUJD'.repeat(2048);
+
+const hidePage = () => window.dispatchEvent(new Event('pagehide'));
+
+describe('history storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('Blob', NodeBlob);
+    URL.createObjectURL = () => `blob:test/${++objectUrls}`;
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads saved data URLs back as object URLs that resolve to the original', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_images', [{ image }]);
+    await first.getStorageUsage();
+
+    const second = await loadPage();
+    const [loaded] = second.loadFromHistory('textgpt_images', []);
+    expect(loaded.image).toMatch(/^blob:test\//);
+    expect(await second.resolveBlobUrls(loaded)).toEqual({ image });
+  });
+
+  it('keeps base64 payloads as strings', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_files', { data: payload });
+    await first.getStorageUsage();
+
+    expect((await loadPage()).loadFromHistory('textgpt_files', null)).toEqual({ data: payload });
+  });
+
+  it('stores an image shared by several records once and saves object URLs by reference', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_a', image);
+    first.saveToHistory('textgpt_b', image);
+    expect(await first.getStorageUsage()).toMatchObject({ records: 2, blobs: 1 });
+
+    const second = await loadPage();
+    second.saveToHistory('textgpt_c', second.loadFromHistory('textgpt_a', ''));
+    second.clearHistory('textgpt_a');
+    second.clearHistory('textgpt_b');
+    expect(await second.getStorageUsage()).toMatchObject({ records: 1, blobs: 1 });
+    const third = await loadPage();
+    expect(await third.resolveBlobUrls(third.loadFromHistory('textgpt_c', ''))).toBe(image);
+  });
+
+  it('keeps writes that were unfinished when the page hid', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_notes', ['draft']);
+    hidePage();
+    const journal = localStorage.getItem('textgpt_journal');
+    expect(journal).toContain('draft');
+
+    // The tab closed before IndexedDB committed anything.
+    await first.getStorageUsage();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    localStorage.setItem('textgpt_journal', journal!);
+    const second = await loadPage();
+    expect(second.loadFromHistory('textgpt_notes', [])).toEqual(['draft']);
+    expect(localStorage.getItem('textgpt_journal')).toBeNull();
+    expect((await loadPage()).loadFromHistory('textgpt_notes', [])).toEqual(['draft']);
+  });
+
+  it('drops the journal once the writes finish', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_notes', ['draft']);
+    hidePage();
+    await first.getStorageUsage();
+    expect(localStorage.getItem('textgpt_journal')).toBeNull();
+  });
+
+  it('moves localStorage records into IndexedDB', async () => {
+    localStorage.setItem('textgpt_notes', JSON.stringify(['old']));
+    localStorage.setItem('textgpt_broken', '{');
+    localStorage.setItem('other_app', '1');
+
+    const first = await loadPage();
+    expect(first.loadFromHistory('textgpt_notes', [])).toEqual(['old']);
+    expect(localStorage.getItem('textgpt_notes')).toBeNull();
+    expect(localStorage.getItem('other_app')).toBe('1');
+    expect(localStorage.getItem('textgpt_broken')).toBeNull();
+    expect(first.loadQuarantine()).toEqual([expect.objectContaining({ key: 'textgpt_broken', reason: 'Unparseable JSON' })]);
+    expect((await loadPage()).loadFromHistory('textgpt_notes', [])).toEqual(['old']);
+  });
+
+  it('upgrades, moves and quarantines records once when the page loads', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_notes_v0', ['a', 5]);
+    first.saveToHistory('textgpt_settings', 'corrupt');
+    await first.getStorageUsage();
+
+    const second = await loadPage([notesSchema, { key: 'textgpt_settings', version: 1, validate: Array.isArray }]);
+    expect(second.loadFromHistory('textgpt_notes', [])).toEqual(['A']);
+    expect(second.loadFromHistory('textgpt_settings', [])).toEqual([]);
+    expect(second.loadQuarantine()).toEqual([
+      expect.objectContaining({ key: 'textgpt_settings', reason: 'Failed validation', data: 'corrupt' }),
+      expect.objectContaining({ key: 'textgpt_notes', reason: 'Dropped 1 invalid items', data: [5] })
+    ]);
+    await second.getStorageUsage();
+
+    // Without schemas the stored values show what was written back.
+    const third = await loadPage();
+    expect(third.loadFromHistory('textgpt_notes', null)).toEqual({ __schema: 1, data: ['A'] });
+    expect(third.loadFromHistory('textgpt_notes_v0', null)).toBeNull();
+    expect(third.loadFromHistory('textgpt_settings', null)).toBeNull();
+  });
+
+  it('upgrades outdated values in memory only when reading', async () => {
+    const first = await loadPage();
+    first.saveToHistory('textgpt_notes', ['a', 5]);
+    const { defineHistorySchema } = await import('./schemas');
+    defineHistorySchema(notesSchema);
+
+    expect(first.loadFromHistory('textgpt_notes', [])).toEqual(['A']);
+    expect(first.loadQuarantine()).toEqual([]);
+    await first.getStorageUsage();
+    expect((await loadPage()).loadFromHistory('textgpt_notes', [])).toEqual(['a', 5]);
+  });
+
+  it('quarantines unparseable localStorage values when the page loads', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    localStorage.setItem('textgpt_notes', '{');
+    const history = await loadPage();
+    expect(localStorage.getItem('textgpt_notes')).toBeNull();
+    expect(history.loadQuarantine()).toEqual([expect.objectContaining({ key: 'textgpt_notes', reason: 'Unparseable JSON', data: '{' })]);
+  });
+
+  it('falls back to localStorage without IndexedDB', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const history = await loadPage();
+    history.saveToHistory('textgpt_notes', ['kept']);
+    expect(JSON.parse(localStorage.getItem('textgpt_notes')!)).toEqual(['kept']);
+  });
+});
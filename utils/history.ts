@@ -1,20 +1,246 @@
-export const saveToHistory = (key, data) => {
+import { StorageUsage, countStores, deleteBlobs, deleteRecord, findOrphanBlobs, openDatabase, parseBlobRefs, readAllRecords, stringifyBlobRefs, writeRecord } from './storage';
+import { HistorySchema, getHistorySchema, listHistorySchemas, upgradeRecord, wrapRecord } from './schemas';
+
+export { resolveBlobUrls } from './storage';
+
+// Every key is held in memory once `initHistory` resolves, so reads stay
+// synchronous; large media inside records is held as object URLs. Writes are
+// batched and flushed to IndexedDB in the background; without IndexedDB
+// everything falls back to localStorage as before.
+
+const KEY_PREFIX = 'textgpt_';
+const FLUSH_DELAY_MS = 400;
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+const REMOVED = Symbol('removed');
+const QUARANTINE_KEY = 'textgpt_quarantine';
+const QUARANTINE_LIMIT = 50;
+// Writes still unfinished when the page hides, replayed by the next `initHistory`.
+const JOURNAL_KEY = 'textgpt_journal';
+
+const cache = new Map();
+const blobRefs = new Map<string, string[]>();
+const pending = new Map();
+const inFlight = new Map();
+let db: IDBDatabase | null = null;
+let flushTimer = null;
+let flushing = Promise.resolve();
+
+const referencedBlobs = () => new Set([...blobRefs.values()].flat());
+
+const writeOne = async (key, data) => {
+  const previous = blobRefs.get(key) || [];
+  if (data === REMOVED) {
+    await deleteRecord(db, key);
+    blobRefs.delete(key);
+  } else {
+    blobRefs.set(key, await writeRecord(db, key, data, referencedBlobs()));
+  }
+  const stillUsed = referencedBlobs();
+  await deleteBlobs(db, previous.filter(id => !stillUsed.has(id)));
+};
+
+const flush = () => {
+  clearTimeout(flushTimer);
+  flushTimer = null;
+  const batch = [...pending.entries()];
+  pending.clear();
+  batch.forEach(([key, data]) => inFlight.set(key, data));
+  flushing = flushing.then(async () => {
+    for (const [key, data] of batch) {
+      try {
+        await writeOne(key, data);
+      } catch (e) {
+        console.warn("Storage error", key, e);
+      }
+      if (inFlight.get(key) === data) inFlight.delete(key);
+    }
+    if (batch.length && inFlight.size === 0) localStorage.removeItem(JOURNAL_KEY);
+  });
+  return flushing;
+};
+
+// A hidden page may be closed before IndexedDB finishes, so unfinished writes are
+// also copied to localStorage, which writes synchronously.
+const flushOnHide = () => {
+  flush();
+  if (inFlight.size === 0) return;
+  const entries = [...inFlight.entries()].map(([key, data]) => data === REMOVED ? { key, removed: true } : { key, data });
   try {
-    localStorage.setItem(key, JSON.stringify(data));
+    localStorage.setItem(JOURNAL_KEY, stringifyBlobRefs(entries));
   } catch (e) {
-    console.warn("Storage error", e);
+    console.warn("Could not keep unsaved history", e);
   }
 };
 
-export const loadFromHistory = (key, defaultValue) => {
+const replayJournal = async (blobs: Map<string, Blob>) => {
+  const json = localStorage.getItem(JOURNAL_KEY);
+  if (json === null) return;
+  let entries = [];
+  try {
+    entries = parseBlobRefs(json, blobs);
+  } catch (e) {
+    console.warn("Unsaved history skipped", e);
+  }
+  if (!Array.isArray(entries) || entries.length === 0) return localStorage.removeItem(JOURNAL_KEY);
+  entries.forEach(entry => entry.removed ? removeRaw(entry.key) : writeRaw(entry.key, entry.data));
+  // The journal is removed once these writes are done.
+  await flush();
+};
+
+const scheduleFlush = () => {
+  if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+};
+
+const storedKeys = () => Object.keys(localStorage).filter(k => k.startsWith(KEY_PREFIX) && k !== JOURNAL_KEY);
+
+// Parses a localStorage value, setting it aside when it is not JSON.
+const readLocal = (key) => {
+  const item = localStorage.getItem(key);
   try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : defaultValue;
+    return JSON.parse(item);
   } catch (e) {
-    return defaultValue;
+    localStorage.removeItem(key);
+    quarantine(key, 'Unparseable JSON', item);
+    return undefined;
+  }
+};
+
+// Moves existing textgpt_* keys out of localStorage the first time IndexedDB is available.
+const migrateLocalStorage = async () => {
+  for (const key of storedKeys()) {
+    if (!cache.has(key)) {
+      const data = readLocal(key);
+      if (data === undefined) continue;
+      try {
+        blobRefs.set(key, await writeRecord(db, key, data, referencedBlobs()));
+        cache.set(key, data);
+      } catch (e) {
+        console.warn("Migration skipped", key, e);
+        continue;
+      }
+    }
+    localStorage.removeItem(key);
+  }
+};
+
+// Brings a stored record up to its schema once per page load: legacy keys move,
+// migrations and dropped items are written back and failures are quarantined.
+const settleRecord = (schema: HistorySchema) => {
+  let raw = readRaw(schema.key);
+  let moved = false;
+  if (raw === undefined) {
+    const legacyKey = schema.legacyKeys?.find(k => readRaw(k) !== undefined);
+    if (!legacyKey) return;
+    raw = readRaw(legacyKey);
+    removeRaw(legacyKey);
+    moved = true;
   }
+
+  const result = upgradeRecord(schema, raw);
+  if (result.ok === false) {
+    quarantine(schema.key, result.reason, raw);
+    removeRaw(schema.key);
+    return;
+  }
+  if (result.dropped.length) quarantine(schema.key, `Dropped ${result.dropped.length} invalid items`, result.dropped);
+  if (result.changed || moved) writeRaw(schema.key, wrapRecord(schema, result.data));
 };
 
-export const clearHistory = (key) => {
+export const initHistory = async () => {
+  try {
+    db = await openDatabase();
+    const { records, blobs } = await readAllRecords(db);
+    records.forEach(r => {
+      cache.set(r.key, r.data);
+      blobRefs.set(r.key, r.blobIds);
+    });
+    await replayJournal(blobs);
+    await migrateLocalStorage();
+    await deleteBlobs(db, await findOrphanBlobs(db, referencedBlobs()));
+    navigator.storage?.persist?.().catch(() => {});
+    window.addEventListener('pagehide', flushOnHide);
+    document.addEventListener('visibilitychange', () => { if (document.visibilityState === 'hidden') flushOnHide(); });
+  } catch (e) {
+    console.warn("IndexedDB unavailable, using localStorage", e);
+    db = null;
+    storedKeys().forEach(readLocal);
+  }
+  listHistorySchemas().forEach(settleRecord);
+};
+
+// Raw access without schemas; `undefined` means the key holds nothing usable.
+const readRaw = (key) => {
+  if (cache.has(key)) return cache.get(key);
+  if (db) return undefined;
+  const item = localStorage.getItem(key);
+  if (item === null) return undefined;
+  try {
+    return JSON.parse(item);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const writeRaw = (key, value) => {
+  cache.set(key, value);
+  if (db) {
+    pending.set(key, value);
+    scheduleFlush();
+    return;
+  }
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn("Storage error", e);
+  }
+};
+
+const removeRaw = (key) => {
+  cache.delete(key);
+  if (db) {
+    pending.set(key, REMOVED);
+    scheduleFlush();
+    return;
+  }
   localStorage.removeItem(key);
-};
\ No newline at end of file
+};
+
+// Corrupt or unreadable records are set aside rather than silently replaced by defaults.
+const quarantine = (key, reason, data) => {
+  console.warn("Quarantined record", key, reason);
+  const entries = readRaw(QUARANTINE_KEY) || [];
+  writeRaw(QUARANTINE_KEY, [{ key, reason, data, at: Date.now() }, ...entries].slice(0, QUARANTINE_LIMIT));
+};
+
+export const loadQuarantine = (): Array<{ key: string; reason: string; data: any; at: number }> => readRaw(QUARANTINE_KEY) || [];
+
+export const clearQuarantine = () => removeRaw(QUARANTINE_KEY);
+
+export const saveToHistory = (key, data) => {
+  const schema = getHistorySchema(key);
+  writeRaw(key, schema ? wrapRecord(schema, data) : data);
+};
+
+// Reads never write: `initHistory` has already settled every stored record, so
+// anything still outdated here is only upgraded in memory.
+export const loadFromHistory = (key, defaultValue) => {
+  const schema = getHistorySchema(key);
+  const raw = readRaw(key);
+  if (!schema) return raw === undefined ? defaultValue : raw;
+  if (raw === undefined) return defaultValue;
+  const result = upgradeRecord(schema, raw);
+  return result.ok ? result.data : defaultValue;
+};
+
+export const clearHistory = (key) => removeRaw(key);
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  if (!db) {
+    const usage = Object.keys(localStorage).reduce((sum, k) => sum + (k.length + (localStorage.getItem(k)?.length || 0)) * 2, 0);
+    return { backend: 'localStorage', usage, quota: LOCAL_STORAGE_QUOTA, records: Object.keys(localStorage).filter(k => k.startsWith(KEY_PREFIX)).length, blobs: 0 };
+  }
+  await flush();
+  const estimate = await navigator.storage?.estimate?.() || {};
+  const counts = await countStores(db);
+  return { backend: 'indexeddb', usage: estimate.usage || 0, quota: estimate.quota || 0, ...counts };
+};
@@ -0,0 +1,66 @@
+import { LiveConfig } from '../types';
+import { saveToHistory, loadFromHistory } from './history';
+import { defineHistorySchema, isPlainObject } from './schemas';
+import { activeUserId } from './profile';
+
+export const LIVE_CONFIG_KEY = 'textgpt_live_config';
+
+// Gemini's prebuilt Live voices.
+export const LIVE_VOICES: Array<{ id: string; tone: string }> = [
+  { id: 'Kore', tone: 'Firm' },
+  { id: 'Aoede', tone: 'Breezy' },
+  { id: 'Leda', tone: 'Youthful' },
+  { id: 'Zephyr', tone: 'Bright' },
+  { id: 'Puck', tone: 'Upbeat' },
+  { id: 'Charon', tone: 'Informative' },
+  { id: 'Fenrir', tone: 'Excitable' },
+  { id: 'Orus', tone: 'Firm' }
+];
+
+export const LIVE_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: '', label: 'Match the speaker' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-US', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ar-XA', label: 'Arabic' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'cmn-CN', label: 'Mandarin Chinese' }
+];
+
+// Offered in the setup panel; Settings accepts any other Live model id.
+export const LIVE_MODELS = [
+  'gemini-2.5-flash-native-audio-preview-12-2025',
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+  'gemini-2.0-flash-live-001'
+];
+
+export const DEFAULT_LIVE_CONFIG: LiveConfig = { voiceName: 'Kore', languageCode: '' };
+
+// Keyed by profile id, like the per-mode model settings.
+type StoredLiveConfig = Record<string, LiveConfig>;
+
+defineHistorySchema({
+  key: LIVE_CONFIG_KEY,
+  version: 1,
+  validate: (all) => isPlainObject(all) && Object.values(all).every((c: any) => isPlainObject(c) && typeof c.voiceName === 'string')
+});
+
+const loadAll = (): StoredLiveConfig => loadFromHistory(LIVE_CONFIG_KEY, {});
+
+export const loadLiveConfig = (user = activeUserId()): LiveConfig => ({ ...DEFAULT_LIVE_CONFIG, ...loadAll()[user] });
+
+export const saveLiveConfig = (config: LiveConfig, user = activeUserId()) =>
+  saveToHistory(LIVE_CONFIG_KEY, { ...loadAll(), [user]: config });
+
+// The language code alone is ignored by native audio models, so it is also spelled out in the instruction.
+export const languageInstruction = (code: string): string => {
+  const language = LIVE_LANGUAGES.find(l => l.code === code);
+  return code && language ? `Always speak ${language.label}, whatever language the user speaks.` : '';
+};
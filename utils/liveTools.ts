@@ -0,0 +1,194 @@
+import { AppMode, GroundingDetails, GroundingSource, ImageResolution } from '../types';
+import { getProvider, LiveToolDeclaration } from '../providers';
+import { buildSystemInstruction } from './personas';
+import { parseGrounding } from './citations';
+
+// Functions the Live model can call mid-conversation. Each one returns the
+// response sent back to the model and, usually, a card shown in the voice UI.
+
+export type ActionCardType = 'link' | 'youtube' | 'whatsapp' | 'social' | 'call' | 'image' | 'code' | 'search' | 'timer';
+
+export interface ActionCard {
+  id: string;
+  type: ActionCardType;
+  title: string;
+  url?: string;
+  // Image data URL, code or the looked-up answer.
+  content?: string;
+  language?: string;
+  sources?: GroundingSource[];
+  grounding?: GroundingDetails;
+  endsAt?: number;
+}
+
+export interface LiveToolResult {
+  response: Record<string, any>;
+  card?: ActionCard;
+}
+
+export interface LiveTool {
+  declaration: LiveToolDeclaration;
+  // Shown under the orb while the call runs.
+  status: string;
+  run: (args: Record<string, any>) => Promise<LiveToolResult>;
+}
+
+export const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+const createCardId = () => `card_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+const LINK_TYPES: Array<[RegExp, ActionCardType]> = [
+  [/^tel:/i, 'call'],
+  [/^https?:\/\/([^/]+\.)?(youtube\.com|youtu\.be)\//i, 'youtube'],
+  [/^https?:\/\/([^/]+\.)?(wa\.me|whatsapp\.com)\//i, 'whatsapp'],
+  [/^https?:\/\/([^/]+\.)?(instagram\.com|facebook\.com|x\.com|twitter\.com|tiktok\.com|linkedin\.com)\//i, 'social']
+];
+
+export const linkCardType = (url: string): ActionCardType => LINK_TYPES.find(([pattern]) => pattern.test(url))?.[1] || 'link';
+
+// Only web and phone links become cards; anything else is refused back to the model.
+const normalizeLink = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (/^tel:\+?[\d\s()-]+$/i.test(trimmed)) return trimmed.replace(/[\s()-]/g, '');
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const parsed = new URL(withScheme);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+    // URL adds the slash after a bare host that the link patterns anchor on.
+    return parsed.href;
+  } catch (e) {
+    return null;
+  }
+};
+
+const CODE_FENCE = /```([\w+#-]*)\n([\s\S]*?)```/;
+
+export const LIVE_TOOLS: LiveTool[] = [
+  {
+    declaration: {
+      name: 'open_link',
+      description: 'Show the user a link they can open: a website, a YouTube video, a WhatsApp chat (https://wa.me/<number>), a social profile or a phone number (tel:<number>).',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'Full URL, or tel: followed by the number' },
+          title: { type: 'string', description: 'Short label for the link' }
+        },
+        required: ['url']
+      }
+    },
+    status: 'Preparing link',
+    run: async ({ url, title }) => {
+      const href = normalizeLink(String(url || ''));
+      if (!href) return { response: { error: 'Only web links and tel: numbers can be shown' } };
+      return {
+        response: { result: 'The link is on screen for the user to open' },
+        card: { id: createCardId(), type: linkCardType(href), title: title || href, url: href }
+      };
+    }
+  },
+  {
+    declaration: {
+      name: 'generate_image',
+      description: 'Create an image from a description and show it to the user.',
+      parameters: {
+        type: 'object',
+        properties: { prompt: { type: 'string', description: 'Detailed description of the image' } },
+        required: ['prompt']
+      }
+    },
+    status: 'Rendering image',
+    run: async ({ prompt }) => {
+      const { dataUrl } = await getProvider(AppMode.IMAGES).generateImage({ prompt, resolution: ImageResolution.RES_1K });
+      return {
+        response: { result: 'The image is on screen' },
+        card: { id: createCardId(), type: 'image', title: prompt, content: dataUrl }
+      };
+    }
+  },
+  {
+    declaration: {
+      name: 'draft_code',
+      description: 'Write code for the user and show it on screen. Describe it briefly instead of reading it aloud.',
+      parameters: {
+        type: 'object',
+        properties: {
+          request: { type: 'string', description: 'What the code should do' },
+          language: { type: 'string', description: 'Programming language, if the user named one' }
+        },
+        required: ['request']
+      }
+    },
+    status: 'Drafting code',
+    run: async ({ request, language }) => {
+      const provider = getProvider(AppMode.CODING);
+      const response = await provider.generateText({
+        model: provider.models.code,
+        systemInstruction: buildSystemInstruction('Reply with a single fenced code block and nothing else.', AppMode.CODING),
+        message: [{ text: language ? `${request}\nLanguage: ${language}` : request }]
+      });
+      const fence = response.text.match(CODE_FENCE);
+      const code = (fence ? fence[2] : response.text).trimEnd();
+      const lang = fence?.[1] || language?.toLowerCase() || 'text';
+      return {
+        response: { result: 'The code is on screen', language: lang, lines: code.split('\n').length },
+        card: { id: createCardId(), type: 'code', title: request, content: code, language: lang }
+      };
+    }
+  },
+  {
+    declaration: {
+      name: 'look_up',
+      description: 'Search the web for current information such as news, prices, weather or facts you are unsure of.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'What to look up' } },
+        required: ['query']
+      }
+    },
+    status: 'Searching the web',
+    run: async ({ query }) => {
+      const provider = getProvider(AppMode.CHAT);
+      const search = provider.capabilities.includes('search');
+      const response = await provider.generateText({
+        model: search ? provider.models.chatSearch : provider.models.chat,
+        systemInstruction: 'Answer in at most three sentences.',
+        message: [{ text: query }],
+        useSearch: search
+      });
+      const { sources, grounding } = parseGrounding(response.text, response.groundingMetadata);
+      return {
+        response: { answer: response.text, sources: sources.map(s => s.title || s.uri) },
+        card: { id: createCardId(), type: 'search', title: query, content: response.text, sources, grounding }
+      };
+    }
+  },
+  {
+    declaration: {
+      name: 'set_timer',
+      description: 'Start a countdown timer the user can see.',
+      parameters: {
+        type: 'object',
+        properties: {
+          seconds: { type: 'integer', description: 'Duration in seconds' },
+          label: { type: 'string', description: 'What the timer is for' }
+        },
+        required: ['seconds']
+      }
+    },
+    status: 'Starting timer',
+    run: async ({ seconds, label }) => {
+      const duration = Math.round(Number(seconds));
+      if (!(duration > 0 && duration <= MAX_TIMER_SECONDS)) return { response: { error: `Timers run from 1 to ${MAX_TIMER_SECONDS} seconds` } };
+      const endsAt = Date.now() + duration * 1000;
+      return {
+        response: { result: 'Timer started', endsAt: new Date(endsAt).toISOString() },
+        card: { id: createCardId(), type: 'timer', title: label || 'Timer', endsAt }
+      };
+    }
+  }
+];
+
+export const LIVE_TOOL_DECLARATIONS: LiveToolDeclaration[] = LIVE_TOOLS.map(t => t.declaration);
+
+export const findLiveTool = (name: string) => LIVE_TOOLS.find(t => t.declaration.name === name);
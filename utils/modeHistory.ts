@@ -0,0 +1,124 @@
+import { defineHistorySchema, isMessageLike, isPlainObject } from './schemas';
+import { ensureIds } from './branches';
+import { deriveThreadTitle } from './threads';
+import { MessageError } from '../types';
+import { ERROR_MESSAGES } from '../providers/errors';
+import { stripApiKey } from './apiKey';
+
+// Storage keys and schemas for the modes that keep their own history, shared
+// between the mode components and global search.
+
+export const FASTLAB_HISTORY_KEY = 'textgpt_fastlab_chat';
+export const FASTLAB_BRANCHES_KEY = 'textgpt_fastlab_branches';
+export const VISION_SESSIONS_KEY = 'textgpt_vision_sessions';
+export const IMAGE_HISTORY_KEY = 'textgpt_image_history';
+export const VIDEO_HISTORY_KEY = 'textgpt_video_history';
+export const CODE_FILES_KEY = 'textgpt_code_files';
+export const CODE_CHAT_KEY = 'textgpt_code_chat';
+export const LIVE_SESSIONS_KEY = 'textgpt_live_sessions';
+
+export const VISION_SESSION_LIMIT = 20;
+export const VIDEO_HISTORY_LIMIT = 20;
+export const LIVE_SESSION_LIMIT = 30;
+
+export interface VisionSession {
+  id: string;
+  name: string;
+  image: string;
+  messages: Array<{ role: 'user' | 'model'; text: string; isError?: boolean; error?: MessageError }>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ImageHistoryItem {
+  id: number;
+  prompt: string;
+  image: string;
+  timestamp: number;
+}
+
+export interface VideoHistoryItem {
+  id: number;
+  prompt: string;
+  url: string;
+  timestamp: number;
+}
+
+// One caption per turn; transcription chunks are appended until the speaker changes or the turn ends.
+export interface LiveTranscriptEntry {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  // Set on replies the user talked over.
+  interrupted?: boolean;
+}
+
+export interface LiveSessionRecord {
+  id: string;
+  entries: LiveTranscriptEntry[];
+  startedAt: number;
+  updatedAt: number;
+}
+
+export const liveSessionTitle = (session: LiveSessionRecord) =>
+  deriveThreadTitle(session.entries.find(e => e.role === 'user')?.text || 'Voice session');
+
+defineHistorySchema({
+  key: FASTLAB_HISTORY_KEY,
+  version: 2,
+  legacyKeys: ['textgpt_fastlab_chat_v3'],
+  migrations: {
+    // v1: messages form a branch tree.
+    0: (messages) => ensureIds(messages),
+    // v2: failed replies carry a typed error instead of placeholder text.
+    1: (messages) => messages.map((m: any) => m.role === 'model' && m.text === 'Neural link failure Action cancelled'
+      ? { ...m, text: ERROR_MESSAGES.unknown, isError: true, error: { kind: 'unknown', message: ERROR_MESSAGES.unknown } }
+      : m)
+  },
+  validate: Array.isArray,
+  validateItem: isMessageLike
+});
+
+defineHistorySchema({ key: FASTLAB_BRANCHES_KEY, version: 1, legacyKeys: ['textgpt_fastlab_branches_v1'], validate: isPlainObject });
+
+defineHistorySchema({
+  key: VISION_SESSIONS_KEY,
+  version: 1,
+  validate: Array.isArray,
+  validateItem: (s) => typeof s?.id === 'string' && typeof s.image === 'string' && Array.isArray(s.messages)
+});
+
+defineHistorySchema({
+  key: IMAGE_HISTORY_KEY,
+  version: 1,
+  legacyKeys: ['textgpt_image_history_v3'],
+  validate: Array.isArray,
+  // Gemini returns inline data; OpenAI-compatible servers may return a hosted link instead.
+  validateItem: (item) => typeof item?.prompt === 'string' && typeof item.image === 'string' && /^(data:|https?:\/\/)/.test(item.image)
+});
+
+defineHistorySchema({
+  key: VIDEO_HISTORY_KEY,
+  version: 2,
+  // Version 1 stored Veo links with the API key appended.
+  migrations: { 1: (items: VideoHistoryItem[]) => items.map(item => ({ ...item, url: stripApiKey(item.url) })) },
+  validate: Array.isArray,
+  validateItem: (item) => typeof item?.prompt === 'string' && typeof item.url === 'string'
+});
+
+defineHistorySchema({
+  key: CODE_FILES_KEY,
+  version: 1,
+  legacyKeys: ['textgpt_code_files_v4_pro'],
+  validate: Array.isArray,
+  validateItem: (f) => typeof f?.filename === 'string' && typeof f.content === 'string'
+});
+
+defineHistorySchema({ key: CODE_CHAT_KEY, version: 1, legacyKeys: ['textgpt_code_chat_v4_pro'], validate: Array.isArray, validateItem: isMessageLike });
+
+defineHistorySchema({
+  key: LIVE_SESSIONS_KEY,
+  version: 1,
+  validate: Array.isArray,
+  validateItem: (s) => typeof s?.id === 'string' && Array.isArray(s.entries) && s.entries.every(isMessageLike)
+});
@@ -0,0 +1,85 @@
+import { Schema, Type } from '@google/genai';
+import { AppMode, FastLabTask, ImageResolution, LiveConfig } from '../types';
+import { ChatTurn, ImageRequest, LiveRequest, ProviderModels, ProviderPart, TextRequest, VideoRequest } from '../providers/types';
+import { buildSystemInstruction } from './personas';
+import { languageInstruction } from './liveConfig';
+import { LIVE_TOOL_DECLARATIONS } from './liveTools';
+
+// The requests each mode sends, built in one place so the provider fixture tests
+// replay exactly what the components ask for. Per-call extras such as abort
+// signals and callbacks are added by the caller.
+
+const CHAT_ROLE = 'You are TextGpt ai.';
+const FAST_ROLE = 'You are an elite linguistic processor.';
+const VISION_ROLE = 'You are an elite vision processor.';
+const CODE_ROLE = "You generate complete multi file projects. The code in every file must remain fully functional regardless of the style rules below, which apply to the explanation field only.";
+const LIVE_ROLE = "You are TextGpt ai. You are a helpful female AI assistant with a friendly girl persona. Use your tools to put links, images, code, web answers and timers on the user's screen.";
+
+const PROJECT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    explanation: { type: Type.STRING },
+    files: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { filename: { type: Type.STRING }, content: { type: Type.STRING }, language: { type: Type.STRING } },
+        required: ['filename', 'content', 'language']
+      }
+    }
+  },
+  required: ['files', 'explanation']
+};
+
+export interface ChatRequestOptions {
+  message: ProviderPart[];
+  history: ChatTurn[];
+  useSearch: boolean;
+  personaId?: string;
+}
+
+export const chatRequest = (models: ProviderModels, { message, history, useSearch, personaId }: ChatRequestOptions): TextRequest => ({
+  model: useSearch ? models.chatSearch : models.chat,
+  systemInstruction: buildSystemInstruction(CHAT_ROLE, AppMode.CHAT, personaId),
+  history,
+  message,
+  useSearch
+});
+
+export const fastPrompt = (text: string, task: FastLabTask) => task === 'summarize'
+  ? `Synthesize this into a high density executive summary ${text}`
+  : `Refine this for professional clarity and flawless grammar ${text}`;
+
+export const fastRequest = (models: ProviderModels, prompt: string): TextRequest => ({
+  model: models.fast,
+  systemInstruction: buildSystemInstruction(FAST_ROLE, AppMode.FAST),
+  message: [{ text: prompt }]
+});
+
+export const visionRequest = (models: ProviderModels, image: { mimeType: string; data: string }, prompt: string): TextRequest => ({
+  model: models.vision,
+  systemInstruction: buildSystemInstruction(VISION_ROLE, AppMode.VISION),
+  message: [{ inlineData: image }, { text: prompt }]
+});
+
+export const codeRequest = (models: ProviderModels, instruction: string): TextRequest => ({
+  model: models.code,
+  message: [{ text: `Generate project for ${instruction}` }],
+  systemInstruction: buildSystemInstruction(CODE_ROLE, AppMode.CODING),
+  responseMimeType: 'application/json',
+  responseSchema: PROJECT_SCHEMA
+});
+
+export const imageRequest = (prompt: string, resolution: ImageResolution): ImageRequest => ({ prompt, resolution });
+
+export const videoRequest = (prompt: string, image?: { mimeType: string; data: string }): VideoRequest =>
+  ({ prompt, image, resolution: '720p', aspectRatio: '16:9' });
+
+export const liveRequest = (models: ProviderModels, config: LiveConfig): Omit<LiveRequest, 'callbacks'> => ({
+  model: models.live,
+  systemInstruction: [buildSystemInstruction(LIVE_ROLE, AppMode.LIVE, config.personaId), languageInstruction(config.languageCode)].filter(Boolean).join(' '),
+  voiceName: config.voiceName,
+  languageCode: config.languageCode || undefined,
+  transcribe: true,
+  tools: LIVE_TOOL_DECLARATIONS
+});
@@ -0,0 +1,71 @@
+import { AppMode } from '../types';
+import { GenerationParams, HarmCategoryId, SafetyThreshold } from '../providers/types';
+import { saveToHistory, loadFromHistory } from './history';
+import { defineHistorySchema, isPlainObject } from './schemas';
+import { activeUserId } from './profile';
+
+export const MODEL_SETTINGS_KEY = 'textgpt_model_settings';
+
+// An empty field means "use the mode's default".
+export interface ModeSettings extends GenerationParams {
+  model?: string;
+}
+
+// Keyed by profile id, then by mode.
+type StoredModelSettings = Record<string, Partial<Record<AppMode, ModeSettings>>>;
+
+// Modes whose requests accept sampling parameters; media modes only take a model.
+export const TEXT_MODES: AppMode[] = [AppMode.CHAT, AppMode.FAST, AppMode.VISION, AppMode.CODING];
+
+export const HARM_CATEGORY_OPTIONS: Array<{ id: HarmCategoryId; label: string }> = [
+  { id: 'harassment', label: 'Harassment' },
+  { id: 'hateSpeech', label: 'Hate speech' },
+  { id: 'sexuallyExplicit', label: 'Sexually explicit' },
+  { id: 'dangerousContent', label: 'Dangerous content' }
+];
+
+export const SAFETY_THRESHOLD_OPTIONS: Array<{ id: SafetyThreshold; label: string }> = [
+  { id: 'BLOCK_NONE', label: 'Block none' },
+  { id: 'BLOCK_ONLY_HIGH', label: 'Block high' },
+  { id: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block medium+' },
+  { id: 'BLOCK_LOW_AND_ABOVE', label: 'Block low+' }
+];
+
+type NumericParam = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+
+export const NUMERIC_PARAMS: Array<{ key: NumericParam; label: string; min: number; max?: number; step: number; hint?: string }> = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.05 },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.01 },
+  { key: 'maxOutputTokens', label: 'Max output tokens', min: 1, step: 1 },
+  { key: 'thinkingBudget', label: 'Thinking budget', min: -1, step: 1, hint: '-1 lets the model decide, 0 disables' }
+];
+
+defineHistorySchema({
+  key: MODEL_SETTINGS_KEY,
+  version: 1,
+  validate: (settings) => isPlainObject(settings) && Object.values(settings).every(isPlainObject)
+});
+
+const loadAll = (): StoredModelSettings => loadFromHistory(MODEL_SETTINGS_KEY, {});
+
+export const loadModeSettings = (mode: AppMode, user = activeUserId()): ModeSettings => loadAll()[user]?.[mode] || {};
+
+export const saveModeSettings = (mode: AppMode, settings: ModeSettings, user = activeUserId()) => {
+  const all = loadAll();
+  saveToHistory(MODEL_SETTINGS_KEY, { ...all, [user]: { ...all[user], [mode]: settings } });
+};
+
+export const resetModeSettings = (mode: AppMode, user = activeUserId()) => {
+  const all = loadAll();
+  const { [mode]: _removed, ...rest } = all[user] || {};
+  saveToHistory(MODEL_SETTINGS_KEY, { ...all, [user]: rest });
+};
+
+// Undefined when nothing is set, so requests (and fixture keys) stay unchanged by default.
+export const toGenerationParams = (mode: AppMode, settings: ModeSettings): GenerationParams | undefined => {
+  if (!TEXT_MODES.includes(mode)) return undefined;
+  const params: GenerationParams = {};
+  NUMERIC_PARAMS.forEach(({ key }) => { if (typeof settings[key] === 'number') params[key] = settings[key]; });
+  if (settings.safety && Object.keys(settings.safety).length) params.safety = settings.safety;
+  return Object.keys(params).length ? params : undefined;
+};
@@ -0,0 +1,60 @@
+import { AppMode, PersonaProfile } from '../types';
+import { SYSTEM_LITERALS } from '../constants';
+import { saveToHistory, loadFromHistory } from './history';
+import { defineHistorySchema, isPlainObject } from './schemas';
+
+export const PERSONAS_KEY = 'textgpt_personas';
+export const DEFAULT_PERSONA_ID = 'plain';
+
+export const BUILT_IN_PERSONAS: PersonaProfile[] = [
+  { id: 'plain', name: 'Plain', instruction: 'Answer clearly with normal punctuation. Use Markdown for lists, tables and code when it helps readability.', builtIn: true },
+  { id: 'concise', name: 'Concise', instruction: 'Keep answers short and direct. Prefer a few sentences or a tight bullet list and skip preamble.', builtIn: true },
+  { id: 'letters-only', name: 'Letters Only', instruction: SYSTEM_LITERALS, builtIn: true }
+];
+
+export interface PersonaStore {
+  custom: PersonaProfile[];
+  // Default persona id per AppMode; chat threads may override it individually.
+  modeDefaults: Partial<Record<AppMode, string>>;
+}
+
+defineHistorySchema({
+  key: PERSONAS_KEY,
+  version: 1,
+  legacyKeys: ['textgpt_personas_v1'],
+  validate: (store) => isPlainObject(store) && Array.isArray(store.custom) && isPlainObject(store.modeDefaults)
+});
+
+export const loadPersonaStore = (): PersonaStore => {
+  const store = loadFromHistory(PERSONAS_KEY, null);
+  return { custom: store?.custom || [], modeDefaults: store?.modeDefaults || {} };
+};
+
+export const savePersonaStore = (store: PersonaStore) => saveToHistory(PERSONAS_KEY, store);
+
+export const listPersonas = (store: PersonaStore = loadPersonaStore()): PersonaProfile[] => [...BUILT_IN_PERSONAS, ...store.custom];
+
+export const createPersona = (name: string, instruction: string): PersonaProfile => ({
+  id: `persona_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  instruction
+});
+
+export const getModePersonaId = (mode: AppMode, store: PersonaStore = loadPersonaStore()): string =>
+  store.modeDefaults[mode] || DEFAULT_PERSONA_ID;
+
+// Resolves a persona, falling back to the mode default and then to the global
+// default when a stored id points at a deleted profile.
+export const resolvePersona = (mode: AppMode, personaId?: string): PersonaProfile => {
+  const store = loadPersonaStore();
+  const all = listPersonas(store);
+  return all.find(p => p.id === personaId)
+    || all.find(p => p.id === getModePersonaId(mode, store))
+    || BUILT_IN_PERSONAS[0];
+};
+
+// Each mode keeps its own role line; the persona supplies the response style.
+export const buildSystemInstruction = (role: string, mode: AppMode, personaId?: string): string => {
+  const persona = resolvePersona(mode, personaId);
+  return [role, persona.instruction].filter(Boolean).join(' ');
+};
@@ -0,0 +1,28 @@
+import { UserProfile } from '../types';
+import { saveToHistory, loadFromHistory, clearHistory } from './history';
+import { defineHistorySchema } from './schemas';
+
+export const PROFILE_KEY = 'textgpt_profile';
+
+// Usage made without signing in is attributed to this id.
+export const LOCAL_USER = 'local';
+
+defineHistorySchema({
+  key: PROFILE_KEY,
+  version: 1,
+  validate: (p) => p === null || (typeof p?.email === 'string' && typeof p.name === 'string')
+});
+
+export const loadProfile = (): UserProfile | null => loadFromHistory(PROFILE_KEY, null);
+
+export const saveProfile = (profile: UserProfile) => saveToHistory(PROFILE_KEY, profile);
+
+export const clearProfile = () => clearHistory(PROFILE_KEY);
+
+export const profileId = (profile: UserProfile | null) => profile?.email?.trim().toLowerCase() || LOCAL_USER;
+
+export const activeUserId = () => profileId(loadProfile());
+
+// Signed-in emails listed in ADMIN_EMAILS (comma separated) may manage budgets.
+export const isAdmin = (user = activeUserId()) =>
+  user !== LOCAL_USER && (process.env.ADMIN_EMAILS || '').split(',').some(email => email.trim().toLowerCase() === user);
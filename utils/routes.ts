@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import { AppMode, FocusTarget } from '../types';
+
+// Hash routes: #/<mode>[/<item>]. The item is whatever the mode shows first:
+// a chat thread, a workspace file, a vision or voice session or an image or video take.
+// A route with an item is applied as a FocusTarget, so deep links, back/forward
+// and global search all select items the same way.
+
+const MODE_SLUGS: Record<AppMode, string> = {
+  [AppMode.CHAT]: 'chat',
+  [AppMode.LIVE]: 'live',
+  [AppMode.IMAGES]: 'images',
+  [AppMode.VISION]: 'vision',
+  [AppMode.FAST]: 'fast',
+  [AppMode.CODING]: 'code',
+  [AppMode.VIDEO]: 'video'
+};
+
+export type RouteItem = string | number | null | undefined;
+
+export const routeHash = (mode: AppMode, item?: RouteItem) =>
+  `#/${MODE_SLUGS[mode]}${item !== null && item !== undefined && item !== '' ? `/${encodeURIComponent(String(item))}` : ''}`;
+
+// The item part of a focus target, for modes that have one.
+export const routeItem = (target: FocusTarget): RouteItem => {
+  switch (target.mode) {
+    case AppMode.CHAT: return target.threadId;
+    case AppMode.CODING: return target.filename;
+    case AppMode.VISION:
+    case AppMode.LIVE: return target.sessionId;
+    case AppMode.IMAGES:
+    case AppMode.VIDEO: return target.itemId;
+    default: return undefined;
+  }
+};
+
+export const hasRouteItem = (target: FocusTarget) => routeItem(target) !== undefined;
+
+// Null for anything that is not a known route, including an empty hash.
+export const parseRoute = (hash: string): FocusTarget | null => {
+  const [slug, ...rest] = hash.replace(/^#\/?/, '').split('/');
+  const mode = (Object.keys(MODE_SLUGS) as AppMode[]).find(m => MODE_SLUGS[m] === slug);
+  if (!mode) return null;
+  let item: string;
+  try {
+    item = decodeURIComponent(rest.join('/'));
+  } catch (e) {
+    item = '';
+  }
+  if (!item) return { mode };
+  switch (mode) {
+    case AppMode.CHAT: return { mode, threadId: item };
+    case AppMode.CODING: return { mode, filename: item };
+    case AppMode.VISION:
+    case AppMode.LIVE: return { mode, sessionId: item };
+    case AppMode.IMAGES:
+    case AppMode.VIDEO: return Number.isFinite(Number(item)) ? { mode, itemId: Number(item) } : { mode };
+    default: return { mode };
+  }
+};
+
+export const currentRoute = () => parseRoute(window.location.hash);
+
+// A new history entry, for navigation the user chose.
+export const pushRoute = (mode: AppMode, item?: RouteItem) => {
+  const hash = routeHash(mode, item);
+  if (window.location.hash !== hash) history.pushState(null, '', hash);
+};
+
+// Moving from one item to another in the same mode is a step back/forward can
+// return to; filling in or dropping the item of the current route is not.
+export const syncRoute = (mode: AppMode, item: RouteItem) => {
+  const hash = routeHash(mode, item);
+  if (window.location.hash === hash) return;
+  const current = currentRoute();
+  const hasItem = item !== null && item !== undefined && item !== '';
+  if (current?.mode === mode && hasRouteItem(current) && hasItem) history.pushState(null, '', hash);
+  else history.replaceState(null, '', hash);
+};
+
+// Keeps the URL on the item a mode is showing. Paused while a focus target is
+// pending, so a deep link is not replaced by the item the mode opened with.
+export const useRouteItem = (mode: AppMode, item: RouteItem, pending: boolean) => {
+  useEffect(() => {
+    if (!pending) syncRoute(mode, item);
+  }, [mode, item, pending]);
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { HistorySchema, upgradeRecord, wrapRecord } from './schemas';
+
+const notes: HistorySchema = {
+  key: 'textgpt_test_notes',
+  version: 3,
+  migrations: {
+    0: (data: string[]) => data.map(text => ({ text })),
+    // Version 1 to 2 changed nothing stored.
+    2: (data: Array<{ text: string }>) => data.map(n => ({ ...n, pinned: false }))
+  },
+  validate: Array.isArray,
+  validateItem: (n) => typeof n.text === 'string'
+};
+
+describe('upgradeRecord', () => {
+  it('runs every migration from an unwrapped legacy value', () => {
+    expect(upgradeRecord(notes, ['a'])).toEqual({ ok: true, data: [{ text: 'a', pinned: false }], dropped: [], changed: true });
+  });
+
+  it('starts from the saved version and skips missing steps', () => {
+    expect(upgradeRecord(notes, { __schema: 1, data: [{ text: 'a' }] })).toMatchObject({ ok: true, data: [{ text: 'a', pinned: false }] });
+  });
+
+  it('leaves a current record unchanged', () => {
+    const data = [{ text: 'a', pinned: true }];
+    expect(upgradeRecord(notes, wrapRecord(notes, data))).toEqual({ ok: true, data, dropped: [], changed: false });
+  });
+
+  it('drops invalid items, including ones that throw, and reports them', () => {
+    const result = upgradeRecord(notes, wrapRecord(notes, [{ text: 'a' }, { text: 1 }, null]));
+    expect(result).toEqual({ ok: true, data: [{ text: 'a' }], dropped: [{ text: 1 }, null], changed: true });
+  });
+
+  it('refuses records from a newer schema', () => {
+    expect(upgradeRecord(notes, { __schema: 4, data: [] })).toEqual({ ok: false, reason: 'Saved by a newer schema (v4 > v3)' });
+  });
+
+  it('reports the step that failed', () => {
+    expect(upgradeRecord(notes, 'not an array')).toMatchObject({ ok: false, reason: expect.stringMatching(/^Migration from v0 failed/) });
+  });
+
+  it('fails validation of the whole record', () => {
+    expect(upgradeRecord(notes, wrapRecord(notes, { text: 'a' }))).toEqual({ ok: false, reason: 'Failed validation' });
+  });
+});
@@ -0,0 +1,76 @@
+// Every persisted record type registers a schema next to its key. Saved values
+// are wrapped as { __schema: version, data }; anything without the wrapper was
+// written before schemas existed and counts as version 0.
+
+export interface HistorySchema {
+  key: string;
+  version: number;
+  // Keys this record used to live under; read once when `key` is empty, then removed.
+  legacyKeys?: string[];
+  // migrations[n] upgrades version n data to version n + 1. Missing steps are no-ops.
+  migrations?: Record<number, (data: any) => any>;
+  validate: (data: any) => boolean;
+  // Array records drop invalid items one by one instead of failing as a whole.
+  validateItem?: (item: any) => boolean;
+}
+
+export interface SchemaEnvelope {
+  __schema: number;
+  data: any;
+}
+
+export type UpgradeResult =
+  | { ok: true; data: any; dropped: any[]; changed: boolean }
+  | { ok: false; reason: string };
+
+const schemas = new Map<string, HistorySchema>();
+
+export const defineHistorySchema = (schema: HistorySchema) => {
+  schemas.set(schema.key, schema);
+  return schema;
+};
+
+export const getHistorySchema = (key: string) => schemas.get(key);
+
+export const listHistorySchemas = () => [...schemas.values()];
+
+export const isEnvelope = (raw: any): raw is SchemaEnvelope =>
+  !!raw && typeof raw === 'object' && typeof raw.__schema === 'number' && 'data' in raw;
+
+export const wrapRecord = (schema: HistorySchema, data: any): SchemaEnvelope => ({ __schema: schema.version, data });
+
+const safely = (check: (value: any) => boolean, value: any) => {
+  try {
+    return check(value);
+  } catch (e) {
+    return false;
+  }
+};
+
+export const upgradeRecord = (schema: HistorySchema, raw: any): UpgradeResult => {
+  const from = isEnvelope(raw) ? raw.__schema : 0;
+  let data = isEnvelope(raw) ? raw.data : raw;
+  if (from > schema.version) return { ok: false, reason: `Saved by a newer schema (v${from} > v${schema.version})` };
+
+  let version = from;
+  try {
+    for (; version < schema.version; version++) {
+      const migrate = schema.migrations?.[version];
+      if (migrate) data = migrate(data);
+    }
+  } catch (e: any) {
+    return { ok: false, reason: `Migration from v${version} failed: ${e?.message || e}` };
+  }
+
+  let dropped: any[] = [];
+  if (schema.validateItem && Array.isArray(data)) {
+    dropped = data.filter(item => !safely(schema.validateItem!, item));
+    if (dropped.length) data = data.filter(item => safely(schema.validateItem!, item));
+  }
+  if (!safely(schema.validate, data)) return { ok: false, reason: 'Failed validation' };
+  return { ok: true, data, dropped, changed: from !== schema.version || dropped.length > 0 };
+};
+
+export const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const isMessageLike = (m: any) => (m?.role === 'user' || m?.role === 'model') && typeof m.text === 'string';
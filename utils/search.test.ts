@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { AppMode } from '../types';
+import { SearchDocument, searchIndex } from './search';
+
+const message = (threadId: string, title: string, id: string, text: string, timestamp: number): SearchDocument => ({
+  id: `chat:${threadId}:${id}`,
+  mode: AppMode.CHAT,
+  title,
+  text,
+  group: `chat:${threadId}`,
+  timestamp,
+  target: { mode: AppMode.CHAT, threadId, messageId: id }
+});
+
+const thread = [
+  message('t1', 'Trip to Lisbon', 'm1', 'Where should I stay for three nights?', 1),
+  message('t1', 'Trip to Lisbon', 'm2', 'Alfama and Baixa are both central and walkable.', 2),
+  message('t1', 'Trip to Lisbon', 'm3', 'What about trams?', 3)
+];
+
+const all = { modes: [], range: 'any' as const };
+
+describe('searchIndex', () => {
+  it('lists a thread once when only its title matches', () => {
+    const results = searchIndex(thread, 'lisbon', all);
+    expect(results.map(r => r.doc.id)).toEqual(['chat:t1:m3']);
+  });
+
+  it('starts the snippet at the beginning of the text for a title match', () => {
+    expect(searchIndex(thread, 'lisbon', all)[0].snippet).toBe('What about trams?');
+  });
+
+  it('keeps a message that matches in its own text', () => {
+    const results = searchIndex(thread, 'lisbon trams', all);
+    expect(results.map(r => r.doc.id)).toEqual(['chat:t1:m3']);
+    expect(searchIndex(thread, 'alfama', all).map(r => r.doc.id)).toEqual(['chat:t1:m2']);
+  });
+
+  it('prefers a message that mentions the title over the rest of the thread', () => {
+    const results = searchIndex([...thread, message('t1', 'Trip to Lisbon', 'm4', 'Lisbon trams are old but charming.', 4)], 'lisbon', all);
+    expect(results.map(r => r.doc.id)).toEqual(['chat:t1:m4']);
+  });
+
+  it('centres the snippet on the first hit in a long text', () => {
+    const text = `${'filler '.repeat(40)}needle ${'filler '.repeat(40)}`;
+    const [result] = searchIndex([{ ...thread[0], text }], 'needle', all);
+    expect(result.snippet.startsWith('…')).toBe(true);
+    expect(result.snippet).toContain('needle');
+  });
+});
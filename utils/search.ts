@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { AppMode, ChatThread, CodeFile, FocusTarget } from '../types';
+import { loadFromHistory } from './history';
+import { THREADS_KEY } from './threads';
+import {
+  CODE_CHAT_KEY, CODE_FILES_KEY, FASTLAB_HISTORY_KEY, IMAGE_HISTORY_KEY, LIVE_SESSIONS_KEY, VIDEO_HISTORY_KEY, VISION_SESSIONS_KEY,
+  ImageHistoryItem, LiveSessionRecord, VideoHistoryItem, VisionSession, liveSessionTitle
+} from './modeHistory';
+
+// Global search reads every mode's saved history straight from the history
+// cache. The index is small enough to rebuild each time the search opens.
+
+export interface SearchDocument {
+  id: string;
+  mode: AppMode;
+  title: string;
+  text: string;
+  // Set on the messages of one thread or session, which all carry its title.
+  group?: string;
+  // Records saved without a date (code files, older messages) only match "Any time".
+  timestamp?: number;
+  target: FocusTarget;
+}
+
+export type DateRange = 'any' | 'day' | 'week' | 'month';
+
+export const DATE_RANGES: Array<{ id: DateRange; label: string; ms: number }> = [
+  { id: 'any', label: 'Any time', ms: Infinity },
+  { id: 'day', label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { id: 'week', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { id: 'month', label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 }
+];
+
+export const SEARCHABLE_MODES: AppMode[] = [AppMode.CHAT, AppMode.FAST, AppMode.VISION, AppMode.LIVE, AppMode.IMAGES, AppMode.VIDEO, AppMode.CODING];
+
+export interface SearchFilters {
+  // Empty means every mode.
+  modes: AppMode[];
+  range: DateRange;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+const HIGHLIGHT_MS = 2000;
+
+const titleOf = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > 60 ? `${clean.slice(0, 60)}…` : clean;
+};
+
+export const buildSearchIndex = (): SearchDocument[] => {
+  const docs: SearchDocument[] = [];
+
+  const threads: ChatThread[] = loadFromHistory(THREADS_KEY, []);
+  threads.forEach(t => t.messages.forEach(m => docs.push({
+    id: `chat:${t.id}:${m.id}`,
+    mode: AppMode.CHAT,
+    title: t.title,
+    text: m.text,
+    group: `chat:${t.id}`,
+    timestamp: m.timestamp,
+    target: { mode: AppMode.CHAT, threadId: t.id, messageId: m.id }
+  })));
+
+  const fastlab: Array<{ id?: string; text: string; timestamp?: number }> = loadFromHistory(FASTLAB_HISTORY_KEY, []);
+  fastlab.forEach(m => docs.push({
+    id: `fast:${m.id}`,
+    mode: AppMode.FAST,
+    title: titleOf(m.text),
+    text: m.text,
+    timestamp: m.timestamp,
+    target: { mode: AppMode.FAST, messageId: m.id }
+  }));
+
+  const sessions: VisionSession[] = loadFromHistory(VISION_SESSIONS_KEY, []);
+  sessions.forEach(s => s.messages.forEach((m, i) => docs.push({
+    id: `vision:${s.id}:${i}`,
+    mode: AppMode.VISION,
+    title: s.name,
+    text: m.text,
+    group: `vision:${s.id}`,
+    timestamp: s.updatedAt,
+    target: { mode: AppMode.VISION, sessionId: s.id, messageIndex: i }
+  })));
+
+  const live: LiveSessionRecord[] = loadFromHistory(LIVE_SESSIONS_KEY, []);
+  live.forEach(s => s.entries.forEach((e, i) => docs.push({
+    id: `live:${s.id}:${i}`,
+    mode: AppMode.LIVE,
+    title: liveSessionTitle(s),
+    text: e.text,
+    group: `live:${s.id}`,
+    timestamp: e.timestamp,
+    target: { mode: AppMode.LIVE, sessionId: s.id, messageIndex: i }
+  })));
+
+  const images: ImageHistoryItem[] = loadFromHistory(IMAGE_HISTORY_KEY, []);
+  images.forEach(item => docs.push({
+    id: `image:${item.id}`,
+    mode: AppMode.IMAGES,
+    title: titleOf(item.prompt),
+    text: item.prompt,
+    timestamp: item.timestamp,
+    target: { mode: AppMode.IMAGES, itemId: item.id }
+  }));
+
+  const videos: VideoHistoryItem[] = loadFromHistory(VIDEO_HISTORY_KEY, []);
+  videos.forEach(item => docs.push({
+    id: `video:${item.id}`,
+    mode: AppMode.VIDEO,
+    title: titleOf(item.prompt),
+    text: item.prompt,
+    timestamp: item.timestamp,
+    target: { mode: AppMode.VIDEO, itemId: item.id }
+  }));
+
+  const files: CodeFile[] = loadFromHistory(CODE_FILES_KEY, []);
+  files.forEach(f => docs.push({
+    id: `code:${f.filename}`,
+    mode: AppMode.CODING,
+    title: f.filename,
+    text: f.content,
+    target: { mode: AppMode.CODING, filename: f.filename }
+  }));
+
+  const codeChat: Array<{ text: string; timestamp?: number }> = loadFromHistory(CODE_CHAT_KEY, []);
+  codeChat.forEach((m, i) => docs.push({
+    id: `code-chat:${i}`,
+    mode: AppMode.CODING,
+    title: titleOf(m.text),
+    text: m.text,
+    timestamp: m.timestamp,
+    target: { mode: AppMode.CODING, messageIndex: i }
+  }));
+
+  return docs.filter(d => d.text);
+};
+
+export const tokenize = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const countOccurrences = (haystack: string, needle: string) => {
+  let count = 0;
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) count++;
+  return count;
+};
+
+// Centred on the first token found in the text, or its start when only the title matched.
+const makeSnippet = (text: string, lower: string, tokens: string[]) => {
+  const hits = tokens.map(t => lower.indexOf(t)).filter(i => i !== -1);
+  const start = hits.length ? Math.max(0, Math.min(...hits) - SNIPPET_BEFORE) : 0;
+  const snippet = text.slice(start, start + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+};
+
+// Every token must appear in the title or text. Title hits and whole-phrase
+// matches rank higher; ties go to the most recent record. A thread whose title
+// matches is listed once rather than once per message.
+export const searchIndex = (docs: SearchDocument[], query: string, filters: SearchFilters, limit = 50): SearchResult[] => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+  const phrase = tokens.join(' ');
+  const range = DATE_RANGES.find(r => r.id === filters.range)!;
+  const since = Date.now() - range.ms;
+
+  const results: Array<SearchResult & { titleOnly: boolean }> = [];
+  docs.forEach(doc => {
+    if (filters.modes.length && !filters.modes.includes(doc.mode)) return;
+    if (range.id !== 'any' && (!doc.timestamp || doc.timestamp < since)) return;
+    const title = doc.title.toLowerCase();
+    const text = doc.text.toLowerCase();
+    let score = 0;
+    let titleOnly = false;
+    for (const token of tokens) {
+      const inTitle = countOccurrences(title, token);
+      const inText = countOccurrences(text, token);
+      if (!inTitle && !inText) return;
+      if (!inText) titleOnly = true;
+      score += inTitle * 3 + Math.min(inText, 5);
+    }
+    if (tokens.length > 1 && (title.includes(phrase) || text.includes(phrase))) score += 5;
+    results.push({ doc, score, snippet: makeSnippet(doc.text, text, tokens), titleOnly });
+  });
+
+  const groups = new Set<string>();
+  return results
+    .sort((a, b) => (b.score - a.score) || ((b.doc.timestamp || 0) - (a.doc.timestamp || 0)))
+    .filter(({ doc, titleOnly }) => {
+      if (!doc.group) return true;
+      if (titleOnly && groups.has(doc.group)) return false;
+      groups.add(doc.group);
+      return true;
+    })
+    .slice(0, limit)
+    .map(({ titleOnly: _titleOnly, ...result }) => result);
+};
+
+// Scrolls a search hit into view and reports its element id while it should stay highlighted.
+export const useSearchHighlight = (): [string | null, (elementId: string) => void] => {
+  const [elementId, setElementId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!elementId) return;
+    document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setElementId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [elementId]);
+  return [elementId, setElementId];
+};
@@ -0,0 +1,91 @@
+import { AppMode } from '../types';
+import { MODE_LABELS } from '../constants';
+import { saveToHistory, loadFromHistory, clearHistory } from './history';
+import { defineHistorySchema, isPlainObject } from './schemas';
+
+export const SHORTCUTS_KEY = 'textgpt_shortcuts';
+
+// Combos are written as "Mod+Shift+K": Mod is Cmd on macOS and Ctrl elsewhere,
+// followed by any of Ctrl (macOS only), Alt and Shift, then the key.
+
+export type ShortcutId =
+  | 'palette' | 'search' | 'shortcuts' | 'settings' | 'usage'
+  | 'send' | 'stop' | 'toggleGrounding'
+  | `mode.${AppMode}`;
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string;
+  group: string;
+  keys: string;
+}
+
+// Sidebar order, so Alt+1..7 follow what is on screen.
+const MODE_ORDER: AppMode[] = [AppMode.CHAT, AppMode.VISION, AppMode.LIVE, AppMode.IMAGES, AppMode.VIDEO, AppMode.FAST, AppMode.CODING];
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'palette', label: 'Command palette', group: 'General', keys: 'Mod+K' },
+  { id: 'search', label: 'Search history', group: 'General', keys: 'Mod+Shift+F' },
+  { id: 'shortcuts', label: 'Keyboard shortcuts', group: 'General', keys: 'Mod+/' },
+  { id: 'settings', label: 'Settings', group: 'General', keys: 'Mod+,' },
+  { id: 'usage', label: 'Usage', group: 'General', keys: 'Mod+Shift+U' },
+  { id: 'send', label: 'Send or generate', group: 'Current mode', keys: 'Mod+Enter' },
+  { id: 'stop', label: 'Stop generating', group: 'Current mode', keys: 'Mod+.' },
+  { id: 'toggleGrounding', label: 'Toggle web grounding', group: 'Current mode', keys: 'Mod+Shift+G' },
+  ...MODE_ORDER.map((mode, i): ShortcutDefinition => ({ id: `mode.${mode}`, label: `Go to ${MODE_LABELS[mode]}`, group: 'Modes', keys: `Alt+${i + 1}` }))
+];
+
+export type ShortcutBindings = Record<ShortcutId, string>;
+
+defineHistorySchema({ key: SHORTCUTS_KEY, version: 1, validate: isPlainObject });
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+// Letters and digits come from the physical key so Alt and Shift do not change them.
+const keyName = (e: KeyboardEvent) => {
+  if (/^Key[A-Z]$/.test(e.code)) return e.code.slice(3);
+  if (/^Digit\d$/.test(e.code)) return e.code.slice(5);
+  return e.key.length === 1 ? e.key.toUpperCase() : e.key;
+};
+
+// Null for a lone modifier press.
+export const comboFromEvent = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (IS_MAC ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (IS_MAC && e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(keyName(e));
+  return parts.join('+');
+};
+
+export const hasModifier = (combo: string) => /^(Mod|Ctrl|Alt)\+/.test(combo);
+
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Enter: '↩', Escape: 'Esc' };
+
+export const formatCombo = (combo: string) => {
+  if (!combo) return '';
+  const parts = combo.split(/\+(?!$)/);
+  return IS_MAC
+    ? parts.map(p => MAC_SYMBOLS[p] || p).join('')
+    : parts.map(p => p === 'Mod' ? 'Ctrl' : p).join('+');
+};
+
+// Only remapped shortcuts are stored; an empty string unbinds one.
+export const loadShortcutBindings = (): ShortcutBindings => {
+  const saved = loadFromHistory(SHORTCUTS_KEY, {});
+  return Object.fromEntries(SHORTCUTS.map(s => [s.id, typeof saved[s.id] === 'string' ? saved[s.id] : s.keys])) as ShortcutBindings;
+};
+
+// A combo belongs to one shortcut at a time, so taking it unbinds its previous owner.
+export const saveShortcutBinding = (id: ShortcutId, combo: string) => {
+  const bindings = loadShortcutBindings();
+  const next = Object.fromEntries(Object.entries(bindings).map(([other, keys]) => [other, other === id ? combo : keys === combo ? '' : keys]));
+  const overrides = Object.fromEntries(SHORTCUTS.filter(s => next[s.id] !== s.keys).map(s => [s.id, next[s.id]]));
+  saveToHistory(SHORTCUTS_KEY, overrides);
+};
+
+export const resetShortcutBindings = () => clearHistory(SHORTCUTS_KEY);
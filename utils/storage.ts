@@ -0,0 +1,233 @@
+// IndexedDB backend for utils/history. Records hold JSON metadata; large data
+// URLs and base64 payloads inside them are moved into a separate blob store and
+// replaced with references, so the same image shared by several records is kept once.
+// Loaded data URLs become object URLs, so images and videos stay on disk until
+// something resolves them with `resolveBlobUrls`. Raw base64 can sit in any field
+// and is read back as a string.
+
+const DB_NAME = 'textgpt';
+const DB_VERSION = 1;
+const RECORDS = 'records';
+const BLOBS = 'blobs';
+
+// Strings shorter than this stay inline; small payloads are not worth a lookup.
+const BLOB_MIN_LENGTH = 4096;
+const BLOB_REF = 'idb-blob:';
+const DATA_URL = /^data:([^;,]+);base64,/;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const BASE64_REF = new RegExp(`"${BLOB_REF}b64:([0-9a-f]+)"`, 'g');
+
+export interface StoredRecord {
+  key: string;
+  json: string;
+  blobIds: string[];
+  updatedAt: number;
+}
+
+interface StoredBlob {
+  id: string;
+  blob: Blob;
+}
+
+export interface StorageUsage {
+  backend: 'indexeddb' | 'localStorage';
+  usage: number;
+  quota: number;
+  records: number;
+  blobs: number;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const done = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB unavailable'));
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(RECORDS)) db.createObjectStore(RECORDS, { keyPath: 'key' });
+    if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const base64ToBlob = (data: string, mimeType: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Ids of recently saved or loaded blobs, most recent last. Hashing multi-megabyte
+// strings on every save adds up, and the keys are shared with the history cache.
+const BLOB_ID_CACHE_SIZE = 128;
+const blobIds = new Map<string, string>();
+
+const rememberBlobId = (value: string, id: string) => {
+  blobIds.delete(value);
+  blobIds.set(value, id);
+  if (blobIds.size > BLOB_ID_CACHE_SIZE) blobIds.delete(blobIds.keys().next().value!);
+};
+
+// Content address of a blob: the hex SHA-256 of its string form.
+const blobId = async (value: string) => {
+  let id = blobIds.get(value);
+  if (!id) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    id = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+  rememberBlobId(value, id);
+  return id;
+};
+
+type BlobKind = 'url' | 'b64';
+
+// Object URLs handed out for stored data URLs, and the blob behind each one.
+const blobUrls = new Map<string, { id: string; blob: Blob }>();
+const urlsById = new Map<string, string>();
+
+const blobUrlFor = (id: string, blob: Blob) => {
+  let url = urlsById.get(id);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    urlsById.set(id, url);
+    blobUrls.set(url, { id, blob });
+  }
+  return url;
+};
+
+// Turns stored blob object URLs anywhere inside `value` back into the data URLs
+// they were saved from, for code that needs the bytes themselves.
+export const resolveBlobUrls = async <T>(value: T): Promise<T> => {
+  const found = new Set<string>();
+  JSON.stringify(value, (_, v) => {
+    if (typeof v === 'string' && blobUrls.has(v)) found.add(v);
+    return v;
+  });
+  if (found.size === 0) return value;
+  const resolved = new Map(await Promise.all([...found].map(async url => {
+    const { blob } = blobUrls.get(url)!;
+    return [url, `data:${blob.type || 'application/octet-stream'};base64,${await blobToBase64(blob)}`] as const;
+  })));
+  return JSON.parse(JSON.stringify(value, (_, v) => typeof v === 'string' && resolved.has(v) ? resolved.get(v) : v));
+};
+
+// Serialises `value` with stored blob object URLs written as references, and back.
+// The references only resolve while their blobs are still in the database.
+export const stringifyBlobRefs = (value: any) =>
+  JSON.stringify(value, (_, v) => {
+    const stored = typeof v === 'string' && blobUrls.get(v);
+    return stored ? `${BLOB_REF}url:${stored.id}` : v;
+  });
+
+export const parseBlobRefs = (json: string, blobs: Map<string, Blob>, base64 = new Map<string, string>()) =>
+  JSON.parse(json, (_, value) => {
+    if (typeof value !== 'string' || !value.startsWith(BLOB_REF)) return value;
+    const [kind, id] = value.slice(BLOB_REF.length).split(':');
+    if (kind === 'b64') return base64.get(id) ?? '';
+    const blob = blobs.get(id);
+    return blob ? blobUrlFor(id, blob) : '';
+  });
+
+interface BlobCandidate {
+  id?: string;
+  kind: BlobKind;
+  blob: () => Blob;
+}
+
+const toBlobCandidate = (value: string): BlobCandidate | null => {
+  const stored = blobUrls.get(value);
+  if (stored) return { id: stored.id, kind: 'url', blob: () => stored.blob };
+  if (value.length < BLOB_MIN_LENGTH) return null;
+  const match = DATA_URL.exec(value);
+  if (!match && (value.length % 4 !== 0 || !BASE64.test(value))) return null;
+  const mimeType = match ? match[1] : 'application/octet-stream';
+  return { kind: match ? 'url' : 'b64', blob: () => base64ToBlob(match ? value.slice(match[0].length) : value, mimeType) };
+};
+
+export const writeRecord = async (db: IDBDatabase, key: string, data: any, stored: Set<string>): Promise<string[]> => {
+  // Digests are async, so large strings are found and hashed before the record is serialised.
+  const candidates = new Map<string, BlobCandidate>();
+  JSON.stringify(data, (_, value) => {
+    if (typeof value === 'string' && !candidates.has(value)) {
+      const candidate = toBlobCandidate(value);
+      if (candidate) candidates.set(value, candidate);
+    }
+    return value;
+  });
+  const ids = new Map(await Promise.all([...candidates].map(async ([value, c]) => [value, c.id || await blobId(value)] as const)));
+
+  const blobs = new Map<string, () => Blob>();
+  const json = JSON.stringify(data, (_, value) => {
+    const candidate = typeof value === 'string' && candidates.get(value);
+    if (!candidate) return value;
+    const id = ids.get(value)!;
+    blobs.set(id, candidate.blob);
+    return `${BLOB_REF}${candidate.kind}:${id}`;
+  });
+
+  const tx = db.transaction([RECORDS, BLOBS], 'readwrite');
+  const blobStore = tx.objectStore(BLOBS);
+  // Blobs already referenced by a stored record are content-addressed, so they need no rewrite.
+  blobs.forEach((blob, id) => { if (!stored.has(id)) blobStore.put({ id, blob: blob() } as StoredBlob); });
+  tx.objectStore(RECORDS).put({ key, json, blobIds: [...blobs.keys()], updatedAt: Date.now() } as StoredRecord);
+  await done(tx);
+  return [...blobs.keys()];
+};
+
+export const deleteRecord = async (db: IDBDatabase, key: string) => {
+  const tx = db.transaction(RECORDS, 'readwrite');
+  tx.objectStore(RECORDS).delete(key);
+  await done(tx);
+};
+
+export const deleteBlobs = async (db: IDBDatabase, ids: string[]) => {
+  if (ids.length === 0) return;
+  const tx = db.transaction(BLOBS, 'readwrite');
+  ids.forEach(id => tx.objectStore(BLOBS).delete(id));
+  await done(tx);
+};
+
+// Reads every record with data URLs as object URLs. Blobs read from IndexedDB are
+// handles to data on disk, so only the base64 payloads are loaded here.
+export const readAllRecords = async (db: IDBDatabase): Promise<{ records: Array<{ key: string; data: any; blobIds: string[] }>; blobs: Map<string, Blob> }> => {
+  const tx = db.transaction([RECORDS, BLOBS], 'readonly');
+  const records: StoredRecord[] = await promisify(tx.objectStore(RECORDS).getAll());
+  const stored: StoredBlob[] = await promisify(tx.objectStore(BLOBS).getAll());
+  const blobs = new Map(stored.map(b => [b.id, b.blob]));
+
+  const base64Ids = new Set(records.flatMap(r => [...r.json.matchAll(BASE64_REF)].map(m => m[1])));
+  const base64 = new Map(await Promise.all([...base64Ids].filter(id => blobs.has(id)).map(async id => [id, await blobToBase64(blobs.get(id)!)] as const)));
+  base64.forEach((value, id) => rememberBlobId(value, id));
+
+  return { blobs, records: records.map(r => ({ key: r.key, blobIds: r.blobIds, data: parseBlobRefs(r.json, blobs, base64) })) };
+};
+
+// Blob ids stored but no longer referenced by any record, e.g. after an interrupted write.
+export const findOrphanBlobs = async (db: IDBDatabase, referenced: Set<string>): Promise<string[]> => {
+  const tx = db.transaction(BLOBS, 'readonly');
+  const ids = await promisify(tx.objectStore(BLOBS).getAllKeys());
+  return (ids as string[]).filter(id => !referenced.has(id));
+};
+
+export const countStores = async (db: IDBDatabase) => {
+  const tx = db.transaction([RECORDS, BLOBS], 'readonly');
+  const [records, blobs] = await Promise.all([promisify(tx.objectStore(RECORDS).count()), promisify(tx.objectStore(BLOBS).count())]);
+  return { records, blobs };
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ChatAttachment, ChatMessage } from '../types';
+import { UPLOAD_LIFETIME_MS } from './attachments';
+import { toContentHistory, toMessageParts } from './threads';
+
+const SENT = Date.UTC(2026, 0, 1);
+
+const upload = (name: string, extra: Partial<ChatAttachment> = {}): ChatAttachment =>
+  ({ id: name, name, mimeType: 'video/mp4', size: 1, fileUri: `https://files.example/${name}`, ...extra });
+
+const ask = (attachments: ChatAttachment[], text = 'Describe these'): ChatMessage => ({ role: 'user', text, attachments, timestamp: SENT });
+
+describe('toMessageParts', () => {
+  it('sends inline data and uploads that are still available', () => {
+    const parts = toMessageParts(ask([upload('clip.mp4'), { id: 'i', name: 'a.png', mimeType: 'image/png', size: 1, url: 'data:image/png;base64,AAAA' }]), SENT + 1000);
+    expect(parts).toEqual([
+      { text: 'Describe these' },
+      { fileData: { mimeType: 'video/mp4', fileUri: 'https://files.example/clip.mp4' } },
+      { inlineData: { mimeType: 'image/png', data: 'AAAA' } }
+    ]);
+  });
+
+  it('replaces uploads past their expiry time with a note', () => {
+    const parts = toMessageParts(ask([upload('old.mp4', { fileExpiresAt: SENT + 1000 }), upload('new.mp4', { fileExpiresAt: SENT + 5000 })]), SENT + 2000);
+    expect(parts).toEqual([
+      { text: 'Describe these' },
+      { fileData: { mimeType: 'video/mp4', fileUri: 'https://files.example/new.mp4' } },
+      { text: '[Attachments no longer available: old.mp4]' }
+    ]);
+  });
+
+  it('assumes the upload lifetime when no expiry was saved', () => {
+    expect(toMessageParts(ask([upload('clip.mp4')], ''), SENT + UPLOAD_LIFETIME_MS)).toEqual([{ text: '[Attachments no longer available: clip.mp4]' }]);
+  });
+});
+
+describe('toContentHistory', () => {
+  it('leaves expired uploads out of replayed turns', () => {
+    const reply: ChatMessage = { role: 'model', text: 'A beach at sunrise', timestamp: SENT };
+    const history = toContentHistory([ask([upload('clip.mp4')]), reply], SENT + UPLOAD_LIFETIME_MS + 1);
+    expect(history).toEqual([
+      { role: 'user', parts: [{ text: 'Describe these' }, { text: '[Attachments no longer available: clip.mp4]' }] },
+      { role: 'model', parts: [{ text: 'A beach at sunrise' }] }
+    ]);
+  });
+});
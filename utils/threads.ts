@@ -0,0 +1,65 @@
+import { ChatMessage, ChatThread } from '../types';
+import { ChatTurn, ProviderPart } from '../providers/types';
+import { ERROR_MESSAGES } from '../providers/errors';
+import { dropDuplicateData, isUploadExpired, migrateAttachment, toAttachmentParts } from './attachments';
+import { ensureIds } from './branches';
+import { defineHistorySchema, isPlainObject } from './schemas';
+
+export const THREADS_KEY = 'textgpt_chat_threads';
+export const DEFAULT_THREAD_TITLE = 'New thread';
+
+defineHistorySchema({
+  key: THREADS_KEY,
+  version: 3,
+  legacyKeys: ['textgpt_chat_threads_v1'],
+  migrations: {
+    // v1: messages form a branch tree and carry an attachments list.
+    0: (threads: ChatThread[]) => threads.map(t => ({ ...t, messages: ensureIds(t.messages || []).map(migrateAttachment) })),
+    // v2: failed replies carry a typed error instead of placeholder text.
+    1: (threads: ChatThread[]) => threads.map(t => ({ ...t, messages: t.messages.map(m => m.isError && !m.error ? { ...m, text: ERROR_MESSAGES.unknown, error: { kind: 'unknown', message: ERROR_MESSAGES.unknown } } : m) })),
+    // v3: inline attachments keep their bytes once, in the data URL.
+    2: (threads: ChatThread[]) => threads.map(t => ({ ...t, messages: t.messages.map(m => m.attachments ? { ...m, attachments: m.attachments.map(dropDuplicateData) } : m) }))
+  },
+  validate: Array.isArray,
+  validateItem: (t) => isPlainObject(t) && typeof t.id === 'string' && Array.isArray(t.messages)
+});
+
+export const createThread = (): ChatThread => {
+  const now = Date.now();
+  return { id: `thread_${now}_${Math.random().toString(36).slice(2, 8)}`, title: DEFAULT_THREAD_TITLE, pinned: false, messages: [], createdAt: now, updatedAt: now };
+};
+
+export const deriveThreadTitle = (text: string): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return DEFAULT_THREAD_TITLE;
+  return clean.length > 40 ? `${clean.slice(0, 40)}…` : clean;
+};
+
+// Pinned threads first, then most recently active.
+export const sortThreads = (threads: ChatThread[]): ChatThread[] =>
+  [...threads].sort((a, b) => (Number(b.pinned) - Number(a.pinned)) || (b.updatedAt - a.updatedAt));
+
+// The parts of a user message. Uploads the provider has deleted would fail the
+// whole request, so they are replaced by a note naming them.
+export const toMessageParts = (message: ChatMessage, now = Date.now()): ProviderPart[] => {
+  const attachments = message.attachments || [];
+  const expired = attachments.filter(a => isUploadExpired(a, message.timestamp, now));
+  const parts: ProviderPart[] = message.text ? [{ text: message.text }] : [];
+  parts.push(...toAttachmentParts(attachments.filter(a => !expired.includes(a))));
+  if (expired.length) parts.push({ text: `[Attachments no longer available: ${expired.map(a => a.name).join(', ')}]` });
+  return parts;
+};
+
+// Converts stored turns into provider chat history. A user turn is only replayed
+// together with a successful model reply so the roles keep alternating.
+export const toContentHistory = (messages: ChatMessage[], now = Date.now()): ChatTurn[] => {
+  const history: ChatTurn[] = [];
+  for (let i = 0; i < messages.length - 1; i++) {
+    const user = messages[i];
+    const reply = messages[i + 1];
+    if (user.role !== 'user' || reply.role !== 'model' || reply.isError || !reply.text) continue;
+    history.push({ role: 'user', parts: toMessageParts(user, now) }, { role: 'model', parts: [{ text: reply.text }] });
+    i++;
+  }
+  return history;
+};
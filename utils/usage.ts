@@ -0,0 +1,163 @@
+import { AppMode } from '../types';
+import { ProviderId, UsageReport } from '../providers/types';
+import { saveToHistory, loadFromHistory, clearHistory } from './history';
+import { defineHistorySchema, isPlainObject } from './schemas';
+import { LOCAL_USER, activeUserId } from './profile';
+
+export const USAGE_KEY = 'textgpt_usage';
+export const PRICES_KEY = 'textgpt_model_prices';
+
+// Fired on window whenever usage is recorded or cleared, so open views can refresh.
+export const USAGE_EVENT = 'textgpt:usage';
+
+// Oldest records are dropped past this; roughly a year of steady use.
+const USAGE_LIMIT = 5000;
+
+export interface UsageRecord extends UsageReport {
+  id: string;
+  timestamp: number;
+  mode: AppMode;
+  provider: ProviderId;
+  // Profile id of whoever made the call; missing on records from before sign-in existed.
+  user?: string;
+}
+
+// USD. Token prices are per million tokens; media models bill per image or per second of video.
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cached: number;
+  image: number;
+  videoSecond: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  cachedTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number;
+}
+
+const price = (p: Partial<ModelPrice>): ModelPrice => ({ input: 0, output: 0, cached: 0, image: 0, videoSecond: 0, ...p });
+
+// Published list prices at the time of writing; edit them from the usage dashboard.
+// Image models carry their output cost in `image` so image tokens are not counted twice.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-3-pro-preview': price({ input: 2, output: 12, cached: 0.2 }),
+  'gemini-3-flash-preview': price({ input: 0.5, output: 3, cached: 0.05 }),
+  'gemini-2.5-flash-image': price({ input: 0.3, image: 0.039 }),
+  'gemini-3-pro-image-preview': price({ input: 2, image: 0.134 }),
+  'veo-3.1-fast-generate-preview': price({ videoSecond: 0.15 }),
+  'gemini-2.5-flash-native-audio-preview-12-2025': price({ input: 3, output: 12 })
+};
+
+const isUsageRecord = (r: any) =>
+  isPlainObject(r) && typeof r.timestamp === 'number' && typeof r.model === 'string' && typeof r.mode === 'string';
+
+defineHistorySchema({ key: USAGE_KEY, version: 1, validate: Array.isArray, validateItem: isUsageRecord });
+defineHistorySchema({ key: PRICES_KEY, version: 1, validate: isPlainObject });
+
+export const loadUsage = (): UsageRecord[] => loadFromHistory(USAGE_KEY, []);
+
+const notifyUsage = () => window.dispatchEvent(new Event(USAGE_EVENT));
+
+export const clearUsage = () => {
+  clearHistory(USAGE_KEY);
+  notifyUsage();
+};
+
+export const recordUsage = (mode: AppMode, provider: ProviderId, report: UsageReport) => {
+  const record: UsageRecord = { ...report, id: `usage_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`, timestamp: Date.now(), mode, provider, user: activeUserId() };
+  saveToHistory(USAGE_KEY, [...loadUsage(), record].slice(-USAGE_LIMIT));
+  notifyUsage();
+};
+
+export const usageUser = (r: UsageRecord) => r.user || LOCAL_USER;
+
+export const loadPrices = (): PriceTable => ({ ...DEFAULT_PRICES, ...loadFromHistory(PRICES_KEY, {}) });
+
+// Only overrides are stored so updated defaults still reach untouched models.
+export const savePrices = (prices: PriceTable) => {
+  const overrides = Object.fromEntries(Object.entries(prices).filter(([model, p]) => JSON.stringify(p) !== JSON.stringify(DEFAULT_PRICES[model])));
+  saveToHistory(PRICES_KEY, overrides);
+};
+
+export const resetPrices = () => clearHistory(PRICES_KEY);
+
+export const emptyPrice = (): ModelPrice => price({});
+
+// Unknown models cost nothing rather than guessing.
+export const costOf = (r: UsageReport, prices: PriceTable): number => {
+  const p = prices[r.model];
+  if (!p) return 0;
+  const cached = Math.min(r.cachedTokens, r.promptTokens);
+  return ((r.promptTokens - cached) * p.input + cached * p.cached + r.responseTokens * p.output) / 1_000_000
+    + (r.images || 0) * p.image
+    + (r.videoSeconds || 0) * p.videoSecond;
+};
+
+export const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, responseTokens: 0, cachedTokens: 0, images: 0, videoSeconds: 0, cost: 0 });
+
+const addTo = (totals: UsageTotals, r: UsageRecord, prices: PriceTable) => {
+  totals.requests++;
+  totals.promptTokens += r.promptTokens;
+  totals.responseTokens += r.responseTokens;
+  totals.cachedTokens += r.cachedTokens;
+  totals.images += r.images || 0;
+  totals.videoSeconds += r.videoSeconds || 0;
+  totals.cost += costOf(r, prices);
+  return totals;
+};
+
+export const totalUsage = (records: UsageRecord[], prices: PriceTable): UsageTotals =>
+  records.reduce((t, r) => addTo(t, r, prices), emptyTotals());
+
+// Local calendar day, so a late-night session is not split across UTC dates.
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Totals per group, largest cost first unless the caller sorts otherwise.
+export const groupUsage = (records: UsageRecord[], prices: PriceTable, groupBy: (r: UsageRecord) => string): Array<{ key: string; totals: UsageTotals }> => {
+  const groups = new Map<string, UsageTotals>();
+  records.forEach(r => {
+    const key = groupBy(r);
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addTo(groups.get(key)!, r, prices);
+  });
+  return [...groups.entries()].map(([key, totals]) => ({ key, totals })).sort((a, b) => (b.totals.cost - a.totals.cost) || (b.totals.requests - a.totals.requests));
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toUsageCsv = (records: UsageRecord[], prices: PriceTable): string => {
+  const header = ['timestamp', 'day', 'user', 'mode', 'provider', 'model', 'prompt_tokens', 'response_tokens', 'cached_tokens', 'images', 'video_seconds', 'cost_usd'];
+  const rows = records.map(r => [
+    new Date(r.timestamp).toISOString(), dayKey(r.timestamp), usageUser(r), r.mode, r.provider, r.model,
+    r.promptTokens, r.responseTokens, r.cachedTokens, r.images || 0, r.videoSeconds || 0, costOf(r, prices).toFixed(6)
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+};
+
+export const downloadUsageCsv = (records: UsageRecord[], prices: PriceTable) => {
+  const url = URL.createObjectURL(new Blob([toUsageCsv(records, prices)], { type: 'text/csv' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `textgpt-usage-${dayKey(Date.now())}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const formatCost = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (count: number) =>
+  count >= 1_000_000 ? `${(count / 1_000_000).toFixed(1)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}K` : String(count);
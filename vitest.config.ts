@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Some modules still have an older .js build beside them; tests run the TypeScript sources.
+    extensions: ['.mts', '.ts', '.tsx', '.mjs', '.js', '.jsx', '.json']
+  },
+  test: {
+    // History falls back to localStorage, which the components' request builders read.
+    environment: 'jsdom'
+  }
+});